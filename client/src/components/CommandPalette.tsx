@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Search, Terminal, FileText, Zap, Database, ArrowRight, Loader2 } from "lucide-react";
+import { Search, Terminal, FileText, Zap, Database, ArrowRight, Loader2, Star, Check, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -14,7 +14,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Fragment, FragmentStatus, Zine } from "@shared/schema";
 
 interface Command {
   id: string;
@@ -68,11 +71,14 @@ const commands: Command[] = [
   },
 ];
 
-interface Fragment {
-  text: string;
-  relevance: string;
+interface BoundThread {
+  title: string;
+  weight: number;
+  fragmentIds: string[];
+  nodeIds: string[];
   keywords: string[];
-  category: string;
+  concepts: string[];
+  fragments: Fragment[];
 }
 
 interface CommandPaletteProps {
@@ -88,7 +94,18 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
   const [mode, setMode] = useState<"commands" | "sift" | "bind">("commands");
   const [siftQuery, setSiftQuery] = useState("");
   const [extractedFragments, setExtractedFragments] = useState<Fragment[]>([]);
+  const [boundThreads, setBoundThreads] = useState<BoundThread[]>([]);
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  // Fragments saved by earlier /sift runs on this FloatAST
+  const fragmentsKey = [`/api/fragments?floatAstId=${currentFloatAstId}`];
+  const { data: savedFragments = [] } = useQuery<Fragment[]>({
+    queryKey: fragmentsKey,
+    enabled: open && !!currentFloatAstId,
+  });
+  const bindableFragments = (extractedFragments.length > 0 ? extractedFragments : savedFragments)
+    .filter(fragment => fragment.status !== "rejected");
 
   const filteredCommands = commands.filter(
     (cmd) =>
@@ -133,6 +150,7 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
     },
     onSuccess: (data) => {
       setExtractedFragments(data.fragments || []);
+      queryClient.invalidateQueries({ queryKey: fragmentsKey });
       toast({
         title: "Success",
         description: `Extracted ${data.fragments?.length || 0} fragments`,
@@ -146,6 +164,103 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
     },
   });
 
+  // Offline clustering of the fragments into candidate threads
+  const bindMutation = useMutation({
+    mutationFn: async () => {
+      if (!currentFloatAstId) throw new Error("No FloatAST available");
+      const response = await apiRequest("POST", `/api/float-asts/${currentFloatAstId}/bind`, {
+        fragmentIds: bindableFragments.map(fragment => fragment.id),
+      });
+      return response.json() as Promise<{ threads: BoundThread[]; unbound: string[] }>;
+    },
+    onSuccess: (data) => {
+      setBoundThreads(data.threads);
+      toast({
+        title: "Success",
+        description: `Found ${data.threads.length} threads, ${data.unbound.length} fragments left unbound`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to bind fragments",
+      });
+    },
+  });
+
+  const saveThreadsMutation = useMutation({
+    mutationFn: async (threads: BoundThread[]) => {
+      for (const thread of threads) {
+        await apiRequest("POST", "/api/threads", {
+          floatAstId: currentFloatAstId,
+          title: thread.title,
+          nodeIds: thread.nodeIds,
+          weight: thread.weight,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/threads?floatAstId=${currentFloatAstId}`] });
+      toast({
+        title: "Success",
+        description: `Saved ${boundThreads.length} threads to the Thread Builder`,
+      });
+      setBoundThreads([]);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save threads",
+      });
+    },
+  });
+
+  // Renders the saved threads into a draft zine
+  const renderMutation = useMutation({
+    mutationFn: async () => {
+      if (!currentFloatAstId) throw new Error("No FloatAST available");
+      const response = await apiRequest("POST", `/api/float-asts/${currentFloatAstId}/render`, {});
+      return response.json() as Promise<Zine>;
+    },
+    onSuccess: (zine) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/zines"] });
+      toast({
+        title: "Success",
+        description: `Rendered draft zine "${zine.title}"`,
+      });
+      handleClose();
+      setLocation("/zines");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to render zine",
+      });
+    },
+  });
+
+  const curateFragmentMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: FragmentStatus }) => {
+      const response = await apiRequest("PUT", `/api/fragments/${id}`, { status });
+      return response.json() as Promise<Fragment>;
+    },
+    onSuccess: (updated) => {
+      setExtractedFragments(prev => prev.map(fragment => fragment.id === updated.id ? updated : fragment));
+      queryClient.invalidateQueries({ queryKey: fragmentsKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update fragment",
+      });
+    },
+  });
+
+  // Clicking the active status again puts the fragment back to pending
+  const curate = (fragment: Fragment, status: FragmentStatus) => {
+    curateFragmentMutation.mutate({ id: fragment.id, status: fragment.status === status ? "pending" : status });
+  };
+
   const executeCommand = (command: Command) => {
     if (command.id === "sift") {
       if (!currentFloatAstId) {
@@ -161,7 +276,7 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
     }
     
     if (command.id === "bind") {
-      if (extractedFragments.length === 0) {
+      if (bindableFragments.length === 0) {
         toast({
           title: "Error", 
           description: "No fragments available. Use /sift to extract fragments first.",
@@ -173,6 +288,18 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
       return;
     }
     
+    if (command.id === "render") {
+      if (!currentFloatAstId) {
+        toast({
+          title: "Error",
+          description: "No conversation parsed yet. Please parse a conversation first.",
+        });
+        return;
+      }
+      renderMutation.mutate();
+      return;
+    }
+
     // Handle other commands
     console.log(`Executing command: ${command.title}`);
     onOpenChange(false);
@@ -184,6 +311,7 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
     setMode("commands");
     setSiftQuery("");
     setExtractedFragments([]);
+    setBoundThreads([]);
   };
   
   const handleSiftSubmit = () => {
@@ -319,10 +447,44 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
             <h3 className="font-mono text-sm font-medium">Extracted Fragments ({extractedFragments.length})</h3>
             <ScrollArea className="max-h-64">
               <div className="space-y-2">
-                {extractedFragments.map((fragment, index) => (
-                  <Card key={index} className="p-3">
+                {extractedFragments.map((fragment) => (
+                  <Card key={fragment.id} className={`p-3 ${fragment.status === "rejected" ? "opacity-50" : ""}`}>
                     <CardContent className="p-0 space-y-2">
-                      <div className="text-sm">{fragment.text}</div>
+                      <div className="flex items-start gap-2">
+                        <div className="text-sm flex-1">{fragment.text}</div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant={fragment.status === "starred" ? "secondary" : "ghost"}
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => curate(fragment, "starred")}
+                            aria-label="Star fragment"
+                            data-testid={`button-star-fragment-${fragment.id}`}
+                          >
+                            <Star className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant={fragment.status === "accepted" ? "secondary" : "ghost"}
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => curate(fragment, "accepted")}
+                            aria-label="Accept fragment"
+                            data-testid={`button-accept-fragment-${fragment.id}`}
+                          >
+                            <Check className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant={fragment.status === "rejected" ? "secondary" : "ghost"}
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => curate(fragment, "rejected")}
+                            aria-label="Reject fragment"
+                            data-testid={`button-reject-fragment-${fragment.id}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
                       <div className="flex items-center gap-2 text-xs text-muted-foreground">
                         <Badge variant="outline" className="text-xs">
                           {fragment.category}
@@ -384,16 +546,60 @@ export function CommandPalette({ open, onOpenChange, currentConversationId, curr
       <div className="px-6 pb-6">
         <div className="space-y-3">
           <div className="text-sm text-muted-foreground">
-            {extractedFragments.length} fragments available for threading
+            {bindableFragments.length} fragments available for threading
           </div>
           <Button
             variant="outline"
             className="w-full"
+            onClick={() => bindMutation.mutate()}
+            disabled={bindableFragments.length === 0 || bindMutation.isPending}
             data-testid="button-create-thread"
           >
-            <Zap className="h-4 w-4 mr-2" />
+            {bindMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Zap className="h-4 w-4 mr-2" />
+            )}
             Auto-Generate Threads
           </Button>
+          {boundThreads.length > 0 && (
+            <ScrollArea className="max-h-64">
+              <div className="space-y-2">
+                {boundThreads.map((thread) => (
+                  <Card key={thread.fragmentIds.join(",")} className="p-3" data-testid={`card-bound-thread-${thread.fragmentIds[0]}`}>
+                    <CardContent className="p-0 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="font-mono text-sm font-medium">{thread.title}</div>
+                        <Badge variant="outline" className="text-xs font-mono">
+                          {thread.fragments.length} fragments · {thread.weight.toFixed(2)}
+                        </Badge>
+                      </div>
+                      {thread.keywords.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {thread.keywords.map((keyword) => (
+                            <Badge key={keyword} variant="secondary" className="text-xs">
+                              {keyword}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+          {boundThreads.length > 0 && (
+            <Button
+              className="w-full"
+              onClick={() => saveThreadsMutation.mutate(boundThreads)}
+              disabled={saveThreadsMutation.isPending}
+              data-testid="button-save-threads"
+            >
+              {saveThreadsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save {boundThreads.length} threads
+            </Button>
+          )}
         </div>
       </div>
     </>
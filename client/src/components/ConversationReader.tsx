@@ -5,7 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { MessageSquare, Bot, User, Zap, Link, Lightbulb, Upload } from "lucide-react";
-import type { FloatNode, Message, Persona } from "@shared/schema";
+import type { FloatAST, FloatNode, Message, Persona } from "@shared/schema";
+import { getDialects, parseConversation } from "@shared/parser";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
@@ -86,58 +87,10 @@ const mockFloatNodes: FloatNode[] = [
   },
 ];
 
-// Helper function to parse conversation text into messages
-function parseConversationText(text: string): Message[] {
-  const lines = text.split('\n').filter(line => line.trim());
-  const messages: Message[] = [];
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const messageMatch = line.match(/^([^:]+):\s*(.+)$/);
-    
-    if (messageMatch) {
-      const [, authorName, messageText] = messageMatch;
-      const isAssistant = authorName.toLowerCase().includes('assistant') || 
-                         authorName.toLowerCase().includes('claude') ||
-                         authorName.toLowerCase().includes('ai');
-      
-      const persona: Persona = {
-        id: `persona-${authorName}`,
-        name: authorName,
-        role: isAssistant ? "researcher" : "author",
-        colorToken: isAssistant ? "text-purple-400" : "text-blue-400",
-      };
-      
-      messages.push({
-        id: `msg-${i}`,
-        convoId: "parsed",
-        author: persona,
-        createdAt: new Date().toISOString(),
-        text: messageText,
-      });
-    } else if (line.trim()) {
-      // Handle lines without clear author attribution
-      messages.push({
-        id: `msg-${i}`,
-        convoId: "parsed",
-        author: {
-          id: "system",
-          name: "System",
-          role: "sysop",
-          colorToken: "text-gray-400",
-        },
-        createdAt: new Date().toISOString(),
-        text: line,
-      });
-    }
-  }
-  
-  return messages;
-}
-
 export function ConversationReader({ conversation, conversationId, floatNodes = mockFloatNodes }: ConversationReaderProps) {
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
   const [parsedMessages, setParsedMessages] = useState<Message[]>([]);
+  const [parsedNodes, setParsedNodes] = useState<FloatNode[]>([]);
   const { toast } = useToast();
   
   // Fetch conversation details to get floatAstId
@@ -164,15 +117,24 @@ export function ConversationReader({ conversation, conversationId, floatNodes =
     enabled: !!conversationDetails?.floatAstId,
   });
   
-  // Parse conversation text into messages
+  // Parse conversation text into messages, the way its FloatAST was parsed.
+  // Dialects registered only on the server fall back to detection here.
   useEffect(() => {
     if (conversation && conversation !== "Sample conversation data") {
-      const parsed = parseConversationText(conversation);
-      setParsedMessages(parsed);
+      const metadata = (floatAstRecord?.data as FloatAST | undefined)?.metadata;
+      const dialect = getDialects().some(known => known.name === metadata?.dialect) ? metadata?.dialect : undefined;
+      const { messages, nodes } = parseConversation(conversation, {
+        convoId: conversationId,
+        dialect,
+        speakers: metadata?.transcript_speakers,
+      });
+      setParsedMessages(messages);
+      setParsedNodes(nodes);
     } else {
       setParsedMessages(mockMessages);
+      setParsedNodes([]);
     }
-  }, [conversation]);
+  }, [conversation, conversationId, floatAstRecord]);
   
   // Parse conversation to FloatAST
   const parseToFloatMutation = useMutation({
@@ -205,6 +167,17 @@ export function ConversationReader({ conversation, conversationId, floatNodes =
   
   // Use FloatAST nodes if available, otherwise fall back to mock data
   const effectiveFloatNodes: FloatNode[] = floatAstRecord?.data ? (floatAstRecord.data as any).nodes || floatNodes : floatNodes;
+  const topLevelNodes = effectiveFloatNodes.filter(node => node.position.depth === 0);
+
+  // A message and its node come from the same span of the transcript; without
+  // spans (or when the FloatAST is older than the text) pair them by position
+  const nodeForMessage = (index: number): FloatNode | undefined => {
+    const source = parsedNodes[index]?.source;
+    const spanned = source && effectiveFloatNodes.find(node =>
+      node.source?.char_start === source.char_start && node.source?.char_end === source.char_end,
+    );
+    return spanned || topLevelNodes[index];
+  };
 
   const getMarkerIcon = (markers?: FloatNode['float_markers']) => {
     if (!markers) return null;
@@ -266,7 +239,7 @@ export function ConversationReader({ conversation, conversationId, floatNodes =
             <ScrollArea className="h-[400px] px-6">
               <div className="space-y-4 pb-4">
                 {messages.map((message, index) => {
-                  const node = effectiveFloatNodes.find(n => n.content.raw === message.text);
+                  const node = nodeForMessage(index);
                   const isSelected = selectedNode === node?.id;
                   
                   return (
@@ -298,7 +271,7 @@ export function ConversationReader({ conversation, conversationId, floatNodes =
                               {new Date(message.createdAt).toLocaleTimeString()}
                             </span>
                           </div>
-                          <div className="prose prose-sm dark:prose-invert max-w-none">
+                          <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap">
                             {message.text}
                           </div>
                           {node && (
@@ -348,7 +321,7 @@ export function ConversationReader({ conversation, conversationId, floatNodes =
             </CardHeader>
             <CardContent className="space-y-4">
               {(() => {
-                const node = floatNodes.find(n => n.id === selectedNode);
+                const node = effectiveFloatNodes.find(n => n.id === selectedNode);
                 if (!node) return <div>Node not found</div>;
                 
                 return (
@@ -370,7 +343,13 @@ export function ConversationReader({ conversation, conversationId, floatNodes =
                               </Badge>
                             </div>
                           )}
-                          {node.semantic.certainty && (
+                          {node.semantic.emotional_tone && (
+                            <div className="flex justify-between">
+                              <span className="text-sm text-muted-foreground">Tone:</span>
+                              <span className="text-sm font-mono">{node.semantic.emotional_tone}</span>
+                            </div>
+                          )}
+                          {node.semantic.certainty !== undefined && (
                             <div className="flex justify-between">
                               <span className="text-sm text-muted-foreground">Certainty:</span>
                               <span className="text-sm font-mono">
@@ -1,127 +1,197 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
-import { Network, Plus, ArrowUp, ArrowDown, Trash2, Link, Lightbulb } from "lucide-react";
-import type { FloatNode } from "@shared/schema";
+import { Network, Plus, ArrowUp, ArrowDown, Trash2, Link, Lightbulb, Sparkles, X, Loader2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FloatAST, FloatASTRecord, FloatNode, InsertThread, Thread } from "@shared/schema";
 
-interface Thread {
-  id: string;
+type ThreadUpdates = Partial<Pick<InsertThread, "title" | "nodeIds" | "weight" | "position">>;
+
+// A proposal from /suggest-threads, not yet saved
+interface SuggestedThread {
   title: string;
-  nodeIds: string[];
   weight: number;
+  nodeIds: string[];
+  seed: { kind: "concept" | "marker"; nodeIds: string[] };
 }
 
+const SUGGEST_DEPTHS = [0, 1, 2, 3];
+
 interface ThreadBuilderProps {
-  floatNodes?: FloatNode[];
+  floatAstId?: string;
   onThreadsChange?: (threads: Thread[]) => void;
 }
 
-// Mock float nodes for demonstration
-const mockFloatNodes: FloatNode[] = [
-  {
-    id: "node1",
-    type: "message",
-    role: "human",
-    content: {
-      raw: "Digital information processing reveals hidden patterns",
-      processed: "Core insight about pattern recognition",
-    },
-    semantic: {
-      intent: "reflection",
-      certainty: 0.9,
-    },
-    float_markers: {
-      highlight: "pattern recognition",
+export function ThreadBuilder({ floatAstId, onThreadsChange }: ThreadBuilderProps) {
+  const { toast } = useToast();
+  const threadsKey = [`/api/threads?floatAstId=${floatAstId}`];
+
+  const { data: floatAstRecord } = useQuery<FloatASTRecord>({
+    queryKey: ["/api/float-asts", floatAstId],
+    enabled: !!floatAstId,
+  });
+  // The query cache holds the working copy; edits update it right away and
+  // are saved in the background
+  const { data: threads = [], isLoading } = useQuery<Thread[]>({
+    queryKey: threadsKey,
+    enabled: !!floatAstId,
+  });
+
+  const floatNodes = (floatAstRecord?.data as FloatAST | undefined)?.nodes ?? [];
+  const [selectedThread, setSelectedThread] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<SuggestedThread[]>([]);
+  const [suggestDepth, setSuggestDepth] = useState(1);
+
+  // Suggestions belong to one FloatAST
+  useEffect(() => {
+    setSuggestions([]);
+  }, [floatAstId]);
+
+  useEffect(() => {
+    if (!threads.some(thread => thread.id === selectedThread)) {
+      setSelectedThread(threads[0]?.id || null);
+    }
+  }, [threads, selectedThread]);
+
+  // Nodes no thread has claimed yet
+  const unassignedNodes = floatNodes
+    .filter(node => !threads.some(thread => thread.nodeIds.includes(node.id)))
+    .map(node => node.id);
+
+  const applyThreads = (updatedThreads: Thread[]) => {
+    queryClient.setQueryData(threadsKey, updatedThreads);
+    onThreadsChange?.(updatedThreads);
+  };
+
+  const showError = (error: any, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+    });
+    // Reload the saved state so the list matches the server again
+    queryClient.invalidateQueries({ queryKey: threadsKey });
+  };
+
+  const createThreadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/threads", {
+        floatAstId,
+        title: "New Thread",
+        nodeIds: [],
+        weight: 0.5,
+      });
+      return response.json() as Promise<Thread>;
     },
-    position: { index: 0, depth: 0 },
-  },
-  {
-    id: "node2",
-    type: "message", 
-    role: "assistant",
-    content: {
-      raw: "The layered nature of dialogue creates emergent meaning",
-      processed: "Response about emergent properties",
+    onSuccess: (thread) => {
+      applyThreads([...threads, thread]);
+      setSelectedThread(thread.id);
     },
-    semantic: {
-      intent: "statement",
-      certainty: 0.8,
+    onError: (error: any) => showError(error, "Failed to create thread"),
+  });
+
+  const suggestMutation = useMutation({
+    mutationFn: async (depth: number) => {
+      const response = await apiRequest("POST", `/api/float-asts/${floatAstId}/suggest-threads`, { depth });
+      return response.json() as Promise<{ suggestions: SuggestedThread[] }>;
     },
-    float_markers: {
-      bridge: "emergent meaning",
+    onSuccess: (data) => {
+      setSuggestions(data.suggestions);
+      if (data.suggestions.length === 0) {
+        toast({
+          title: "No suggestions",
+          description: "Nothing new to suggest for this conversation",
+        });
+      }
     },
-    position: { index: 1, depth: 0 },
-  },
-  {
-    id: "node3",
-    type: "message",
-    role: "human", 
-    content: {
-      raw: "Transformation through processing scattered thoughts",
-      processed: "Insight about cognitive transformation",
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to suggest threads",
+      });
     },
-    semantic: {
-      intent: "reflection",
-      certainty: 0.85,
+  });
+
+  const acceptSuggestionMutation = useMutation({
+    mutationFn: async (suggestion: SuggestedThread) => {
+      const response = await apiRequest("POST", "/api/threads", {
+        floatAstId,
+        title: suggestion.title,
+        nodeIds: suggestion.nodeIds,
+        weight: suggestion.weight,
+      });
+      return response.json() as Promise<Thread>;
     },
-    float_markers: {
-      eureka: "cognitive transformation",
+    onSuccess: (thread, suggestion) => {
+      applyThreads([...threads, thread]);
+      setSuggestions(prev => prev.filter(s => s !== suggestion));
+      setSelectedThread(thread.id);
     },
-    position: { index: 2, depth: 0 },
-  },
-];
-
-export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }: ThreadBuilderProps) {
-  const [threads, setThreads] = useState<Thread[]>([
-    {
-      id: "thread1",
-      title: "Information Processing Patterns",
-      nodeIds: ["node1", "node2"],
-      weight: 0.8,
+    onError: (error: any) => showError(error, "Failed to create thread"),
+  });
+
+  const suggestThreads = (depth: number) => {
+    setSuggestDepth(depth);
+    suggestMutation.mutate(depth);
+  };
+
+  const saveThreadMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: ThreadUpdates }) => {
+      const response = await apiRequest("PUT", `/api/threads/${id}`, updates);
+      return response.json() as Promise<Thread>;
     },
-    {
-      id: "thread2", 
-      title: "Cognitive Transformation",
-      nodeIds: ["node3"],
-      weight: 0.7,
+    onError: (error: any) => showError(error, "Failed to save thread"),
+  });
+
+  const deleteThreadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/threads/${id}`);
     },
-  ]);
-  
-  const [selectedThread, setSelectedThread] = useState<string | null>("thread1");
-  const [unassignedNodes] = useState<string[]>([]);
+    onError: (error: any) => showError(error, "Failed to delete thread"),
+  });
 
   const createThread = () => {
-    const newThread: Thread = {
-      id: `thread-${Date.now()}`,
-      title: "New Thread",
-      nodeIds: [],
-      weight: 0.5,
-    };
-    const updatedThreads = [...threads, newThread];
-    setThreads(updatedThreads);
-    setSelectedThread(newThread.id);
-    onThreadsChange?.(updatedThreads);
+    if (!floatAstId) return;
+    createThreadMutation.mutate();
   };
 
-  const updateThread = (id: string, updates: Partial<Thread>) => {
+  // persist: false keeps the change local until saveThread is called,
+  // e.g. while a title is being typed
+  const updateThread = (id: string, updates: ThreadUpdates, persist = true) => {
     const updatedThreads = threads.map(thread =>
       thread.id === id ? { ...thread, ...updates } : thread
     );
-    setThreads(updatedThreads);
-    onThreadsChange?.(updatedThreads);
+    applyThreads(updatedThreads);
+    if (persist) saveThreadMutation.mutate({ id, updates });
+  };
+
+  const saveThread = (id: string, updates: ThreadUpdates) => {
+    saveThreadMutation.mutate({ id, updates });
   };
 
   const deleteThread = (id: string) => {
     const updatedThreads = threads.filter(thread => thread.id !== id);
-    setThreads(updatedThreads);
+    applyThreads(updatedThreads);
     if (selectedThread === id) {
       setSelectedThread(updatedThreads[0]?.id || null);
     }
-    onThreadsChange?.(updatedThreads);
+    deleteThreadMutation.mutate(id);
+  };
+
+  // Saves nodeIds for every thread whose list changed
+  const applyNodeChanges = (updatedThreads: Thread[]) => {
+    applyThreads(updatedThreads);
+    updatedThreads.forEach((thread, index) => {
+      if (thread.nodeIds !== threads[index].nodeIds) {
+        saveThreadMutation.mutate({ id: thread.id, updates: { nodeIds: thread.nodeIds } });
+      }
+    });
   };
 
   const moveNodeToThread = (nodeId: string, threadId: string) => {
@@ -131,15 +201,15 @@ export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }:
           ...thread,
           nodeIds: [...thread.nodeIds, nodeId],
         };
-      } else {
+      } else if (thread.nodeIds.includes(nodeId)) {
         return {
           ...thread,
           nodeIds: thread.nodeIds.filter(id => id !== nodeId),
         };
       }
+      return thread;
     });
-    setThreads(updatedThreads);
-    onThreadsChange?.(updatedThreads);
+    applyNodeChanges(updatedThreads);
   };
 
   const removeNodeFromThread = (nodeId: string, threadId: string) => {
@@ -148,8 +218,18 @@ export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }:
         ? { ...thread, nodeIds: thread.nodeIds.filter(id => id !== nodeId) }
         : thread
     );
-    setThreads(updatedThreads);
-    onThreadsChange?.(updatedThreads);
+    applyNodeChanges(updatedThreads);
+  };
+
+  // Renumbers positions after a move and saves the threads that shifted
+  const reorderThreads = (newThreads: Thread[]) => {
+    const renumbered = newThreads.map((thread, position) => ({ ...thread, position }));
+    applyThreads(renumbered);
+    renumbered.forEach((thread, index) => {
+      if (thread.position !== newThreads[index].position) {
+        saveThreadMutation.mutate({ id: thread.id, updates: { position: thread.position } });
+      }
+    });
   };
 
   const moveThreadUp = (threadId: string) => {
@@ -157,8 +237,7 @@ export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }:
     if (index > 0) {
       const newThreads = [...threads];
       [newThreads[index], newThreads[index - 1]] = [newThreads[index - 1], newThreads[index]];
-      setThreads(newThreads);
-      onThreadsChange?.(newThreads);
+      reorderThreads(newThreads);
     }
   };
 
@@ -167,8 +246,7 @@ export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }:
     if (index < threads.length - 1) {
       const newThreads = [...threads];
       [newThreads[index], newThreads[index + 1]] = [newThreads[index + 1], newThreads[index]];
-      setThreads(newThreads);
-      onThreadsChange?.(newThreads);
+      reorderThreads(newThreads);
     }
   };
 
@@ -183,6 +261,17 @@ export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }:
 
   const selectedThreadData = threads.find(t => t.id === selectedThread);
 
+  if (!floatAstId) {
+    return (
+      <Card className="h-full flex items-center justify-center p-12">
+        <div className="text-center text-muted-foreground">
+          <Network className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>Parse a conversation to start building threads</p>
+        </div>
+      </Card>
+    );
+  }
+
   return (
     <div className="h-full flex gap-4">
       {/* Thread List */}
@@ -193,17 +282,104 @@ export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }:
               <Network className="h-5 w-5" />
               Threads
             </CardTitle>
-            <Button 
-              size="sm" 
-              onClick={createThread}
-              data-testid="button-create-thread"
-            >
-              <Plus className="h-4 w-4" />
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => suggestThreads(suggestDepth)}
+                disabled={suggestMutation.isPending}
+                data-testid="button-suggest-threads"
+              >
+                {suggestMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-1" />
+                )}
+                Suggest threads
+              </Button>
+              <Button 
+                size="sm" 
+                onClick={createThread}
+                disabled={!floatAstId || createThreadMutation.isPending}
+                data-testid="button-create-thread"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="p-0">
             <ScrollArea className="h-[500px] px-6 pb-6">
+              {suggestions.length > 0 && (
+                <div className="space-y-2 mb-4" data-testid="thread-suggestions">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-mono text-muted-foreground">Suggestions</span>
+                    <div className="flex items-center gap-1">
+                      <Select value={String(suggestDepth)} onValueChange={(value) => suggestThreads(Number(value))}>
+                        <SelectTrigger className="h-7 w-28 text-xs font-mono" data-testid="select-suggest-depth">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SUGGEST_DEPTHS.map(depth => (
+                            <SelectItem key={depth} value={String(depth)}>
+                              {depth} {depth === 1 ? "hop" : "hops"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => setSuggestions([])}
+                        aria-label="Dismiss suggestions"
+                        data-testid="button-dismiss-suggestions"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  {suggestions.map((suggestion, index) => (
+                    <Card key={`${suggestion.title}-${index}`} className="p-3 border-dashed" data-testid={`suggestion-card-${index}`}>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="space-y-2">
+                          <h4 className="font-mono text-sm leading-tight">{suggestion.title}</h4>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs">
+                              {suggestion.seed.kind}
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {suggestion.nodeIds.length} nodes
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {(suggestion.weight * 100).toFixed(0)}% weight
+                            </Badge>
+                          </div>
+                        </div>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-6 w-6"
+                          onClick={() => acceptSuggestionMutation.mutate(suggestion)}
+                          disabled={acceptSuggestionMutation.isPending}
+                          aria-label="Add suggested thread"
+                          data-testid={`button-accept-suggestion-${index}`}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+                  <Separator />
+                </div>
+              )}
               <div className="space-y-2">
+                {isLoading ? (
+                  <div className="py-8 text-center text-sm text-muted-foreground">Loading threads...</div>
+                ) : threads.length === 0 && (
+                  <div className="py-8 text-center text-sm text-muted-foreground">
+                    No threads yet. Create one, suggest some, or use /bind.
+                  </div>
+                )}
                 {threads.map((thread, index) => (
                   <Card
                     key={thread.id}
@@ -290,7 +466,8 @@ export function ThreadBuilder({ floatNodes = mockFloatNodes, onThreadsChange }:
                 </label>
                 <Input
                   value={selectedThreadData.title}
-                  onChange={(e) => updateThread(selectedThreadData.id, { title: e.target.value })}
+                  onChange={(e) => updateThread(selectedThreadData.id, { title: e.target.value }, false)}
+                  onBlur={(e) => saveThread(selectedThreadData.id, { title: e.target.value })}
                   className="font-mono"
                   data-testid="input-thread-title"
                 />
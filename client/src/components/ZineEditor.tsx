@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,65 +6,319 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileText, Eye, Edit3, Save, Plus, Trash2 } from "lucide-react";
-import type { FloatAST } from "@shared/schema";
-
-interface ZineSection {
-  id: string;
-  title: string;
-  content: string;
-  nodeIds: string[];
-}
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileText, Eye, Edit3, Save, Plus, Trash2, Loader2, Send, RefreshCw, EyeOff, Archive, Download, ExternalLink, Printer } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ZINE_ACTIONS, canApplyZineAction, type ZineAction } from "@shared/zine";
+import type { ZineBlock, ZineDocument, ZineEdition, ZineEditionWithDocument, ZineSection, ZineWithDocument } from "@shared/schema";
 
 interface ZineEditorProps {
-  floatAst?: FloatAST;
-  onSave?: (zine: { title: string; sections: ZineSection[] }) => void;
+  zineId?: string;
+  onSave?: (zine: ZineWithDocument) => void;
 }
 
-export function ZineEditor({ floatAst, onSave }: ZineEditorProps) {
-  const [title, setTitle] = useState("Untitled Zine");
-  const [sections, setSections] = useState<ZineSection[]>([
-    {
-      id: "intro",
-      title: "Introduction",
-      content: "Welcome to this exploration of consciousness and conversation...",
-      nodeIds: ["node1"],
+// Comma-separated front matter lists
+const splitList = (value: string) => value.split(",").map(item => item.trim()).filter(Boolean);
+
+const ACTION_BUTTONS: Record<ZineAction, { label: string; icon: React.ReactNode }> = {
+  publish: { label: "Publish", icon: <Send className="h-4 w-4 mr-2" /> },
+  republish: { label: "Republish as new edition", icon: <RefreshCw className="h-4 w-4 mr-2" /> },
+  unpublish: { label: "Unpublish", icon: <EyeOff className="h-4 w-4 mr-2" /> },
+  archive: { label: "Archive", icon: <Archive className="h-4 w-4 mr-2" /> },
+};
+
+// Layouts and sheet sizes offered by /export/pdf
+const PRINT_OPTIONS = [
+  { layout: "minizine", paper: "letter", label: "Mini-zine on letter" },
+  { layout: "minizine", paper: "a4", label: "Mini-zine on A4" },
+  { layout: "booklet", paper: "letter", label: "Half-letter booklet" },
+  { layout: "booklet", paper: "a4", label: "A5 booklet" },
+];
+
+const blockLabel = (block: ZineBlock) => {
+  switch (block.type) {
+    case "quote":
+      return block.author ? `quote \u00b7 ${block.author}` : "quote";
+    case "callout":
+      return `callout \u00b7 ${block.marker}`;
+    default:
+      return "commentary";
+  }
+};
+
+export function ZineEditor({ zineId, onSave }: ZineEditorProps) {
+  const { toast } = useToast();
+  const zineKey = ["/api/zines", zineId];
+
+  const { data: zine, isLoading } = useQuery<ZineWithDocument>({
+    queryKey: zineKey,
+    enabled: !!zineId,
+  });
+  const editionsKey = ["/api/zines", zineId, "editions"];
+  const { data: editions = [] } = useQuery<ZineEdition[]>({
+    queryKey: editionsKey,
+    enabled: !!zineId,
+  });
+
+  // Edits stay local until saved
+  const [draft, setDraft] = useState<ZineDocument | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [previewMode, setPreviewMode] = useState(false);
+  const [cropMarks, setCropMarks] = useState(false);
+
+  useEffect(() => {
+    setDraft(zine?.document ?? null);
+    setDirty(false);
+  }, [zine]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (document: ZineDocument) => {
+      const response = await apiRequest("PUT", `/api/zines/${zineId}`, { document });
+      return response.json() as Promise<ZineWithDocument>;
     },
-    {
-      id: "analysis",
-      title: "Pattern Analysis",
-      content: "Through our dialogue, several key themes emerged...",
-      nodeIds: ["node2"],
+    onSuccess: (saved) => {
+      queryClient.setQueryData(zineKey, saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/zines"], exact: true });
+      onSave?.(saved);
+      toast({
+        title: "Success",
+        description: `Saved "${saved.title}"`,
+      });
     },
-  ]);
-  const [previewMode, setPreviewMode] = useState(false);
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save zine",
+      });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ZineAction) => {
+      const response = await apiRequest("POST", `/api/zines/${zineId}/${action}`);
+      return response.json() as Promise<{ zine: ZineWithDocument; edition?: ZineEditionWithDocument }>;
+    },
+    onSuccess: ({ zine: updated, edition }, action) => {
+      queryClient.setQueryData(zineKey, updated);
+      queryClient.invalidateQueries({ queryKey: editionsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/zines"], exact: true });
+      toast({
+        title: "Success",
+        description: edition ? `Published edition ${edition.edition} of "${updated.title}"` : `"${updated.title}" is now ${updated.status}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update zine status",
+      });
+    },
+  });
+
+  const siteMutation = useMutation({
+    mutationFn: async (excerpts: boolean) => {
+      const response = await apiRequest("POST", `/api/zines/${zineId}/export/microsite`, { excerpts });
+      return response.json() as Promise<{ directory: string; url: string; files: string[] }>;
+    },
+    onSuccess: (site) => {
+      window.open(site.url, "_blank");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export microsite",
+      });
+    },
+  });
+
+  const edit = (updater: (document: ZineDocument) => ZineDocument) => {
+    setDraft(current => (current ? updater(current) : current));
+    setDirty(true);
+  };
+
+  const updateFrontMatter = (updates: Partial<ZineDocument["frontMatter"]>) => {
+    edit(document => ({ ...document, frontMatter: { ...document.frontMatter, ...updates } }));
+  };
+
+  const updateSection = (id: string, updater: (section: ZineSection) => ZineSection) => {
+    edit(document => ({
+      ...document,
+      sections: document.sections.map(section => (section.id === id ? updater(section) : section)),
+    }));
+  };
 
   const addSection = () => {
     const newSection: ZineSection = {
       id: `section-${Date.now()}`,
       title: "New Section",
-      content: "Begin writing here...",
       nodeIds: [],
+      blocks: [{ type: "commentary", text: "", nodeIds: [] }],
     };
-    setSections([...sections, newSection]);
+    edit(document => ({ ...document, sections: [...document.sections, newSection] }));
+  };
+
+  const removeSection = (id: string) => {
+    edit(document => ({ ...document, sections: document.sections.filter(section => section.id !== id) }));
   };
 
-  const updateSection = (id: string, updates: Partial<ZineSection>) => {
-    setSections(sections.map(section => 
-      section.id === id ? { ...section, ...updates } : section
-    ));
+  const addBlock = (sectionId: string) => {
+    updateSection(sectionId, section => ({
+      ...section,
+      blocks: [...section.blocks, { type: "commentary", text: "", nodeIds: [] }],
+    }));
   };
 
-  const removeSection = (id: string) => {
-    setSections(sections.filter(section => section.id !== id));
+  const updateBlockText = (sectionId: string, index: number, text: string) => {
+    updateSection(sectionId, section => ({
+      ...section,
+      blocks: section.blocks.map((block, i) => (i === index ? { ...block, text } : block)),
+    }));
+  };
+
+  const removeBlock = (sectionId: string, index: number) => {
+    updateSection(sectionId, section => ({
+      ...section,
+      blocks: section.blocks.filter((_, i) => i !== index),
+    }));
   };
 
   const handleSave = () => {
-    onSave?.({ title, sections });
-    console.log("Zine saved:", { title, sections });
+    if (!draft) return;
+    if (!draft.frontMatter.title.trim()) {
+      toast({
+        title: "Error",
+        description: "A zine needs a title",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
   };
 
-  if (previewMode) {
+  const saveButton = (
+    <Button onClick={handleSave} disabled={!dirty || saveMutation.isPending} data-testid="button-save-zine">
+      {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+      Save
+    </Button>
+  );
+
+  if (!zineId || isLoading || !draft) {
+    return (
+      <Card className="h-full">
+        <CardContent className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+          {zineId && isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin" />
+          ) : (
+            <>
+              <FileText className="h-8 w-8 mb-4 opacity-50" />
+              <p className="font-mono text-sm">No zine selected</p>
+              <p className="text-xs mt-1">Create one, or render saved threads with /render</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { frontMatter, sections } = draft;
+  // Archived zines are final
+  const readOnly = zine?.status === "archived";
+  const latestEdition = editions[editions.length - 1];
+  // Exported sites carry the quoted turns when there's a conversation to quote
+  const hasSource = !!zine?.document.frontMatter.floatAstId;
+
+  // Unsaved edits have to be saved before they can be published
+  const publishingBar = zine && (
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge variant={zine.status === "published" ? "default" : "secondary"} className="font-mono text-xs">
+        {zine.status}
+      </Badge>
+      {latestEdition && (
+        <span className="text-xs text-muted-foreground font-mono">
+          {zine.publishedAt
+            ? `edition ${latestEdition.edition} live since ${new Date(zine.publishedAt).toLocaleDateString()}`
+            : `${editions.length} edition${editions.length === 1 ? "" : "s"}, not live`}
+        </span>
+      )}
+      <div className="ml-auto flex flex-wrap gap-2">
+        {zine.publishedAt && (
+          <>
+            <Button size="sm" variant="outline" asChild data-testid="button-zine-download-site">
+              <a href={`/api/zines/${zine.id}/export/microsite?excerpts=${hasSource}`} download>
+                <Download className="h-4 w-4 mr-2" />
+                Download Site
+              </a>
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => siteMutation.mutate(hasSource)}
+              disabled={siteMutation.isPending}
+              data-testid="button-zine-open-site"
+            >
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open Site
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline" data-testid="button-zine-print">
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print PDF
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="font-mono text-xs">Imposed for printing</DropdownMenuLabel>
+                {PRINT_OPTIONS.map(option => (
+                  <DropdownMenuItem key={`${option.layout}-${option.paper}`} asChild>
+                    <a
+                      href={`/api/zines/${zine.id}/export/pdf?layout=${option.layout}&paper=${option.paper}&cropMarks=${cropMarks}`}
+                      download
+                      data-testid={`link-print-${option.layout}-${option.paper}`}
+                    >
+                      {option.label}
+                    </a>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={cropMarks}
+                  onCheckedChange={checked => setCropMarks(checked === true)}
+                  onSelect={event => event.preventDefault()}
+                  data-testid="checkbox-print-crop-marks"
+                >
+                  Crop marks
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
+        {ZINE_ACTIONS.filter(action => canApplyZineAction(action, zine.status)).map(action => (
+          <Button
+            key={action}
+            size="sm"
+            variant={action === "archive" ? "ghost" : "outline"}
+            onClick={() => actionMutation.mutate(action)}
+            disabled={dirty || actionMutation.isPending}
+            data-testid={`button-zine-${action}`}
+          >
+            {ACTION_BUTTONS[action].icon}
+            {ACTION_BUTTONS[action].label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (previewMode || readOnly) {
     return (
       <Card className="h-full">
         <CardHeader className="flex flex-row items-center justify-between">
@@ -72,38 +326,75 @@ export function ZineEditor({ floatAst, onSave }: ZineEditorProps) {
             <Eye className="h-5 w-5" />
             Zine Preview
           </CardTitle>
-          <div className="flex gap-2">
-            <Button 
-              variant="outline" 
-              onClick={() => setPreviewMode(false)}
-              data-testid="button-edit-mode"
-            >
-              <Edit3 className="h-4 w-4 mr-2" />
-              Edit
-            </Button>
-            <Button onClick={handleSave} data-testid="button-save-zine">
-              <Save className="h-4 w-4 mr-2" />
-              Save
-            </Button>
-          </div>
+          {!readOnly && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setPreviewMode(false)}
+                data-testid="button-edit-mode"
+              >
+                <Edit3 className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+              {saveButton}
+            </div>
+          )}
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-6">
+          {publishingBar}
           <ScrollArea className="h-[500px]">
             <article className="prose prose-sm dark:prose-invert max-w-none">
-              <h1 className="font-mono text-3xl mb-8">{title}</h1>
-              
+              <header className="mb-8">
+                <h1 className="font-mono text-3xl mb-2">{frontMatter.title}</h1>
+                {frontMatter.subtitle && (
+                  <p className="text-lg text-muted-foreground">{frontMatter.subtitle}</p>
+                )}
+                {frontMatter.authors.length > 0 && (
+                  <p className="text-sm font-mono">by {frontMatter.authors.join(", ")}</p>
+                )}
+                {frontMatter.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 not-prose">
+                    {frontMatter.tags.map(tag => (
+                      <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </header>
+
               {sections.map((section, index) => (
                 <section key={section.id} className="mb-8">
-                  <h2 className="font-mono text-xl mb-4">{section.title}</h2>
-                  <div className="whitespace-pre-wrap leading-relaxed">
-                    {section.content}
-                  </div>
+                  {section.title && <h2 className="font-mono text-xl mb-4">{section.title}</h2>}
+                  {section.blocks.map((block, blockIndex) => {
+                    if (block.type === "quote") {
+                      return (
+                        <blockquote key={blockIndex} className="whitespace-pre-wrap">
+                          {block.text}
+                          {block.author && (
+                            <footer className="text-xs font-mono not-italic mt-1">{"\u2014"} {block.author}</footer>
+                          )}
+                        </blockquote>
+                      );
+                    }
+                    if (block.type === "callout") {
+                      return (
+                        <aside key={blockIndex} className="my-4 border-l-4 border-primary bg-primary/10 px-4 py-2 not-prose">
+                          <span className="text-xs font-mono uppercase text-primary">{block.marker}</span>
+                          <p className="text-sm">{block.text}</p>
+                        </aside>
+                      );
+                    }
+                    return (
+                      <p key={blockIndex} className="whitespace-pre-wrap leading-relaxed">
+                        {block.text}
+                      </p>
+                    );
+                  })}
                   {index < sections.length - 1 && (
                     <Separator className="my-8" />
                   )}
                 </section>
               ))}
-              
+
               <footer className="mt-12 pt-8 border-t text-sm text-muted-foreground">
                 <p>Generated from FloatAST conversation analysis</p>
                 <p>Created with Agentic Zine Network</p>
@@ -121,42 +412,78 @@ export function ZineEditor({ floatAst, onSave }: ZineEditorProps) {
         <CardTitle className="flex items-center gap-2 font-mono">
           <FileText className="h-5 w-5" />
           Zine Editor
+          {dirty && <Badge variant="secondary" className="text-xs">unsaved</Badge>}
         </CardTitle>
         <div className="flex gap-2">
-          <Button 
-            variant="outline" 
+          <Button
+            variant="outline"
             onClick={() => setPreviewMode(true)}
             data-testid="button-preview-mode"
           >
             <Eye className="h-4 w-4 mr-2" />
             Preview
           </Button>
-          <Button onClick={handleSave} data-testid="button-save-zine">
-            <Save className="h-4 w-4 mr-2" />
-            Save
-          </Button>
+          {saveButton}
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Title Editor */}
-        <div>
-          <label className="text-sm font-medium font-mono mb-2 block">
-            Zine Title
-          </label>
-          <Input
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            className="font-mono text-lg"
-            data-testid="input-zine-title"
-          />
+        {publishingBar}
+
+        {/* Front matter */}
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium font-mono mb-2 block">
+              Zine Title
+            </label>
+            <Input
+              value={frontMatter.title}
+              onChange={(e) => updateFrontMatter({ title: e.target.value })}
+              className="font-mono text-lg"
+              data-testid="input-zine-title"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium font-mono mb-2 block">
+              Subtitle
+            </label>
+            <Input
+              value={frontMatter.subtitle ?? ""}
+              onChange={(e) => updateFrontMatter({ subtitle: e.target.value || undefined })}
+              data-testid="input-zine-subtitle"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium font-mono mb-2 block">
+              Authors
+            </label>
+            <Input
+              defaultValue={frontMatter.authors.join(", ")}
+              key={`authors-${zine?.id}`}
+              onBlur={(e) => updateFrontMatter({ authors: splitList(e.target.value) })}
+              placeholder="Comma separated"
+              data-testid="input-zine-authors"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium font-mono mb-2 block">
+              Tags
+            </label>
+            <Input
+              defaultValue={frontMatter.tags.join(", ")}
+              key={`tags-${zine?.id}`}
+              onBlur={(e) => updateFrontMatter({ tags: splitList(e.target.value) })}
+              placeholder="Comma separated"
+              data-testid="input-zine-tags"
+            />
+          </div>
         </div>
 
         {/* Sections */}
         <div>
           <div className="flex items-center justify-between mb-4">
             <label className="text-sm font-medium font-mono">Sections</label>
-            <Button 
-              size="sm" 
+            <Button
+              size="sm"
               onClick={addSection}
               data-testid="button-add-section"
             >
@@ -164,7 +491,7 @@ export function ZineEditor({ floatAst, onSave }: ZineEditorProps) {
               Add Section
             </Button>
           </div>
-          
+
           <ScrollArea className="h-[400px]">
             <div className="space-y-4 pr-4">
               {sections.map((section, index) => (
@@ -173,7 +500,7 @@ export function ZineEditor({ floatAst, onSave }: ZineEditorProps) {
                     <div className="flex items-center gap-2">
                       <Input
                         value={section.title}
-                        onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                        onChange={(e) => updateSection(section.id, current => ({ ...current, title: e.target.value }))}
                         className="font-mono font-medium"
                         placeholder="Section title"
                         data-testid={`input-section-title-${index}`}
@@ -187,18 +514,51 @@ export function ZineEditor({ floatAst, onSave }: ZineEditorProps) {
                         <Trash2 className="h-4 w-4" />
                       </Button>
                     </div>
-                    
-                    <Textarea
-                      value={section.content}
-                      onChange={(e) => updateSection(section.id, { content: e.target.value })}
-                      rows={6}
-                      className="resize-none"
-                      placeholder="Write your section content here..."
-                      data-testid={`textarea-section-content-${index}`}
-                    />
-                    
+
+                    {section.blocks.map((block, blockIndex) => (
+                      <div key={blockIndex} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary" className="text-xs font-mono">
+                            {blockLabel(block)}
+                          </Badge>
+                          {block.nodeIds.map(nodeId => (
+                            <Badge key={nodeId} variant="outline" className="text-xs">
+                              {nodeId}
+                            </Badge>
+                          ))}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="ml-auto h-6 w-6"
+                            onClick={() => removeBlock(section.id, blockIndex)}
+                            data-testid={`button-remove-block-${index}-${blockIndex}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <Textarea
+                          value={block.text}
+                          onChange={(e) => updateBlockText(section.id, blockIndex, e.target.value)}
+                          rows={block.type === "commentary" ? 4 : 3}
+                          className={`resize-none ${block.type === "commentary" ? "" : "font-mono text-sm"}`}
+                          placeholder="Write your section content here..."
+                          data-testid={`textarea-block-${index}-${blockIndex}`}
+                        />
+                      </div>
+                    ))}
+
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => addBlock(section.id)}
+                      data-testid={`button-add-block-${index}`}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Text
+                    </Button>
+
                     {section.nodeIds.length > 0 && (
-                      <div className="flex items-center gap-2">
+                      <div className="flex flex-wrap items-center gap-2">
                         <span className="text-xs text-muted-foreground font-mono">
                           Linked nodes:
                         </span>
@@ -218,4 +578,4 @@ export function ZineEditor({ floatAst, onSave }: ZineEditorProps) {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -1,7 +1,8 @@
 import { ZineEditor } from '../ZineEditor'
+import type { ZineWithDocument } from '@shared/schema'
 
 export default function ZineEditorExample() {
-  const handleSave = (zine: { title: string; sections: any[] }) => {
+  const handleSave = (zine: ZineWithDocument) => {
     console.log('Zine saved:', zine)
   }
 
@@ -10,4 +11,4 @@ export default function ZineEditorExample() {
       <ZineEditor onSave={handleSave} />
     </div>
   )
-}
\ No newline at end of file
+}
@@ -7,6 +7,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
 import { Upload, Search, Plus, FileText } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -25,10 +27,30 @@ const conversationFormSchema = insertConversationSchema.extend({
 
 type ConversationFormData = z.infer<typeof conversationFormSchema>;
 
+// Export files accepted by POST /api/import/:source. JSON exports are posted
+// as-is; text exports are wrapped as { content, filename }.
+interface ExportSource {
+  value: string;
+  label: string;
+  accept: string;
+  format: "json" | "text";
+}
+
+const EXPORT_SOURCES: ExportSource[] = [
+  { value: "chatgpt", label: "ChatGPT (conversations.json)", accept: ".json", format: "json" },
+  { value: "claude", label: "Claude (conversations.json)", accept: ".json", format: "json" },
+  { value: "gemini", label: "Gemini (Takeout My Activity)", accept: ".json,.html", format: "text" },
+  { value: "slack", label: "Slack (channel export JSON)", accept: ".json", format: "json" },
+  { value: "discord", label: "Discord (DiscordChatExporter JSON)", accept: ".json", format: "json" },
+  { value: "whatsapp", label: "WhatsApp (exported chat .txt)", accept: ".txt", format: "text" },
+  { value: "subtitles", label: "Subtitles (.vtt, .srt)", accept: ".vtt,.srt", format: "text" },
+];
+
 export default function Conversations() {
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
+  const [exportSource, setExportSource] = useState<ExportSource>(EXPORT_SOURCES[0]);
   const { toast } = useToast();
   
   // Safely get app context
@@ -90,6 +112,38 @@ export default function Conversations() {
     },
   });
 
+  // Import an export file as one conversation per chat
+  const importExportMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const text = await file.text();
+      let body: unknown;
+      try {
+        body = exportSource.format === "json" ? JSON.parse(text) : { content: text, filename: file.name };
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+      const response = await fetch(`/api/import/${exportSource.value}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) throw new Error("Failed to import export file");
+      return response.json() as Promise<{ imported: number; skipped: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/float-asts"] });
+      setUploadDialogOpen(false);
+      const skipped = data.skipped ? `, skipped ${data.skipped} already imported` : "";
+      toast({ title: "Success", description: `Imported ${data.imported} conversations${skipped}` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to import export file" });
+    },
+  });
+
   // Form for creating conversations
   const form = useForm<ConversationFormData>({
     resolver: zodResolver(conversationFormSchema),
@@ -218,6 +272,41 @@ export default function Conversations() {
                   </div>
                 </form>
               </Form>
+              <Separator />
+              <div className="space-y-3">
+                <label className="text-sm font-medium font-mono block">Or import an export file</label>
+                <div className="flex gap-2">
+                  <Select
+                    value={exportSource.value}
+                    onValueChange={(value) => setExportSource(EXPORT_SOURCES.find(s => s.value === value) || EXPORT_SOURCES[0])}
+                  >
+                    <SelectTrigger className="w-64" data-testid="select-export-source">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPORT_SOURCES.map(source => (
+                        <SelectItem key={source.value} value={source.value}>
+                          {source.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="file"
+                    accept={exportSource.accept}
+                    disabled={importExportMutation.isPending}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importExportMutation.mutate(file);
+                      e.target.value = "";
+                    }}
+                    data-testid="input-export-file"
+                  />
+                </div>
+                {importExportMutation.isPending && (
+                  <p className="text-xs text-muted-foreground font-mono">Importing...</p>
+                )}
+              </div>
             </DialogContent>
           </Dialog>
         </div>
@@ -1,18 +1,56 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { ThreadBuilder } from "@/components/ThreadBuilder";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAppContext } from "@/App";
+import type { Conversation, Thread } from "@shared/schema";
 
 export default function Threads() {
-  const handleThreadsChange = (threads: any[]) => {
+  // Safely get app context
+  let currentFloatAstId: string | undefined;
+  try {
+    currentFloatAstId = useAppContext().currentFloatAstId;
+  } catch (error) {
+    currentFloatAstId = undefined;
+  }
+
+  const { data: conversations = [] } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+  });
+  const parsedConversations = conversations.filter(conversation => conversation.floatAstId);
+
+  // Defaults to the FloatAST open elsewhere in the app, else the first parsed one
+  const [selectedFloatAstId, setSelectedFloatAstId] = useState<string | undefined>();
+  const floatAstId = selectedFloatAstId || currentFloatAstId || parsedConversations[0]?.floatAstId || undefined;
+
+  const handleThreadsChange = (threads: Thread[]) => {
     console.log("Threads updated:", threads);
   };
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-mono font-bold">Thread Builder</h1>
-        <p className="text-muted-foreground">
-          Organize FloatAST nodes into cohesive thematic threads
-        </p>
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-mono font-bold">Thread Builder</h1>
+          <p className="text-muted-foreground">
+            Organize FloatAST nodes into cohesive thematic threads
+          </p>
+        </div>
+        {parsedConversations.length > 0 && (
+          <Select value={floatAstId} onValueChange={setSelectedFloatAstId}>
+            <SelectTrigger className="w-64" data-testid="select-thread-conversation">
+              <SelectValue placeholder="Choose a conversation" />
+            </SelectTrigger>
+            <SelectContent>
+              {parsedConversations.map(conversation => (
+                <SelectItem key={conversation.id} value={conversation.floatAstId!}>
+                  {conversation.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       <Card>
@@ -20,9 +58,9 @@ export default function Threads() {
           <CardTitle className="font-mono">Thread Organization</CardTitle>
         </CardHeader>
         <CardContent className="p-0">
-          <ThreadBuilder onThreadsChange={handleThreadsChange} />
+          <ThreadBuilder floatAstId={floatAstId} onThreadsChange={handleThreadsChange} />
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,18 +1,107 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { ZineEditor } from "@/components/ZineEditor";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Zine, ZineWithDocument } from "@shared/schema";
 
 export default function Zines() {
-  const handleSave = (zine: { title: string; sections: any[] }) => {
-    console.log("Zine saved:", zine);
-  };
+  const { toast } = useToast();
+  const { data: zines = [] } = useQuery<Zine[]>({
+    queryKey: ["/api/zines"],
+  });
+
+  // Defaults to the newest zine, which is where /render lands
+  const [selectedZineId, setSelectedZineId] = useState<string | undefined>();
+  const zineId = zines.some(zine => zine.id === selectedZineId)
+    ? selectedZineId
+    : zines[zines.length - 1]?.id;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/zines", { title: "Untitled Zine" });
+      return response.json() as Promise<ZineWithDocument>;
+    },
+    onSuccess: (zine) => {
+      queryClient.setQueryData(["/api/zines", zine.id], zine);
+      queryClient.invalidateQueries({ queryKey: ["/api/zines"], exact: true });
+      setSelectedZineId(zine.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create zine",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/zines/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: ["/api/zines", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/zines"], exact: true });
+      setSelectedZineId(undefined);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete zine",
+      });
+    },
+  });
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-mono font-bold">Zine Editor</h1>
-        <p className="text-muted-foreground">
-          Transform threads into polished publications
-        </p>
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-mono font-bold">Zine Editor</h1>
+          <p className="text-muted-foreground">
+            Transform threads into polished publications
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {zines.length > 0 && (
+            <Select value={zineId} onValueChange={setSelectedZineId}>
+              <SelectTrigger className="w-64" data-testid="select-zine">
+                <SelectValue placeholder="Choose a zine" />
+              </SelectTrigger>
+              <SelectContent>
+                {zines.map(zine => (
+                  <SelectItem key={zine.id} value={zine.id}>
+                    {zine.title}
+                    <span className="ml-2 text-xs text-muted-foreground font-mono">{zine.status}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+            data-testid="button-new-zine"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Zine
+          </Button>
+          {zineId && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => deleteMutation.mutate(zineId)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-zine"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
       </div>
 
       <Card>
@@ -20,9 +109,9 @@ export default function Zines() {
           <CardTitle className="font-mono">Publication Editor</CardTitle>
         </CardHeader>
         <CardContent className="p-0">
-          <ZineEditor onSave={handleSave} />
+          <ZineEditor key={zineId} zineId={zineId} />
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
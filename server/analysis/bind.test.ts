@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { FloatAST, Fragment } from "@shared/schema";
+import { bindFragments } from "./bind";
+
+function fragment(id: string, nodeId: string, text: string, keywords: string[] = []): Fragment {
+  return {
+    id,
+    floatAstId: "ast-1",
+    nodeId,
+    start: 0,
+    end: text.length,
+    text,
+    relevance: "",
+    keywords,
+    category: "General",
+    query: null,
+    extractedBy: "keyword",
+    status: "pending",
+    createdAt: null,
+    modifiedAt: null,
+    userId: null,
+  };
+}
+
+function floatAst(extra: Partial<FloatAST> = {}): FloatAST {
+  return {
+    id: "ast-1",
+    version: "1.0",
+    type: "conversation",
+    temporal: { created: "2025-09-12T10:00:00.000Z" },
+    metadata: { source: "local" },
+    nodes: ["n0", "n1", "n2", "n3"].map((id, index) => ({ id, type: "message", content: { raw: "" }, position: { index, depth: 0 } })),
+    concepts: {},
+    patterns: { float_dispatches: 0, ritual_invocations: 0, bridge_creates: 0, persona_switches: 0 },
+    edges: [],
+    transforms: { preferred_output: "zine", depth_level: 2 },
+    ...extra,
+  };
+}
+
+describe("bindFragments", () => {
+  it("groups fragments that share keywords and concepts, in conversation order", () => {
+    const ast = floatAst({
+      concepts: { saddle_stitch: { title: "Saddle stitch", appearances: [], references: [], weight: 1 } },
+    });
+    const result = bindFragments(ast, [
+      fragment("f3", "n3", "A saddle stitch needs a long stapler"),
+      fragment("f1", "n1", "Saddle stitch the zine with two staples"),
+      fragment("f2", "n2", "Risograph ink smudges on glossy paper"),
+      fragment("f0", "n0", "Use a long stapler for the saddle stitch"),
+    ]);
+
+    expect(result.threads).toEqual([{
+      title: "Saddle stitch",
+      weight: 0.63,
+      fragmentIds: ["f0", "f1", "f3"],
+      nodeIds: ["n0", "n1", "n3"],
+      keywords: ["saddle", "stitch", "long", "stapler"],
+      concepts: ["saddle_stitch"],
+    }]);
+    expect(result.unbound).toEqual(["f2"]);
+  });
+
+  it("lets an edge between nodes pull fragments together and titles them by keyword", () => {
+    const ast = floatAst({ edges: [{ id: "e", source: "n1", target: "n0", type: "responds_to", weight: 1 }] });
+    const result = bindFragments(ast, [
+      fragment("a", "n0", "Which paper?"),
+      fragment("b", "n1", "Matte cardstock", ["Paper"]),
+      fragment("c", "n2", "Unrelated toner"),
+    ]);
+
+    expect(result.threads.map(thread => [thread.title, thread.fragmentIds])).toEqual([["Paper", ["a", "b"]]]);
+    expect(result.unbound).toEqual(["c"]);
+  });
+
+  it("leaves fragments with nothing in common unbound", () => {
+    expect(bindFragments(floatAst(), [
+      fragment("a", "n0", "Matte cardstock"),
+      fragment("b", "n2", "Risograph toner"),
+    ])).toEqual({ threads: [], unbound: ["a", "b"] });
+    expect(bindFragments(floatAst(), [])).toEqual({ threads: [], unbound: [] });
+  });
+});
@@ -0,0 +1,167 @@
+import type { FloatAST, Fragment } from "@shared/schema";
+import { keywordOverlap, keywords, tokenize } from "./keywords";
+
+// Share of the pairwise affinity from each signal
+const KEYWORD_WEIGHT = 0.4;
+const CONCEPT_WEIGHT = 0.3;
+const EDGE_WEIGHT = 0.3;
+// Clusters merge while their average affinity stays at or above this
+const MIN_AFFINITY = 0.2;
+const MAX_THREAD_KEYWORDS = 5;
+
+export interface BoundThread {
+  title: string;
+  // 0-1: cohesion of the members, plus a little for size
+  weight: number;
+  // Conversation order
+  fragmentIds: string[];
+  nodeIds: string[];
+  keywords: string[];
+  concepts: string[];
+}
+
+export interface BindResult {
+  threads: BoundThread[];
+  // Fragments that didn't join any thread
+  unbound: string[];
+}
+
+interface Member {
+  fragment: Fragment;
+  terms: Set<string>;
+  concepts: Set<string>;
+  position: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = Array.from(a).filter(item => b.has(item)).length;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+// Strongest edge between two nodes in either direction; the same node
+// counts as fully connected
+function edgeStrengths(floatAst: FloatAST): (a: string, b: string) => number {
+  const strengths = new Map<string, number>();
+  for (const edge of floatAst.edges || []) {
+    for (const key of [`${edge.source}|${edge.target}`, `${edge.target}|${edge.source}`]) {
+      strengths.set(key, Math.max(strengths.get(key) || 0, edge.weight ?? 0.5));
+    }
+  }
+  return (a, b) => (a === b ? 1 : strengths.get(`${a}|${b}`) || 0);
+}
+
+function describe(floatAst: FloatAST, fragment: Fragment): Member {
+  const terms = keywords(`${fragment.text} ${fragment.keywords.join(" ")}`);
+  // A concept is present when every word of its title is
+  const concepts = new Set(
+    Object.entries(floatAst.concepts || {})
+      .filter(([, concept]) => {
+        const conceptTerms = tokenize(concept.title);
+        return conceptTerms.length > 0 && conceptTerms.every(term => terms.has(term));
+      })
+      .map(([key]) => key),
+  );
+  const node = floatAst.nodes.find(n => n.id === fragment.nodeId);
+  return { fragment, terms, concepts, position: node?.position.index ?? Number.MAX_SAFE_INTEGER };
+}
+
+function mostCommon(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value]) => value);
+}
+
+// The concept most members share (the heavier one on a tie), else the
+// keyword they repeat most
+function titleOf(floatAst: FloatAST, members: Member[]): string {
+  const conceptCounts = new Map<string, number>();
+  for (const key of members.flatMap(member => Array.from(member.concepts))) {
+    conceptCounts.set(key, (conceptCounts.get(key) || 0) + 1);
+  }
+  const [concept] = Array.from(conceptCounts.entries())
+    .sort((a, b) => b[1] - a[1] || floatAst.concepts[b[0]].weight - floatAst.concepts[a[0]].weight)
+    .map(([key]) => key);
+  if (concept) return floatAst.concepts[concept].title;
+
+  const [keyword] = mostCommon(members.flatMap(member => member.fragment.keywords.map(k => k.trim()).filter(Boolean)));
+  if (keyword) return keyword;
+
+  return mostCommon(members.flatMap(member => Array.from(member.terms))).slice(0, 2).join(" / ") || "Untitled thread";
+}
+
+// Groups fragments of one FloatAST into candidate threads by average-linkage
+// clustering. Affinity between two fragments mixes keyword overlap, shared
+// concepts and the edges between their nodes; no model is involved.
+export function bindFragments(floatAst: FloatAST, fragments: Fragment[]): BindResult {
+  const members = fragments.map(fragment => describe(floatAst, fragment));
+  const edgeStrength = edgeStrengths(floatAst);
+
+  const affinity = members.map(a => members.map(b =>
+    a === b ? 1 :
+    KEYWORD_WEIGHT * keywordOverlap(a.terms, b.terms).similarity +
+    CONCEPT_WEIGHT * jaccard(a.concepts, b.concepts) +
+    EDGE_WEIGHT * edgeStrength(a.fragment.nodeId, b.fragment.nodeId),
+  ));
+
+  const average = (x: number[], y: number[]) =>
+    x.reduce((sum, i) => sum + y.reduce((inner, j) => inner + affinity[i][j], 0), 0) / (x.length * y.length);
+
+  let clusters = members.map((_, index) => [index]);
+  while (clusters.length > 1) {
+    let best = { score: MIN_AFFINITY, i: -1, j: -1 };
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const score = average(clusters[i], clusters[j]);
+        if (score >= best.score) best = { score, i, j };
+      }
+    }
+    if (best.i < 0) break;
+    clusters = [
+      ...clusters.filter((_, index) => index !== best.i && index !== best.j),
+      [...clusters[best.i], ...clusters[best.j]],
+    ];
+  }
+
+  const grouped = clusters.filter(cluster => cluster.length > 1);
+  const largest = Math.max(0, ...grouped.map(cluster => cluster.length));
+
+  const threads = grouped.map(cluster => {
+    const inOrder = cluster
+      .map(index => members[index])
+      .sort((a, b) => a.position - b.position || a.fragment.start - b.fragment.start);
+
+    let pairs = 0;
+    let total = 0;
+    for (let i = 0; i < cluster.length; i++) {
+      for (let j = i + 1; j < cluster.length; j++) {
+        total += affinity[cluster[i]][cluster[j]];
+        pairs++;
+      }
+    }
+    const cohesion = Math.min(1, total / pairs);
+
+    // Terms and concepts carried by at least two members
+    const shared = (values: string[]) => mostCommon(values).filter(value => values.filter(v => v === value).length > 1);
+
+    return {
+      title: titleOf(floatAst, inOrder),
+      weight: round(0.7 * cohesion + 0.3 * (cluster.length / largest)),
+      fragmentIds: inOrder.map(member => member.fragment.id),
+      nodeIds: Array.from(new Set(inOrder.map(member => member.fragment.nodeId))),
+      keywords: shared(inOrder.flatMap(member => Array.from(member.terms))).slice(0, MAX_THREAD_KEYWORDS),
+      concepts: shared(inOrder.flatMap(member => Array.from(member.concepts))),
+    };
+  });
+
+  return {
+    threads: threads.sort((a, b) => b.weight - a.weight || a.title.localeCompare(b.title)),
+    unbound: clusters.filter(cluster => cluster.length === 1).map(([index]) => members[index].fragment.id),
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { FloatNode } from "@shared/schema";
+import { extractConcepts } from "./concepts";
+
+function node(index: number, text: string, extra: Partial<FloatNode> = {}): FloatNode {
+  return { id: `n${index}`, type: "message", content: { raw: text }, position: { index, depth: 0 }, ...extra };
+}
+
+const conversation = [
+  node(0, "Risograph printing is cheap. Risograph printing needs stencils."),
+  node(1, "Stencils wear out, but risograph printing scales."),
+  node(2, "The paper stock matters. Paper stock for risograph printing is thick."),
+  node(3, "Run `risograph printing` and ```\nstencils\n``` now, paper stock"),
+  node(4, "Stencils and risograph printing", { type: "artifact" }),
+];
+
+describe("extractConcepts", () => {
+  it("ranks repeated phrases and keeps their most common spelling", () => {
+    const concepts = extractConcepts(conversation);
+
+    expect(Object.keys(concepts)).toEqual(["risograph_printing", "paper_stock", "stencils"]);
+    expect(concepts.risograph_printing).toMatchObject({ title: "Risograph printing", weight: 1 });
+    expect(concepts.stencils.weight).toBeLessThan(concepts.paper_stock.weight);
+  });
+
+  it("points appearances at the turns that mention a concept, outside code", () => {
+    const { risograph_printing } = extractConcepts(conversation);
+
+    expect(risograph_printing.appearances).toEqual([
+      { node_id: "n0", chunk: "Risograph printing", context: "Risograph printing is cheap. Risograph printing needs stencils.", strength: 1 },
+      { node_id: "n1", chunk: "risograph printing", context: "Stencils wear out, but risograph printing scales.", strength: 0.5 },
+      { node_id: "n2", chunk: "risograph printing", context: "The paper stock matters. Paper stock for risograph printing is thick.", strength: 0.5 },
+    ]);
+  });
+
+  it("references co-occurring concepts by their overlap", () => {
+    const { risograph_printing } = extractConcepts(conversation);
+
+    expect(risograph_printing.references.map(reference => [reference.concept, reference.node_id, reference.strength])).toEqual([
+      ["stencils", "n0", 0.67],
+      ["paper_stock", "n2", 0.25],
+    ]);
+  });
+
+  it("needs a repeat in longer conversations and skips generic words", () => {
+    expect(Object.keys(extractConcepts([node(0, "Zine layouts"), node(1, "Saddle stitch")]))).toEqual(["saddle_stitch", "zine_layouts"]);
+    expect(Object.keys(extractConcepts([node(0, "Zine layouts"), node(1, "Saddle stitch"), node(2, "Kettle stitch")]))).toEqual(["stitch"]);
+    expect(extractConcepts([node(0, "Good idea, thank you")])).toEqual({});
+  });
+
+  it("trims the context around a mention", () => {
+    const text = `${"a".repeat(80)}. stapler jam. ${"b".repeat(80)}`;
+    const { stapler_jam } = extractConcepts([node(0, text)]);
+
+    expect(stapler_jam.appearances[0].context).toBe(`...${"a".repeat(58)}. stapler jam. ${"b".repeat(58)}...`);
+  });
+});
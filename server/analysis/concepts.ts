@@ -0,0 +1,201 @@
+import type { Concept, FloatNode, NodeReference } from "@shared/schema";
+import { maskCode, wordTokens, type WordToken } from "./keywords";
+import { conversationTurns } from "./turns";
+
+const MAX_CONCEPTS = 12;
+const MAX_PHRASE_WORDS = 3;
+const MAX_RELATED = 5;
+const CONTEXT_CHARS = 60;
+
+// Frequent in any conversation but never a theme on their own
+const GENERIC_TERMS = new Set([
+  "able", "actually", "anything", "better", "big", "bit", "different", "everything", "first", "going", "good",
+  "great", "help", "idea", "kind", "know", "last", "little", "look", "lot", "many", "maybe", "mean", "need", "new",
+  "okay", "perhaps", "pretty", "probably", "question", "right", "see", "small", "something", "sort", "sure",
+  "thank", "time", "try", "work", "yeah",
+]);
+
+interface Occurrence {
+  turn: number;
+  start: number;
+  end: number;
+}
+
+interface Candidate {
+  terms: string[];
+  occurrences: Occurrence[];
+  score: number;
+}
+
+// Runs of content words with nothing but spaces or hyphens between them;
+// stopwords, punctuation and line breaks end a run (RAKE's phrase delimiters)
+function contentRuns(text: string): WordToken[][] {
+  const runs: WordToken[][] = [];
+  let run: WordToken[] = [];
+  let previous: WordToken | undefined;
+
+  for (const token of wordTokens(text)) {
+    const joined = previous && /^[ \t-]+$/.test(text.slice(previous.end, token.start));
+    if (!token.term || GENERIC_TERMS.has(token.term) || !joined) {
+      if (run.length > 0) runs.push(run);
+      run = [];
+    }
+    if (token.term && !GENERIC_TERMS.has(token.term)) run.push(token);
+    previous = token;
+  }
+  if (run.length > 0) runs.push(run);
+  return runs;
+}
+
+function collectCandidates(texts: string[]): Map<string, Candidate> {
+  const candidates = new Map<string, Candidate>();
+  // RAKE word scores: degree (co-occurring words in a run) over frequency
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+
+  texts.forEach((text, turn) => {
+    for (const run of contentRuns(text)) {
+      for (const token of run) {
+        frequency.set(token.term!, (frequency.get(token.term!) || 0) + 1);
+        degree.set(token.term!, (degree.get(token.term!) || 0) + Math.min(run.length, MAX_PHRASE_WORDS));
+      }
+
+      for (let size = 1; size <= Math.min(MAX_PHRASE_WORDS, run.length); size++) {
+        for (let i = 0; i + size <= run.length; i++) {
+          const words = run.slice(i, i + size);
+          const terms = words.map(word => word.term!);
+          const key = terms.join(" ");
+          if (!candidates.has(key)) candidates.set(key, { terms, occurrences: [], score: 0 });
+          candidates.get(key)!.occurrences.push({ turn, start: words[0].start, end: words[words.length - 1].end });
+        }
+      }
+    }
+  });
+
+  // score = RAKE phrase score x term frequency x smoothed inverse turn frequency
+  for (const candidate of Array.from(candidates.values())) {
+    const rake = candidate.terms.reduce((sum, term) => sum + degree.get(term)! / frequency.get(term)!, 0);
+    const turnsWith = new Set(candidate.occurrences.map(occurrence => occurrence.turn)).size;
+    const idf = Math.log((texts.length + 1) / turnsWith) + 1;
+    candidate.score = rake * candidate.occurrences.length * idf;
+  }
+  return candidates;
+}
+
+function contains(outer: Occurrence, inner: Occurrence): boolean {
+  return outer.turn === inner.turn && outer.start <= inner.start && inner.end <= outer.end;
+}
+
+function excerpt(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - CONTEXT_CHARS);
+  const to = Math.min(text.length, end + CONTEXT_CHARS);
+  const body = text.slice(from, to).replace(/\s+/g, " ").trim();
+  return `${from > 0 ? "..." : ""}${body}${to < text.length ? "..." : ""}`;
+}
+
+// The spelling used most often, e.g. "FloatAST" rather than "floatast"
+function titleOf(candidate: Candidate, texts: string[]): string {
+  const spellings = new Map<string, number>();
+  for (const { turn, start, end } of candidate.occurrences) {
+    const spelling = texts[turn].slice(start, end).replace(/\s+/g, " ");
+    spellings.set(spelling, (spellings.get(spelling) || 0) + 1);
+  }
+  return Array.from(spellings.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9\u00df-\u024f]+/g, "_").replace(/^_|_$/g, "");
+}
+
+// Keyphrase extraction over the conversation turns, RAKE candidates ranked
+// by TF-IDF. Appearances point at each node mentioning the concept;
+// references point at mentions of concepts that share nodes with it.
+export function extractConcepts(nodes: FloatNode[]): Record<string, Concept> {
+  const turns = conversationTurns(nodes);
+  if (turns.length === 0) return {};
+
+  const texts = turns.map(node => maskCode(node.content.raw));
+  const raw = turns.map(node => node.content.raw);
+  const minOccurrences = turns.length > 2 ? 2 : 1;
+
+  const ranked = Array.from(collectCandidates(texts).entries())
+    .filter(([, candidate]) => candidate.occurrences.length >= minOccurrences)
+    .sort((a, b) => b[1].score - a[1].score || a[0].localeCompare(b[0]));
+
+  // Skip phrases that only occur inside an already chosen longer phrase
+  const selected: Candidate[] = [];
+  const chosenIn = new Map<number, Occurrence[]>();
+  for (const [, candidate] of ranked) {
+    if (selected.length >= MAX_CONCEPTS) break;
+    const free = candidate.occurrences.filter(occurrence =>
+      !(chosenIn.get(occurrence.turn) || []).some(outer => contains(outer, occurrence)),
+    );
+    if (free.length < minOccurrences) continue;
+    selected.push(candidate);
+    for (const occurrence of candidate.occurrences) {
+      chosenIn.set(occurrence.turn, [...(chosenIn.get(occurrence.turn) || []), occurrence]);
+    }
+  }
+  if (selected.length === 0) return {};
+
+  const maxScore = selected[0].score;
+  const keys = new Map<Candidate, string>();
+  const turnsOf = new Map<Candidate, Map<number, Occurrence[]>>();
+  for (const candidate of selected) {
+    let key = slugify(titleOf(candidate, raw)) || candidate.terms.join("_");
+    while (Array.from(keys.values()).includes(key)) key += "_";
+    keys.set(candidate, key);
+
+    const byTurn = new Map<number, Occurrence[]>();
+    for (const occurrence of candidate.occurrences) {
+      byTurn.set(occurrence.turn, [...(byTurn.get(occurrence.turn) || []), occurrence]);
+    }
+    turnsOf.set(candidate, byTurn);
+  }
+
+  const mention = (candidate: Candidate, turn: number): NodeReference => {
+    const [first] = turnsOf.get(candidate)!.get(turn)!;
+    return {
+      node_id: turns[turn].id,
+      chunk: raw[turn].slice(first.start, first.end),
+      context: excerpt(raw[turn], first.start, first.end),
+    };
+  };
+
+  const concepts: Record<string, Concept> = {};
+  for (const candidate of selected) {
+    const byTurn = turnsOf.get(candidate)!;
+    const mostInOneTurn = Math.max(...Array.from(byTurn.values()).map(list => list.length));
+
+    const appearances = Array.from(byTurn.entries()).map(([turn, list]) => ({
+      ...mention(candidate, turn),
+      strength: Math.round((list.length / mostInOneTurn) * 100) / 100,
+    }));
+
+    // Co-occurring concepts, strongest first: Jaccard overlap of their turns
+    const references = selected
+      .filter(other => other !== candidate)
+      .map(other => {
+        const otherTurns = turnsOf.get(other)!;
+        const shared = Array.from(byTurn.keys()).filter(turn => otherTurns.has(turn));
+        const union = byTurn.size + otherTurns.size - shared.length;
+        return { other, shared, strength: shared.length / union };
+      })
+      .filter(({ shared }) => shared.length > 0)
+      .sort((a, b) => b.strength - a.strength || keys.get(a.other)!.localeCompare(keys.get(b.other)!))
+      .slice(0, MAX_RELATED)
+      .map(({ other, shared, strength }) => ({
+        ...mention(other, shared[0]),
+        concept: keys.get(other)!,
+        strength: Math.round(strength * 100) / 100,
+      }));
+
+    concepts[keys.get(candidate)!] = {
+      title: titleOf(candidate, raw),
+      appearances,
+      references,
+      weight: Math.round((candidate.score / maxScore) * 100) / 100,
+    };
+  }
+  return concepts;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { FloatEdge, FloatNode } from "@shared/schema";
+import { generateEdges } from "./edges";
+
+function node(index: number, author: string, text: string, extra: Partial<FloatNode> = {}): FloatNode {
+  return {
+    id: `n${index}`,
+    type: "message",
+    author,
+    content: { raw: text, processed: text },
+    position: { index, depth: 0 },
+    ...extra,
+  };
+}
+
+function summary(edges: FloatEdge[]) {
+  return edges.map(edge => `${edge.type} ${edge.source}->${edge.target}`);
+}
+
+describe("generateEdges", () => {
+  it("links each turn to the one before, as a reply or a continuation", () => {
+    const edges = generateEdges([
+      node(0, "User", "Sketch a zine layout"),
+      node(1, "Assistant", "Here is a layout"),
+      node(2, "Assistant", "And a second option"),
+    ]);
+
+    expect(summary(edges)).toEqual(["responds_to n1->n0", "elaborates n2->n1"]);
+    expect(edges[0]).toMatchObject({ id: "edge-responds_to-n1-n0", metadata: { reason: "adjacent turn", distance: 1 } });
+    expect(edges[1].metadata).toMatchObject({ reason: "same author continues", author: "Assistant" });
+  });
+
+  it("follows an explicit reply parent with full weight", () => {
+    const edges = generateEdges([
+      node(0, "Ana", "Print run budget"),
+      node(1, "Ben", "Cover colours"),
+      node(2, "Cy", "Agreed", { position: { index: 2, depth: 0, parent: "n0" } }),
+    ]);
+    const reply = edges.find(edge => edge.source === "n2" && edge.type === "responds_to");
+    expect(reply).toMatchObject({ target: "n0", weight: 1, metadata: { reason: "explicit reply", distance: 2 } });
+  });
+
+  it("references earlier turns only with two shared keywords and enough similarity", () => {
+    const edges = generateEdges([
+      node(0, "User", "Risograph printing costs for the zine"),
+      node(1, "Assistant", "Staples work fine"),
+      node(2, "User", "Unrelated weather chat"),
+      node(3, "Assistant", "Risograph printing costs drop with volume"),
+      node(4, "User", "Printing on recycled paper, maybe with lots of extra detail words here"),
+    ]);
+
+    const references = edges.filter(edge => edge.type === "references");
+    expect(summary(references)).toEqual(["references n3->n0"]);
+    expect(references[0].metadata).toMatchObject({ reason: "shared keywords", shared_keywords: ["cost", "printing", "risograph"] });
+  });
+
+  it("keeps at most three references per turn, most similar first", () => {
+    const edges = generateEdges([
+      node(0, "A", "alpha beta gamma"),
+      node(1, "B", "alpha beta delta"),
+      node(2, "A", "alpha beta epsilon"),
+      node(3, "B", "alpha beta gamma zeta"),
+      node(4, "A", "unrelated"),
+      node(5, "B", "alpha beta gamma"),
+    ]);
+    const references = edges.filter(edge => edge.type === "references" && edge.source === "n5");
+    expect(references.map(edge => edge.target)).toEqual(["n0", "n3", "n2"]);
+  });
+
+  it("aims questions at the turn they share most with, ignoring code", () => {
+    const edges = generateEdges([
+      node(0, "User", "Binding options for the booklet"),
+      node(1, "Assistant", "Let me check"),
+      node(2, "User", "Is saddle stitch binding fine for a booklet?"),
+      node(3, "Assistant", "```\nwhy?\n```\nDone"),
+      node(4, "User", "Anything else?"),
+    ]);
+
+    const questions = edges.filter(edge => edge.type === "questions");
+    expect(summary(questions)).toEqual(["questions n2->n0", "questions n4->n3"]);
+    expect(questions[0].metadata).toMatchObject({ reason: "question shares keywords", question: "Is saddle stitch binding fine for a booklet?" });
+    expect(questions[1]).toMatchObject({ weight: 0.5, metadata: { reason: "question follows turn" } });
+  });
+
+  it("leaves artifacts and alternate branches out of the exchange", () => {
+    const edges = generateEdges([
+      node(0, "User", "Write it"),
+      node(1, "Assistant", "plan.md", { type: "artifact" }),
+      node(2, "Assistant", "Another take", { position: { index: 2, depth: 1 } }),
+      node(3, "Assistant", "Written"),
+    ]);
+    expect(summary(edges)).toEqual(["responds_to n3->n0"]);
+  });
+});
@@ -0,0 +1,108 @@
+import type { FloatEdge, FloatNode } from "@shared/schema";
+import { keywordOverlap, keywords, nodeText, withoutCode } from "./keywords";
+import { conversationTurns } from "./turns";
+
+// A references edge needs this much in common with an earlier turn
+const MIN_SHARED_KEYWORDS = 2;
+const MIN_REFERENCE_SIMILARITY = 0.1;
+const MAX_REFERENCES_PER_NODE = 3;
+// How many earlier turns are compared, keeping long chats linear
+const LOOKBACK = 100;
+
+const QUESTION = /[^.!?\n]*\?(?=\s|$)/;
+
+type Overlap = ReturnType<typeof keywordOverlap>;
+
+function round(weight: number): number {
+  return Math.round(Math.min(1, weight) * 100) / 100;
+}
+
+// Ids are derived from the endpoints so regenerating edges is stable
+function edge(
+  type: FloatEdge["type"],
+  source: FloatNode,
+  target: FloatNode,
+  weight: number,
+  metadata: Record<string, unknown>,
+): FloatEdge {
+  return {
+    id: `edge-${type}-${source.id}-${target.id}`,
+    type,
+    source: source.id,
+    target: target.id,
+    weight: round(weight),
+    metadata,
+  };
+}
+
+// Edges point from the later node (source) back to the earlier one (target).
+// Weights are 0-1 and metadata.reason says why the edge exists.
+export function generateEdges(nodes: FloatNode[]): FloatEdge[] {
+  const turns = conversationTurns(nodes);
+  const turnIndex = new Map(turns.map((node, index) => [node.id, index]));
+  const terms = turns.map(node => keywords(nodeText(node)));
+  const edges: FloatEdge[] = [];
+
+  turns.forEach((node, i) => {
+    if (i === 0) return;
+
+    // responds_to / elaborates: the explicit reply parent, else the turn before
+    const parentIndex = node.position.parent ? turnIndex.get(node.position.parent) : undefined;
+    const previousIndex = parentIndex ?? i - 1;
+    const previous = turns[previousIndex];
+    const previousOverlap = keywordOverlap(terms[i], terms[previousIndex]);
+
+    if (node.author && node.author === previous.author) {
+      edges.push(edge("elaborates", node, previous, 0.5 + previousOverlap.similarity / 2, {
+        reason: "same author continues",
+        author: node.author,
+        shared_keywords: previousOverlap.shared.slice(0, 5),
+      }));
+    } else {
+      edges.push(edge("responds_to", node, previous, parentIndex !== undefined ? 1 : 0.6 + previousOverlap.similarity * 0.4, {
+        reason: parentIndex !== undefined ? "explicit reply" : "adjacent turn",
+        distance: i - previousIndex,
+      }));
+    }
+
+    // references: earlier turns sharing enough keywords
+    const candidates: { index: number; overlap: Overlap }[] = [];
+    for (let j = Math.max(0, i - LOOKBACK); j < i; j++) {
+      const overlap = j === previousIndex ? previousOverlap : keywordOverlap(terms[i], terms[j]);
+      candidates.push({ index: j, overlap });
+    }
+    const ranked = candidates
+      .filter(({ overlap }) => overlap.shared.length > 0)
+      .sort((a, b) => b.overlap.similarity - a.overlap.similarity || b.index - a.index);
+
+    ranked
+      .filter(({ index, overlap }) =>
+        index !== previousIndex &&
+        overlap.shared.length >= MIN_SHARED_KEYWORDS &&
+        overlap.similarity >= MIN_REFERENCE_SIMILARITY,
+      )
+      .slice(0, MAX_REFERENCES_PER_NODE)
+      .forEach(({ index, overlap }) => {
+        edges.push(edge("references", node, turns[index], overlap.similarity, {
+          reason: "shared keywords",
+          shared_keywords: overlap.shared.slice(0, 10),
+          similarity: round(overlap.similarity),
+        }));
+      });
+
+    // questions: a question aimed at the earlier turn it has most in common
+    // with, or at the turn it follows
+    const question = withoutCode(nodeText(node)).match(QUESTION)?.[0].trim();
+    if (question) {
+      const best = ranked[0];
+      const target = best ? turns[best.index] : previous;
+      edges.push(edge("questions", node, target, best ? 0.5 + best.overlap.similarity / 2 : 0.5, {
+        reason: best ? "question shares keywords" : "question follows turn",
+        question: question.length > 120 ? `${question.slice(0, 117)}...` : question,
+        ...(best ? { shared_keywords: best.overlap.shared.slice(0, 5) } : {}),
+      }));
+    }
+  });
+
+  return edges;
+}
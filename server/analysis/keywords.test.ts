@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { keywordOverlap, keywords, maskCode, tokenize, wordTokens } from "./keywords";
+
+describe("tokenize", () => {
+  it("drops stopwords and short words and folds plurals", () => {
+    expect(tokenize("The Zines and the stories, it is our library's class")).toEqual(["zine", "story", "library", "class"]);
+    expect(tokenize("Caf\u00e9 cr\u00e8me")).toEqual(["caf\u00e9", "cr\u00e8me"]);
+  });
+});
+
+describe("keywordOverlap", () => {
+  it("gives the sorted shared keywords and their Jaccard similarity", () => {
+    expect(keywordOverlap(keywords("print zines cheaply"), keywords("zine print shop"))).toEqual({
+      shared: ["print", "zine"],
+      similarity: 0.5,
+    });
+    expect(keywordOverlap(new Set(), new Set())).toEqual({ shared: [], similarity: 0 });
+  });
+});
+
+describe("wordTokens", () => {
+  it("keeps every word's offsets and stems only content words", () => {
+    expect(wordTokens("The Zines, re-bound")).toEqual([
+      { term: null, start: 0, end: 3 },
+      { term: "zine", start: 4, end: 9 },
+      { term: "re-bound", start: 11, end: 19 },
+    ]);
+  });
+});
+
+describe("maskCode", () => {
+  it("blanks code out without moving the rest of the text", () => {
+    expect(maskCode("a `b` c\n```\nd\n```")).toBe("a     c\n   \n \n   ");
+  });
+});
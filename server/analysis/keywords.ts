@@ -0,0 +1,83 @@
+import type { FloatNode } from "@shared/schema";
+
+// Function words that carry no topic on their own
+const STOPWORDS = new Set([
+  "a", "about", "above", "after", "again", "against", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "below", "between", "both", "but", "by", "can", "could", "did",
+  "do", "does", "doing", "don't", "down", "during", "each", "even", "few", "for", "from", "further", "get",
+  "got", "had", "has", "have", "having", "he", "her", "here", "hers", "him", "his", "how", "i", "i'm", "if",
+  "in", "into", "is", "it", "it's", "its", "just", "let's", "like", "make", "me", "might", "more", "most",
+  "much", "must", "my", "no", "nor", "not", "now", "of", "off", "on", "once", "one", "only", "or", "other",
+  "our", "ours", "out", "over", "own", "really", "same", "say", "she", "should", "so", "some", "still", "such",
+  "than", "that", "that's", "the", "their", "them", "then", "there", "these", "they", "thing", "things",
+  "think", "this", "those", "through", "to", "too", "under", "until", "up", "us", "use", "very", "want", "was",
+  "way", "we", "we're", "well", "were", "what", "when", "where", "which", "while", "who", "whom", "why",
+  "will", "with", "would", "yeah", "yes", "you", "you're", "your", "yours",
+]);
+
+// Latin letters including accented ones; matched after lowercasing
+const WORD = /[a-z\u00df-\u024f][a-z0-9\u00df-\u024f'-]*[a-z0-9\u00df-\u024f]|[a-z\u00df-\u024f]/g;
+
+// Fold simple English plurals so "zines" and "zine" count as one keyword
+function stem(word: string): string {
+  if (word.endsWith("'s")) word = word.slice(0, -2);
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 3 && word.endsWith("s") && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+export interface WordToken {
+  // Stemmed, lowercased word; null for stopwords and short words
+  term: string | null;
+  start: number;
+  end: number;
+}
+
+// Every word of the text with its offsets, for callers that need to point
+// back into the original
+export function wordTokens(text: string): WordToken[] {
+  return Array.from(text.toLowerCase().matchAll(WORD)).map(match => {
+    const word = match[0];
+    const start = match.index ?? 0;
+    return {
+      term: word.length > 2 && !STOPWORDS.has(word) ? stem(word) : null,
+      start,
+      end: start + word.length,
+    };
+  });
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD) || [])
+    .filter(word => word.length > 2 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export function nodeText(node: FloatNode): string {
+  return node.content.processed ?? node.content.raw;
+}
+
+const FENCED_CODE = /```[\s\S]*?(```|$)/g;
+const INLINE_CODE = /`[^`\n]*`/g;
+
+// Prose only: fenced blocks and inline code aren't what people said
+export function withoutCode(text: string): string {
+  return text.replace(FENCED_CODE, "").replace(INLINE_CODE, "");
+}
+
+// Like withoutCode, but blanks code out so offsets still match the original
+export function maskCode(text: string): string {
+  const blank = (code: string) => code.replace(/[^\n]/g, " ");
+  return text.replace(FENCED_CODE, blank).replace(INLINE_CODE, blank);
+}
+
+export function keywords(text: string): Set<string> {
+  return new Set(tokenize(text));
+}
+
+// Shared keywords, sorted for stable output, and their Jaccard similarity
+export function keywordOverlap(a: Set<string>, b: Set<string>): { shared: string[]; similarity: number } {
+  const shared = Array.from(a).filter(word => b.has(word)).sort();
+  const union = a.size + b.size - shared.length;
+  return { shared, similarity: union === 0 ? 0 : shared.length / union };
+}
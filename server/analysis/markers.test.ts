@@ -0,0 +1,126 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { FloatNode } from "@shared/schema";
+import { DEFAULT_MARKER_RULES, assignMarkers, loadMarkerRules } from "./markers";
+
+function node(index: number, role: FloatNode["role"], text: string, extra: Partial<FloatNode> = {}): FloatNode {
+  return {
+    id: `n${index}`,
+    type: "message",
+    author: role === "human" ? "User" : "Assistant",
+    role,
+    content: { raw: text, processed: text },
+    position: { index, depth: 0 },
+    ...extra,
+  };
+}
+
+describe("assignMarkers", () => {
+  it("marks turns with the phrase that triggered each rule", () => {
+    const nodes = [
+      node(0, "human", "Tell me about margins."),
+      node(1, "assistant", "The key is white space. It connects to bookbinding."),
+      node(2, "human", "Aha, that\u2019s it!"),
+    ];
+    assignMarkers(nodes);
+
+    expect(nodes[0].float_markers).toBeUndefined();
+    expect(nodes[1].float_markers).toEqual({ highlight: "The key is", bridge: "connects to" });
+    expect(nodes[2].float_markers).toEqual({ eureka: "Aha" });
+  });
+
+  it("matches keywords as whole words and ignores code", () => {
+    const nodes = [
+      node(0, "human", "Unimportant detail, but importantly small."),
+      node(1, "assistant", "Run `we should` here:\n```\nthe plan is\n```"),
+      node(2, "human", "I realized the fold matters."),
+    ];
+    assignMarkers(nodes);
+
+    expect(nodes[0].float_markers).toBeUndefined();
+    expect(nodes[1].float_markers).toBeUndefined();
+    expect(nodes[2].float_markers).toEqual({ highlight: "realized" });
+  });
+
+  it("applies position and role limits", () => {
+    const opening = [node(0, "human", "Can we talk about fonts? Serifs first."), node(1, "assistant", "Sure.")];
+    assignMarkers(opening);
+    expect(opening[0].float_markers).toEqual({ dispatch: "Can we talk about fonts" });
+
+    const fromAssistant = [node(0, "assistant", "Can we talk about fonts?"), node(1, "human", "Sure.")];
+    assignMarkers(fromAssistant);
+    expect(fromAssistant[0].float_markers).toBeUndefined();
+
+    const nodes = [
+      node(0, "human", "Okay, start with paper."),
+      node(1, "assistant", "A5 or A6."),
+      node(2, "human", "Pick one."),
+      node(3, "assistant", "A5."),
+      node(4, "human", "Sounds good to me. Thanks!"),
+    ];
+    assignMarkers(nodes);
+    expect(nodes[0].float_markers).toBeUndefined();
+    expect(nodes[4].float_markers).toEqual({ decision: "Sounds good to me" });
+  });
+
+  it("keeps existing markers and skips artifacts and branches", () => {
+    const nodes = [
+      node(0, "human", "This is important.", { float_markers: { highlight: "set by hand" } }),
+      node(1, "assistant", "Another angle to consider.", { type: "artifact" }),
+      node(2, "assistant", "Another angle to consider.", { position: { index: 2, depth: 1 } }),
+    ];
+    assignMarkers(nodes);
+
+    expect(nodes[0].float_markers).toEqual({ highlight: "set by hand" });
+    expect(nodes[1].float_markers).toBeUndefined();
+    expect(nodes[2].float_markers).toBeUndefined();
+  });
+
+  it("uses the first matching rule for each marker", () => {
+    const nodes = [node(0, "human", "See also chapter two, and see also chapter three.")];
+    assignMarkers(nodes, [
+      { marker: "bridge", pattern: "see also chapter \\w+" },
+      { marker: "bridge", keywords: ["chapter three"] },
+    ]);
+
+    expect(nodes[0].float_markers).toEqual({ bridge: "See also chapter two" });
+  });
+});
+
+describe("loadMarkerRules", () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function rulesFile(content: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "marker-rules-"));
+    dirs.push(dir);
+    const file = path.join(dir, "rules.json");
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  it("uses the defaults unless MARKER_RULES_FILE is set", () => {
+    expect(loadMarkerRules({})).toBe(DEFAULT_MARKER_RULES);
+    const rules = [{ marker: "eureka", keywords: ["got it"] }];
+    expect(loadMarkerRules({ MARKER_RULES_FILE: rulesFile(JSON.stringify(rules)) })).toEqual(rules);
+  });
+
+  it("names the file and the problem when the rules can't be used", () => {
+    const missing = path.join(os.tmpdir(), "no-such-rules.json");
+    expect(() => loadMarkerRules({ MARKER_RULES_FILE: missing })).toThrow(`MARKER_RULES_FILE ${missing} could not be read as JSON`);
+
+    const notJson = rulesFile("[{");
+    expect(() => loadMarkerRules({ MARKER_RULES_FILE: notJson })).toThrow(`MARKER_RULES_FILE ${notJson} could not be read as JSON`);
+
+    const invalid = rulesFile(JSON.stringify([{ marker: "shout", keywords: ["hey"] }, { marker: "eureka" }]));
+    expect(() => loadMarkerRules({ MARKER_RULES_FILE: invalid })).toThrow(/has invalid rules: 0\.marker: .*; 1: A rule needs keywords or a pattern$/);
+
+    const badPattern = rulesFile(JSON.stringify([{ marker: "eureka", keywords: ["aha"] }, { marker: "bridge", pattern: "(unclosed" }]));
+    expect(() => loadMarkerRules({ MARKER_RULES_FILE: badPattern })).toThrow(`MARKER_RULES_FILE ${badPattern} rule 1 has an invalid pattern`);
+  });
+});
@@ -0,0 +1,138 @@
+import fs from "fs";
+import { z } from "zod";
+import { FLOAT_MARKER_KINDS, type FloatNode } from "@shared/schema";
+import { nodeText, withoutCode } from "./keywords";
+import { conversationTurns } from "./turns";
+
+export type MarkerKind = keyof NonNullable<FloatNode["float_markers"]>;
+
+const markerRuleSchema = z.object({
+  marker: z.enum(FLOAT_MARKER_KINDS),
+  // Whole words or phrases, matched case-insensitively
+  keywords: z.array(z.string().min(1)).optional(),
+  // Regular expression source, matched case-insensitively
+  pattern: z.string().optional(),
+  // Only turns within this many of the start or end of the conversation
+  position: z.object({
+    from: z.enum(["start", "end"]),
+    within: z.number().int().positive(),
+  }).optional(),
+  roles: z.array(z.enum(["human", "assistant", "system"])).optional(),
+}).refine(rule => rule.keywords?.length || rule.pattern, "A rule needs keywords or a pattern");
+
+export type MarkerRule = z.infer<typeof markerRuleSchema>;
+
+// The marker phrases from FLOATAST.md. Rules are tried in order and the
+// first match for a marker wins.
+export const DEFAULT_MARKER_RULES: MarkerRule[] = [
+  {
+    marker: "highlight",
+    keywords: ["insight", "realize", "realized", "important", "key point", "the key is", "crucial", "worth noting", "takeaway"],
+  },
+  {
+    marker: "bridge",
+    keywords: ["connects to", "connects with", "reminds me of", "similar to", "relates to", "bridge between", "link between", "parallels"],
+  },
+  {
+    marker: "dispatch",
+    keywords: ["let's explore", "new direction", "another angle", "tangent", "let's dig into", "spin off", "worth exploring"],
+  },
+  // An opening request frames what the conversation sets out to explore
+  {
+    marker: "dispatch",
+    pattern: "^(?:so,? )?(?:i want to|i'd like to|let's|can we|help me) (?:explore|talk about|look at|think through|figure out)\\b[^.?!\\n]*",
+    position: { from: "start", within: 1 },
+    roles: ["human"],
+  },
+  {
+    marker: "eureka",
+    keywords: ["aha", "that's it", "breakthrough", "eureka", "it clicked", "now i get it", "lightbulb moment"],
+  },
+  {
+    marker: "decision",
+    keywords: ["i will", "i'll go with", "we should", "let's go with", "we'll go with", "decided", "the plan is"],
+  },
+  // Agreement while wrapping up settles whatever was on the table
+  {
+    marker: "decision",
+    pattern: "^(?:ok(?:ay)?|alright|agreed|sounds good|deal)\\b[^.?!\\n]*",
+    position: { from: "end", within: 3 },
+  },
+];
+
+// MARKER_RULES_FILE replaces the defaults with a JSON array of rules. It is
+// read once when the server starts; a file that is missing or invalid stops
+// startup with the reason rather than failing every parse later.
+export function loadMarkerRules(env: NodeJS.ProcessEnv = process.env): MarkerRule[] {
+  const file = env.MARKER_RULES_FILE;
+  if (!file) return DEFAULT_MARKER_RULES;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`MARKER_RULES_FILE ${file} could not be read as JSON: ${(error as Error).message}`);
+  }
+
+  const parsed = z.array(markerRuleSchema).safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`MARKER_RULES_FILE ${file} has invalid rules: ${issues.join("; ")}`);
+  }
+  parsed.data.forEach((rule, index) => {
+    try {
+      compileRule(rule);
+    } catch (error) {
+      throw new Error(`MARKER_RULES_FILE ${file} rule ${index} has an invalid pattern: ${(error as Error).message}`);
+    }
+  });
+  return parsed.data;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileRule(rule: MarkerRule): RegExp {
+  const alternatives = (rule.keywords || []).map(keyword =>
+    `(?<![\\w'])${escapeRegExp(keyword).replace(/'/g, "['’]")}(?![\\w'])`,
+  );
+  if (rule.pattern) alternatives.push(`(?:${rule.pattern})`);
+  return new RegExp(alternatives.join("|"), "i");
+}
+
+const configuredRules = loadMarkerRules();
+
+export function markerRules(): MarkerRule[] {
+  return configuredRules;
+}
+
+function inPosition(rule: MarkerRule, index: number, count: number): boolean {
+  if (!rule.position) return true;
+  return rule.position.from === "start"
+    ? index < rule.position.within
+    : index >= count - rule.position.within;
+}
+
+// Sets float_markers on each conversation turn, keeping markers that are
+// already present. The marker value is the text that triggered the rule.
+export function assignMarkers(nodes: FloatNode[], rules: MarkerRule[] = markerRules()) {
+  const compiled = rules.map(rule => ({ rule, regex: compileRule(rule) }));
+  const turns = conversationTurns(nodes);
+
+  turns.forEach((node, index) => {
+    const text = withoutCode(nodeText(node)).trim();
+    const markers: NonNullable<FloatNode["float_markers"]> = { ...node.float_markers };
+
+    for (const { rule, regex } of compiled) {
+      if (markers[rule.marker]) continue;
+      if (rule.roles && (!node.role || !rule.roles.includes(node.role))) continue;
+      if (!inPosition(rule, index, turns.length)) continue;
+
+      const match = text.match(regex);
+      if (match) markers[rule.marker] = match[0].trim();
+    }
+
+    if (Object.keys(markers).length > 0) node.float_markers = markers;
+  });
+}
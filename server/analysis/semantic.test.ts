@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { FloatNode } from "@shared/schema";
+import { analyzeSemantics, analyzeText } from "./semantic";
+
+describe("analyzeText", () => {
+  it("classifies questions, commands, reflections and statements", () => {
+    expect(analyzeText("How do I bind a zine?").intent).toBe("question");
+    expect(analyzeText("Is it ready").intent).toBe("question");
+    expect(analyzeText("Write a summary of the meeting.").intent).toBe("command");
+    expect(analyzeText("Let's try saddle stitching.").intent).toBe("command");
+    expect(analyzeText("I think the cover feels heavy.").intent).toBe("reflection");
+    expect(analyzeText("The printer is out of toner.").intent).toBe("statement");
+  });
+
+  it("ignores code when classifying", () => {
+    expect(analyzeText("```\nwhat is this?\n```\nUse this snippet.").intent).toBe("command");
+  });
+
+  it("picks the tone with the most lexicon hits", () => {
+    expect(analyzeText("The printer is definitely broken.").emotional_tone).toBe("frustrated");
+    expect(analyzeText("Thanks, this is amazing and I love it").emotional_tone).toBe("excited");
+    expect(analyzeText("We shipped it!").emotional_tone).toBe("excited");
+    expect(analyzeText("The printer is out of toner.").emotional_tone).toBe("neutral");
+  });
+
+  it("lowers certainty for hedges and questions and raises it for boosters", () => {
+    expect(analyzeText("The printer is out of toner.").certainty).toBe(0.7);
+    expect(analyzeText("I think the cover feels heavy.").certainty).toBe(0.6);
+    expect(analyzeText("The printer is definitely broken.").certainty).toBe(0.78);
+    expect(analyzeText("How do I bind a zine?").certainty).toBe(0.5);
+    expect(analyzeText("Maybe, perhaps, possibly, probably roughly this?").certainty).toBe(0.05);
+  });
+});
+
+describe("analyzeSemantics", () => {
+  it("fills in conversation turns without overwriting existing analysis", () => {
+    const given = { intent: "statement" as const, emotional_tone: "calm", certainty: 1 };
+    const nodes: FloatNode[] = [
+      { id: "a", type: "message", content: { raw: "Why fold it?" }, position: { index: 0, depth: 0 } },
+      { id: "b", type: "message", content: { raw: "Why not?" }, position: { index: 1, depth: 0 }, semantic: given },
+      { id: "c", type: "artifact", content: { raw: "Why?" }, position: { index: 2, depth: 0 } },
+    ];
+    analyzeSemantics(nodes);
+
+    expect(nodes[0].semantic?.intent).toBe("question");
+    expect(nodes[1].semantic).toBe(given);
+    expect(nodes[2].semantic).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import type { FloatNode } from "@shared/schema";
+import { nodeText, withoutCode } from "./keywords";
+import { conversationTurns } from "./turns";
+
+export type NodeSemantic = NonNullable<FloatNode["semantic"]>;
+
+// Verbs that open an instruction ("Write a ...", "Show me ...")
+const IMPERATIVE_VERBS = new Set([
+  "add", "build", "change", "check", "compare", "create", "describe", "draft", "explain", "find", "fix",
+  "generate", "give", "help", "imagine", "list", "make", "outline", "please", "remove", "rewrite", "run",
+  "show", "summarize", "summarise", "tell", "translate", "try", "turn", "update", "use", "write",
+]);
+
+const QUESTION_OPENERS = /^(?:what|why|how|when|where|who|whom|which|whose|is|are|was|were|do|does|did|can|could|would|should|will|shall|may|might|have|has)\b/i;
+
+const REFLECTION = /\b(?:i think|i feel|i wonder|i reali[sz]e|i guess|i suppose|i notice|i've been|it seems|it feels|looking back|in retrospect|makes me|for me,)/i;
+
+// One global regex per word list; a phrase matches from a word start
+function phraseMatcher(phrases: string[]): RegExp {
+  return new RegExp(`\\b(?:${phrases.map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "g");
+}
+
+function countMatches(text: string, matcher: RegExp): number {
+  return text.match(matcher)?.length || 0;
+}
+
+const HEDGES = phraseMatcher([
+  "maybe", "perhaps", "might", "possibly", "probably", "i think", "i guess", "i suppose", "seems", "not sure",
+  "could be", "kind of", "sort of", "unclear", "i wonder", "likely", "somewhat", "roughly", "it depends",
+]);
+
+const BOOSTERS = phraseMatcher([
+  "definitely", "certainly", "clearly", "always", "never", "must", "obviously", "absolutely", "without a doubt",
+  "of course", "i know", "for sure", "undoubtedly", "exactly", "guaranteed",
+]);
+
+// Word stems per tone; the tone with the most hits wins, ties go to the
+// earlier entry. Nothing matching means "neutral".
+const TONE_LEXICON = [
+  { tone: "frustrated", words: ["frustrat", "annoy", "stuck", "ugh", "broken", "doesn't work", "hate", "confus", "waste"] },
+  { tone: "concerned", words: ["worr", "concern", "risk", "afraid", "careful", "problem", "issue", "danger", "unsure"] },
+  { tone: "excited", words: ["amazing", "awesome", "love", "exciting", "excited", "fantastic", "wow", "brilliant", "can't wait"] },
+  { tone: "appreciative", words: ["thank", "appreciat", "grateful", "helpful", "nice work", "well done"] },
+  { tone: "curious", words: ["wonder", "curious", "interesting", "intrigu", "what if", "explore", "how come"] },
+  { tone: "contemplative", words: ["reflect", "consider", "ponder", "meaning", "perhaps", "realiz", "realis", "looking back"] },
+  { tone: "confident", words: ["definitely", "certainly", "clearly", "sure", "obviously", "confident"] },
+].map(({ tone, words }) => ({ tone, matcher: phraseMatcher(words) }));
+
+function sentences(text: string): string[] {
+  return text
+    .replace(/([.!?])\s+/g, "$1\n")
+    .split(/\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function classifyIntent(text: string, parts: string[]): NodeSemantic["intent"] {
+  const questions = parts.filter(sentence => sentence.endsWith("?") || (QUESTION_OPENERS.test(sentence) && !/[.!]$/.test(sentence)));
+  const last = parts[parts.length - 1] || "";
+  if (last.endsWith("?") || questions.length * 2 > parts.length) return "question";
+
+  const firstWord = (parts[0] || "").toLowerCase().match(/^[a-z']+/)?.[0] || "";
+  if (IMPERATIVE_VERBS.has(firstWord) || /^(?:let's|can you|could you|would you|i need you to)\b/i.test(parts[0] || "")) {
+    return "command";
+  }
+
+  if (REFLECTION.test(text)) return "reflection";
+  return "statement";
+}
+
+function classifyTone(lower: string, text: string): string {
+  let best = { tone: "neutral", score: 0 };
+  for (const { tone, matcher } of TONE_LEXICON) {
+    const score = countMatches(lower, matcher);
+    if (score > best.score) best = { tone, score };
+  }
+  // Exclamations lean excited unless something else is clearly present
+  if (best.score === 0 && /!\s*$/.test(text.trim())) return "excited";
+  return best.tone;
+}
+
+function scoreCertainty(lower: string, intent: NodeSemantic["intent"]): number {
+  let certainty = 0.7;
+  certainty -= countMatches(lower, HEDGES) * 0.1;
+  certainty += countMatches(lower, BOOSTERS) * 0.08;
+  if (intent === "question") certainty -= 0.2;
+  return Math.round(Math.min(0.95, Math.max(0.05, certainty)) * 100) / 100;
+}
+
+// Lexicon-based intent, tone and certainty for one message; runs locally
+// with no model involved
+export function analyzeText(raw: string): NodeSemantic {
+  const text = withoutCode(raw).trim();
+  const lower = text.toLowerCase();
+  const parts = sentences(text);
+  const intent = classifyIntent(text, parts);
+
+  return {
+    intent,
+    emotional_tone: classifyTone(lower, text),
+    certainty: scoreCertainty(lower, intent),
+  };
+}
+
+// Fills node.semantic on conversation turns that don't already have one
+export function analyzeSemantics(nodes: FloatNode[]) {
+  for (const node of conversationTurns(nodes)) {
+    if (node.semantic) continue;
+    node.semantic = analyzeText(nodeText(node));
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { FloatNode } from "@shared/schema";
+import { applySigils, findSigils, hasSigil } from "./sigils";
+
+function node(index: number, text: string, extra: Partial<FloatNode> = {}): FloatNode {
+  return {
+    id: `n${index}`,
+    type: "message",
+    author: "User",
+    role: "human",
+    content: { raw: text, processed: text },
+    position: { index, depth: 0 },
+    ...extra,
+  };
+}
+
+describe("findSigils", () => {
+  it("finds every kind of sigil in the order written", () => {
+    const text = "ctx::2025-09-12 @ 10:00 then float.dispatch( zine layout ) via bridge::CB-20250912-1000. ritual::morning-pages float.ritual(tea)";
+
+    expect(findSigils(text)).toEqual([
+      { kind: "ctx", value: "2025-09-12 @ 10:00", text: "ctx::2025-09-12 @ 10:00" },
+      { kind: "dispatch", value: "zine layout", text: "float.dispatch( zine layout )" },
+      { kind: "bridge", value: "CB-20250912-1000", text: "bridge::CB-20250912-1000" },
+      { kind: "ritual", value: "morning-pages", text: "ritual::morning-pages" },
+      { kind: "ritual", value: "tea", text: "float.ritual(tea)" },
+    ]);
+  });
+
+  it("takes a word as the context when it isn't a date", () => {
+    expect(findSigils("[ctx::planning] notes")).toEqual([{ kind: "ctx", value: "planning", text: "ctx::planning" }]);
+    expect(findSigils("no sigils here, not even context::x")).toEqual([]);
+  });
+});
+
+describe("applySigils", () => {
+  it("records sigils on turns and counts them", () => {
+    const nodes = [
+      node(0, "ctx::2025-09-12 float.dispatch(binding)"),
+      node(1, "bridge::CB-1 and bridge::CB-2", { float_markers: { bridge: "set by hand" } }),
+      node(2, "float.ritual(tea)"),
+      node(3, "```\nfloat.dispatch(example)\n```"),
+      node(4, "float.dispatch(branch)", { position: { index: 4, depth: 1 } }),
+    ];
+    const { sigils, counts } = applySigils(nodes);
+
+    expect(sigils.map(sigil => sigil.text)).toEqual([
+      "ctx::2025-09-12", "float.dispatch(binding)", "bridge::CB-1", "bridge::CB-2", "float.ritual(tea)",
+    ]);
+    expect(counts).toEqual({ ctx: 1, dispatch: 1, bridge: 2, ritual: 1 });
+    expect(nodes.map(each => each.type)).toEqual(["dispatch", "message", "ritual", "message", "message"]);
+    expect(nodes[0].float_markers).toEqual({ dispatch: "binding" });
+    expect(nodes[1].float_markers).toEqual({ bridge: "set by hand" });
+    expect(nodes[3].meta?.sigils).toBeUndefined();
+    expect(hasSigil(nodes[1], "bridge")).toBe(true);
+    expect(hasSigil(nodes[1], "dispatch")).toBe(false);
+  });
+});
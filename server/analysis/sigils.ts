@@ -0,0 +1,77 @@
+import type { FloatNode } from "@shared/schema";
+import { withoutCode } from "./keywords";
+import { conversationTurns } from "./turns";
+
+// Explicit FLOAT markup typed into transcripts:
+//   ctx::2025-09-12 @ 10:00        context checkpoint
+//   float.dispatch(topic)          launches a new thread
+//   bridge::CB-20250912-1000       connects to another conversation
+//   ritual::name / float.ritual(name)   a recurring practice
+export type SigilKind = "ctx" | "dispatch" | "bridge" | "ritual";
+
+export interface Sigil {
+  kind: SigilKind;
+  value: string;
+  // The sigil as written, e.g. "float.dispatch(topic)"
+  text: string;
+}
+
+export interface SigilCounts {
+  ctx: number;
+  dispatch: number;
+  bridge: number;
+  ritual: number;
+}
+
+const SIGIL_PATTERNS: { kind: SigilKind; pattern: RegExp }[] = [
+  { kind: "ctx", pattern: /\bctx::\s*(\d{4}-\d{2}-\d{2}(?:\s*@\s*\d{1,2}:\d{2}(?:\s*[ap]m)?)?|[^\s\]]+)/gi },
+  { kind: "dispatch", pattern: /\bfloat\.dispatch\(\s*([^)\n]*?)\s*\)/g },
+  { kind: "bridge", pattern: /\bbridge::\s*([\w.-]*\w)/gi },
+  { kind: "ritual", pattern: /\britual::\s*([\w.-]*\w)/gi },
+  { kind: "ritual", pattern: /\bfloat\.ritual\(\s*([^)\n]*?)\s*\)/g },
+];
+
+export function findSigils(text: string): Sigil[] {
+  const found: (Sigil & { offset: number })[] = [];
+  for (const { kind, pattern } of SIGIL_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      found.push({ kind, value: match[1].trim(), text: match[0].trim(), offset: match.index ?? 0 });
+    }
+  }
+  return found
+    .sort((a, b) => a.offset - b.offset)
+    .map(({ kind, value, text }) => ({ kind, value, text }));
+}
+
+// Records sigils on each conversation turn (meta.sigils), fills the dispatch
+// and bridge markers with the first sigil's value, and turns messages that
+// launch a dispatch or invoke a ritual into dispatch/ritual nodes.
+export function applySigils(nodes: FloatNode[]): { sigils: Sigil[]; counts: SigilCounts } {
+  const all: Sigil[] = [];
+  const counts: SigilCounts = { ctx: 0, dispatch: 0, bridge: 0, ritual: 0 };
+
+  for (const node of conversationTurns(nodes)) {
+    const sigils = findSigils(withoutCode(node.content.raw));
+    if (sigils.length === 0) continue;
+
+    node.meta = { ...node.meta, sigils };
+    for (const sigil of sigils) {
+      counts[sigil.kind]++;
+      all.push(sigil);
+      if ((sigil.kind === "dispatch" || sigil.kind === "bridge") && !node.float_markers?.[sigil.kind]) {
+        node.float_markers = { ...node.float_markers, [sigil.kind]: sigil.value };
+      }
+    }
+
+    const launch = sigils.find(sigil => sigil.kind === "dispatch" || sigil.kind === "ritual");
+    if (launch && node.type === "message") node.type = launch.kind === "dispatch" ? "dispatch" : "ritual";
+  }
+
+  return { sigils: all, counts };
+}
+
+// Whether a marker on this node came from a sigil rather than a rule
+export function hasSigil(node: FloatNode, kind: SigilKind): boolean {
+  const sigils = node.meta?.sigils as Sigil[] | undefined;
+  return !!sigils?.some(sigil => sigil.kind === kind);
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { Concept, FloatAST, FloatEdge, FloatNode } from "@shared/schema";
+import { suggestThreads } from "./suggest";
+
+function node(index: number, text: string, markers?: FloatNode["float_markers"]): FloatNode {
+  return { id: `n${index}`, type: "message", content: { raw: text }, position: { index, depth: 0 }, float_markers: markers };
+}
+
+function edge(type: FloatEdge["type"], source: string, target: string): FloatEdge {
+  return { id: `${type}-${source}-${target}`, source, target, type };
+}
+
+function concept(title: string, weight: number, nodeIds: string[]): Concept {
+  return { title, weight, references: [], appearances: nodeIds.map(node_id => ({ node_id })) };
+}
+
+function floatAst(nodes: FloatNode[], edges: FloatEdge[], concepts: Record<string, Concept> = {}): FloatAST {
+  return {
+    id: "ast-1",
+    version: "1.0",
+    type: "conversation",
+    temporal: { created: "2025-09-12T10:00:00.000Z" },
+    metadata: { source: "local" },
+    nodes,
+    concepts,
+    patterns: { float_dispatches: 0, ritual_invocations: 0, bridge_creates: 0, persona_switches: 0 },
+    edges,
+    transforms: { preferred_output: "zine", depth_level: 2 },
+  };
+}
+
+const nodes = [
+  node(0, "How should we bind it?"),
+  node(1, "Saddle stitch works. It is cheap and quick to do at home.", { decision: "works" }),
+  node(2, "What about thicker zines?"),
+  node(3, "Perfect binding, later.", { dispatch: "perfect binding" }),
+  node(4, "Thanks"),
+];
+
+const edges = [
+  edge("responds_to", "n1", "n0"),
+  edge("questions", "n2", "n1"),
+  edge("responds_to", "n3", "n2"),
+  edge("references", "n4", "n3"),
+];
+
+describe("suggestThreads", () => {
+  it("seeds threads from concepts and markers and grows them along edges", () => {
+    const suggestions = suggestThreads(floatAst(nodes, edges, { binding: concept("Binding", 0.9, ["n3", "n0"]) }));
+
+    expect(suggestions.map(({ title, weight, nodeIds }) => ({ title, weight, nodeIds }))).toEqual([
+      { title: "Binding", weight: 0.9, nodeIds: ["n0", "n3", "n4"] },
+      { title: "Decision: Saddle stitch works", weight: 0.7, nodeIds: ["n1", "n2"] },
+    ]);
+    expect(suggestions[0].seed).toEqual({ kind: "concept", concept: "binding", nodeIds: ["n0", "n3"] });
+  });
+
+  it("titles dispatch threads by their topic and skips near-duplicates", () => {
+    const suggestions = suggestThreads(floatAst(nodes, edges), { depth: 0 });
+
+    expect(suggestions.map(suggestion => [suggestion.title, suggestion.nodeIds])).toEqual([
+      ["perfect binding", ["n3"]],
+      ["Decision: Saddle stitch works", ["n1"]],
+    ]);
+
+    const overlapping = suggestThreads(floatAst(nodes, edges, { binding: concept("Binding", 0.9, ["n3"]) }), { depth: 0 });
+    expect(overlapping.map(suggestion => suggestion.title)).toEqual(["Binding", "Decision: Saddle stitch works"]);
+  });
+
+  it("follows only the edge types it is given, as far as the depth allows", () => {
+    const reply = suggestThreads(floatAst(nodes, edges), { edgeTypes: ["responds_to"], depth: 2 });
+    expect(reply.map(suggestion => suggestion.nodeIds)).toEqual([["n2", "n3"], ["n0", "n1"]]);
+
+    expect(suggestThreads(floatAst(nodes, edges), { maxThreads: 1 })).toHaveLength(1);
+  });
+
+  it("shortens long first sentences in marker titles", () => {
+    const long = node(0, `${"word ".repeat(20)}end. Second sentence.`, { highlight: "key" });
+    const [suggestion] = suggestThreads(floatAst([long], []));
+    expect(suggestion.title).toBe(`Highlight: ${"word ".repeat(11)}wo...`);
+    expect(suggestion.title.length).toBe("Highlight: ".length + 60);
+  });
+});
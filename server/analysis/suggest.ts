@@ -0,0 +1,136 @@
+import type { FloatAST, FloatEdge, FloatNode } from "@shared/schema";
+import type { MarkerKind } from "./markers";
+
+export interface SuggestOptions {
+  // Edge hops taken from the seed nodes
+  depth?: number;
+  maxThreads?: number;
+  // Edges followed while expanding. responds_to is left out by default:
+  // it links every adjacent turn and would pull in the whole conversation.
+  edgeTypes?: FloatEdge["type"][];
+}
+
+export interface SuggestedThread {
+  title: string;
+  weight: number;
+  // Conversation order
+  nodeIds: string[];
+  seed: { kind: "concept"; concept: string; nodeIds: string[] } | { kind: "marker"; marker: MarkerKind; nodeIds: string[] };
+}
+
+export const DEFAULT_SUGGEST_EDGE_TYPES: FloatEdge["type"][] = [
+  "elaborates", "references", "questions", "bridges", "implements", "summarizes",
+];
+
+const DEFAULT_DEPTH = 1;
+const DEFAULT_MAX_THREADS = 8;
+// A suggestion mostly made of an earlier one's nodes adds nothing new
+const MAX_OVERLAP = 0.8;
+const TITLE_LENGTH = 60;
+
+// Marker seeds in priority order, with the weight their threads start from
+const MARKER_SEEDS: { marker: MarkerKind; weight: number }[] = [
+  { marker: "dispatch", weight: 0.8 },
+  { marker: "eureka", weight: 0.75 },
+  { marker: "decision", weight: 0.7 },
+  { marker: "highlight", weight: 0.6 },
+  { marker: "bridge", weight: 0.6 },
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function firstSentence(text: string): string {
+  const sentence = text.replace(/\s+/g, " ").trim().split(/(?:[.!?])\s/)[0];
+  return sentence.length > TITLE_LENGTH ? `${sentence.slice(0, TITLE_LENGTH - 3).trimEnd()}...` : sentence;
+}
+
+// Dispatch and bridge markers carry a topic; the others carry the phrase
+// that triggered them, so the message itself makes the better title
+function markerTitle(marker: MarkerKind, node: FloatNode): string {
+  const value = node.float_markers?.[marker]?.trim();
+  if ((marker === "dispatch" || marker === "bridge") && value) return value;
+  const label = marker.charAt(0).toUpperCase() + marker.slice(1);
+  return `${label}: ${firstSentence(node.content.raw)}`;
+}
+
+// Breadth-first walk over the chosen edge types in both directions
+function expand(seedIds: string[], edges: FloatEdge[], depth: number): Set<string> {
+  const neighbours = new Map<string, string[]>();
+  for (const edge of edges) {
+    neighbours.set(edge.source, [...(neighbours.get(edge.source) || []), edge.target]);
+    neighbours.set(edge.target, [...(neighbours.get(edge.target) || []), edge.source]);
+  }
+
+  const reached = new Set(seedIds);
+  let frontier = seedIds;
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of neighbours.get(id) || []) {
+        if (reached.has(neighbour)) continue;
+        reached.add(neighbour);
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+  return reached;
+}
+
+// Candidate threads for a FloatAST: one per top concept (seeded from its
+// appearances) and one per marker node, each grown along edges up to
+// `depth` hops. Suggestions that mostly repeat an earlier one are skipped.
+export function suggestThreads(floatAst: FloatAST, options: SuggestOptions = {}): SuggestedThread[] {
+  const depth = options.depth ?? DEFAULT_DEPTH;
+  const maxThreads = options.maxThreads ?? DEFAULT_MAX_THREADS;
+  const edgeTypes = new Set(options.edgeTypes ?? DEFAULT_SUGGEST_EDGE_TYPES);
+
+  const nodesById = new Map(floatAst.nodes.map(node => [node.id, node]));
+  const edges = (floatAst.edges || []).filter(edge =>
+    edgeTypes.has(edge.type) && nodesById.has(edge.source) && nodesById.has(edge.target),
+  );
+  const inOrder = (ids: Iterable<string>) => Array.from(ids)
+    .filter(id => nodesById.has(id))
+    .sort((a, b) => nodesById.get(a)!.position.index - nodesById.get(b)!.position.index);
+
+  const candidates: SuggestedThread[] = [];
+
+  const concepts = Object.entries(floatAst.concepts || {})
+    .sort((a, b) => b[1].weight - a[1].weight || a[0].localeCompare(b[0]));
+  for (const [key, concept] of concepts) {
+    const seedIds = inOrder(new Set(concept.appearances.map(ref => ref.node_id)));
+    if (seedIds.length === 0) continue;
+    candidates.push({
+      title: concept.title,
+      weight: round(concept.weight),
+      nodeIds: inOrder(expand(seedIds, edges, depth)),
+      seed: { kind: "concept", concept: key, nodeIds: seedIds },
+    });
+  }
+
+  for (const { marker, weight } of MARKER_SEEDS) {
+    for (const node of floatAst.nodes) {
+      if (!node.float_markers?.[marker]) continue;
+      candidates.push({
+        title: markerTitle(marker, node),
+        weight,
+        nodeIds: inOrder(expand([node.id], edges, depth)),
+        seed: { kind: "marker", marker, nodeIds: [node.id] },
+      });
+    }
+  }
+
+  // Strongest first, then drop near-duplicates of what's already chosen
+  const suggestions: SuggestedThread[] = [];
+  for (const candidate of candidates.sort((a, b) => b.weight - a.weight)) {
+    if (suggestions.length >= maxThreads) break;
+    const overlaps = suggestions.some(chosen => {
+      const shared = candidate.nodeIds.filter(id => chosen.nodeIds.includes(id)).length;
+      return shared / candidate.nodeIds.length >= MAX_OVERLAP;
+    });
+    if (!overlaps) suggestions.push(candidate);
+  }
+  return suggestions;
+}
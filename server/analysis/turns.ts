@@ -0,0 +1,9 @@
+import type { FloatNode } from "@shared/schema";
+
+// Turns of the conversation in order. Artifacts and alternate branches hang
+// off their message instead of taking part in the exchange.
+export function conversationTurns(nodes: FloatNode[]): FloatNode[] {
+  return nodes
+    .filter(node => node.position.depth === 0 && node.type !== "artifact")
+    .sort((a, b) => a.position.index - b.position.index);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { impose, paddedPageCount, pageSize } from "./imposition";
+
+function pagesOf(side: { page: number }[]): number[] {
+  return side.map(placement => placement.page);
+}
+
+describe("paddedPageCount", () => {
+  it("always gives a minizine 8 pages and rounds booklets up to a multiple of 4", () => {
+    expect(paddedPageCount("minizine", 3)).toBe(8);
+    expect([1, 4, 5, 8, 9].map(pages => paddedPageCount("booklet", pages))).toEqual([4, 4, 8, 8, 12]);
+  });
+});
+
+describe("pageSize", () => {
+  it("quarters and halves the landscape sheet", () => {
+    expect(pageSize("minizine", "letter")).toEqual({ width: 198, height: 306 });
+    expect(pageSize("booklet", "letter")).toEqual({ width: 396, height: 612 });
+  });
+});
+
+describe("impose", () => {
+  it("lays a minizine out on one side with the top row upside down", () => {
+    const imposition = impose("minizine", "letter", 5);
+    expect(imposition.pageCount).toBe(8);
+    expect(imposition.sides).toHaveLength(1);
+
+    const [side] = imposition.sides;
+    const top = side.filter(placement => placement.rotated).sort((a, b) => a.x - b.x);
+    const bottom = side.filter(placement => !placement.rotated).sort((a, b) => a.x - b.x);
+    expect(pagesOf(top)).toEqual([4, 3, 2, 1]);
+    expect(pagesOf(bottom)).toEqual([5, 6, 7, 0]);
+    expect(top.every(placement => placement.y === 306)).toBe(true);
+
+    expect(imposition.folds).toEqual({ vertical: [198, 396, 594], horizontal: [306] });
+    expect(imposition.cut).toEqual({ y: 306, from: 198, to: 594 });
+  });
+
+  it("pairs booklet pages so the folded stack reads in order", () => {
+    const imposition = impose("booklet", "a4", 7);
+    expect(imposition.pageCount).toBe(8);
+    expect(imposition.sides.map(pagesOf)).toEqual([
+      [7, 0],
+      [1, 6],
+      [5, 2],
+      [3, 4],
+    ]);
+    expect(imposition.sides.flat().every(placement => !placement.rotated && placement.y === 0)).toBe(true);
+    expect(imposition.folds).toEqual({ vertical: [imposition.pageWidth], horizontal: [] });
+    expect(imposition.cut).toBeUndefined();
+  });
+
+  it("places every booklet page exactly once", () => {
+    const imposition = impose("booklet", "letter", 22);
+    const placed = imposition.sides.flatMap(pagesOf).sort((a, b) => a - b);
+    expect(placed).toEqual(Array.from({ length: 24 }, (_, page) => page));
+    expect(imposition.sides).toHaveLength(12);
+  });
+});
@@ -0,0 +1,105 @@
+// Where each page of a zine lands on the printed sheets. Pages are numbered
+// from 0 in reading order; sheets are landscape and measured in points.
+//
+// - minizine: all 8 pages on one side of one sheet, 4 across and 2 down with
+//   the top row upside down. Fold it in half both ways, cut the slit along
+//   the middle of the centre two panels and fold it into a booklet.
+// - booklet: saddle-stitched, two pages per side. Print both sides flipping
+//   on the short edge, stack the sheets in order, fold down the middle and
+//   staple on the fold. A4 sheets give A5 pages, letter gives half-letter.
+
+export const PRINT_LAYOUTS = ["minizine", "booklet"] as const;
+export type PrintLayout = typeof PRINT_LAYOUTS[number];
+
+export const PAPER_SIZES = ["a4", "letter"] as const;
+export type PaperSize = typeof PAPER_SIZES[number];
+
+// Landscape, in points
+const SHEETS: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 841.89, height: 595.28 },
+  letter: { width: 792, height: 612 },
+};
+
+export const MINIZINE_PAGES = 8;
+
+export interface Placement {
+  page: number;
+  x: number;
+  y: number;
+  // Turned 180 degrees about the page's centre
+  rotated: boolean;
+}
+
+export interface Imposition {
+  pageWidth: number;
+  pageHeight: number;
+  sheetWidth: number;
+  sheetHeight: number;
+  pageCount: number;
+  // One entry per printed side, front then back for each booklet sheet
+  sides: Placement[][];
+  // Fold lines across the sheet, and the minizine's slit
+  folds: { vertical: number[]; horizontal: number[] };
+  cut?: { y: number; from: number; to: number };
+}
+
+// [column, top row] of each minizine page, columns counted from the left
+const MINIZINE_SLOTS: [number, boolean][] = [
+  [3, false], [3, true], [2, true], [1, true], [0, true], [0, false], [1, false], [2, false],
+];
+
+export function pageSize(layout: PrintLayout, paper: PaperSize): { width: number; height: number } {
+  const sheet = SHEETS[paper];
+  return layout === "minizine"
+    ? { width: sheet.width / 4, height: sheet.height / 2 }
+    : { width: sheet.width / 2, height: sheet.height };
+}
+
+// Minizines always have 8 pages; booklets need a multiple of 4
+export function paddedPageCount(layout: PrintLayout, pages: number): number {
+  return layout === "minizine" ? MINIZINE_PAGES : Math.max(4, Math.ceil(pages / 4) * 4);
+}
+
+export function impose(layout: PrintLayout, paper: PaperSize, pages: number): Imposition {
+  const sheet = SHEETS[paper];
+  const page = pageSize(layout, paper);
+  const pageCount = paddedPageCount(layout, pages);
+  const base = {
+    pageWidth: page.width,
+    pageHeight: page.height,
+    sheetWidth: sheet.width,
+    sheetHeight: sheet.height,
+    pageCount,
+  };
+
+  if (layout === "minizine") {
+    return {
+      ...base,
+      sides: [MINIZINE_SLOTS.map(([column, top], index) => ({
+        page: index,
+        x: column * page.width,
+        y: top ? page.height : 0,
+        rotated: top,
+      }))],
+      folds: { vertical: [1, 2, 3].map(column => column * page.width), horizontal: [page.height] },
+      cut: { y: page.height, from: page.width, to: 3 * page.width },
+    };
+  }
+
+  // The outermost sheet carries the covers; each one in holds the next pages in
+  const sides: Placement[][] = [];
+  for (let sheetIndex = 0; sheetIndex < pageCount / 4; sheetIndex++) {
+    const outer = 2 * sheetIndex;
+    sides.push(
+      [
+        { page: pageCount - 1 - outer, x: 0, y: 0, rotated: false },
+        { page: outer, x: page.width, y: 0, rotated: false },
+      ],
+      [
+        { page: outer + 1, x: 0, y: 0, rotated: false },
+        { page: pageCount - 2 - outer, x: page.width, y: 0, rotated: false },
+      ],
+    );
+  }
+  return { ...base, sides, folds: { vertical: [page.width], horizontal: [] } };
+}
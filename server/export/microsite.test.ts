@@ -0,0 +1,136 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { FloatAST, FloatNode, ZineEditionWithDocument } from "@shared/schema";
+import { buildMicrosite, micrositeFileName, micrositeRoot, removeMicrosites, writeMicrosite } from "./microsite";
+
+function node(index: number, author: string, text: string): FloatNode {
+  return { id: `n${index}`, type: "message", author, content: { raw: text }, position: { index, depth: 0 } };
+}
+
+const floatAst: FloatAST = {
+  id: "ast-1",
+  version: "1.0",
+  type: "conversation",
+  temporal: { created: "2025-09-12T10:00:00.000Z" },
+  metadata: { source: "local" },
+  nodes: [node(0, "Ana", "How do I bind it?"), node(1, "Bo", "Staple <the> spine"), node(2, "Ana", "Not quoted")],
+  concepts: {},
+  patterns: { float_dispatches: 0, ritual_invocations: 0, bridge_creates: 0, persona_switches: 0 },
+  edges: [],
+  transforms: { preferred_output: "zine", depth_level: 2 },
+};
+
+const edition: ZineEditionWithDocument = {
+  id: "e1",
+  zineId: "zine-1",
+  edition: 2,
+  title: "Binding <Notes>",
+  content: "",
+  publishedAt: new Date("2025-09-14T08:00:00.000Z"),
+  userId: null,
+  document: {
+    version: 1,
+    frontMatter: { title: "Binding <Notes>", authors: ["Ana"], tags: ["craft"] },
+    sections: [
+      {
+        id: "s1",
+        title: "Staples & Stitches",
+        nodeIds: ["n0"],
+        blocks: [
+          { type: "quote", text: "Staple <the> spine", nodeIds: ["n1"], author: "Bo" },
+          { type: "commentary", text: "First line\nsecond line\n\nNew paragraph", nodeIds: [] },
+        ],
+      },
+      { id: "s2", title: "", nodeIds: [], blocks: [{ type: "callout", marker: "decision", text: "Use staples", nodeIds: ["n9"] }] },
+    ],
+  },
+};
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function file(entries: ReturnType<typeof buildMicrosite>, name: string): string {
+  return String(entries.find(entry => entry.path === name)?.content);
+}
+
+describe("buildMicrosite", () => {
+  it("writes an index, a numbered page per section, the stylesheet and the document", () => {
+    const entries = buildMicrosite(edition);
+
+    expect(entries.map(entry => entry.path)).toEqual(["index.html", "01-staples-stitches.html", "02-section.html", "style.css", "zine.json"]);
+    expect(file(entries, "index.html")).toContain("<h1>Binding &lt;Notes&gt;<span");
+    expect(file(entries, "index.html")).toContain('<a href="02-section.html"><span class="index">02</span> Untitled section</a>');
+    expect(file(entries, "index.html")).not.toContain("source.html");
+    expect(file(entries, "index.html")).toContain("edition 2 &middot; 2025-09-14");
+    expect(JSON.parse(file(entries, "zine.json"))).toMatchObject({ zineId: "zine-1", edition: 2, document: { sections: [{ id: "s1" }, { id: "s2" }] } });
+  });
+
+  it("escapes block text and keeps its paragraphs and line breaks", () => {
+    const page = file(buildMicrosite(edition), "01-staples-stitches.html");
+
+    expect(page).toContain("<p>Staple &lt;the&gt; spine</p>");
+    expect(page).toContain("<cite>&mdash; Bo</cite>");
+    expect(page).toContain("<p>First line<br>second line</p>\n<p>New paragraph</p>");
+    expect(page).toContain('<a href="02-section.html">next &rarr;</a>');
+    expect(page).not.toContain("node-link");
+  });
+
+  it("adds the quoted turns as source.html when given the conversation", () => {
+    const entries = buildMicrosite(edition, { floatAst });
+    const source = file(entries, "source.html");
+
+    expect(entries.map(entry => entry.path)).toContain("source.html");
+    expect(source).toContain("2 turns of the conversation this zine quotes");
+    expect(source).toContain('<article class="turn" id="node-n1">');
+    expect(source).toContain("<pre>Staple &lt;the&gt; spine</pre>");
+    expect(source).not.toContain("Not quoted");
+    expect(file(entries, "01-staples-stitches.html")).toContain('<a class="node-link" href="source.html#node-n1">#2</a>');
+    // n9 isn't in the conversation, so the callout links nowhere
+    expect(file(entries, "02-section.html")).not.toContain("node-link");
+  });
+});
+
+describe("micrositeFileName", () => {
+  it("names the bundle after the title and edition", () => {
+    expect(micrositeFileName(edition)).toBe("binding-notes-edition-2");
+    expect(micrositeFileName({ ...edition, document: { ...edition.document, frontMatter: { ...edition.document.frontMatter, title: "!!" } } }))
+      .toBe("zine-edition-2");
+  });
+});
+
+describe("micrositeRoot", () => {
+  it("uses MICROSITE_DIR when set", () => {
+    expect(micrositeRoot({ MICROSITE_DIR: "/srv/sites" })).toBe("/srv/sites");
+    expect(micrositeRoot({})).toBe(path.resolve(process.cwd(), "data", "microsites"));
+  });
+});
+
+describe("writeMicrosite", () => {
+  it("replaces what the directory held before", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "microsite-"));
+    dirs.push(directory);
+    fs.writeFileSync(path.join(directory, "stale.html"), "old");
+
+    writeMicrosite(buildMicrosite(edition), directory);
+    expect(fs.readdirSync(directory).sort()).toEqual(["01-staples-stitches.html", "02-section.html", "index.html", "style.css", "zine.json"]);
+  });
+});
+
+describe("removeMicrosites", () => {
+  it("removes every edition written for the zine and nothing else", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "microsites-"));
+    dirs.push(root);
+    writeMicrosite(buildMicrosite(edition), path.join(root, "zine-1", "edition-1"));
+    writeMicrosite(buildMicrosite(edition), path.join(root, "zine-1", "edition-2"));
+    writeMicrosite(buildMicrosite(edition), path.join(root, "zine-2", "edition-1"));
+
+    removeMicrosites("zine-1", root);
+    expect(fs.readdirSync(root)).toEqual(["zine-2"]);
+    expect(() => removeMicrosites("zine-1", root)).not.toThrow();
+  });
+});
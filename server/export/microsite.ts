@@ -0,0 +1,339 @@
+import fs from "fs";
+import path from "path";
+import type { FloatAST, FloatNode, ZineBlock, ZineEditionWithDocument, ZineSection } from "@shared/schema";
+import { zineNodeIds } from "@shared/zine";
+import { speakerOf } from "../render";
+import type { ZipEntry } from "./zip";
+
+export interface MicrositeOptions {
+  // The zine's source conversation. When given, the turns the zine links to
+  // are reproduced on source.html and every block links to them.
+  floatAst?: FloatAST;
+}
+
+const SLUG_LENGTH = 40;
+
+interface SitePage {
+  file: string;
+  section: ZineSection;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, SLUG_LENGTH).replace(/-+$/, "");
+}
+
+// Blank lines split paragraphs; single newlines are kept as line breaks
+function paragraphs(text: string): string {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : "";
+}
+
+// Sections are numbered in reading order so a directory listing sorts the same way
+function sitePages(sections: ZineSection[]): SitePage[] {
+  return sections.map((section, index) => ({
+    file: `${String(index + 1).padStart(2, "0")}-${slugify(section.title) || "section"}.html`,
+    section,
+  }));
+}
+
+function layout(title: string, edition: ZineEditionWithDocument, body: string): string {
+  const { frontMatter } = edition.document;
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Agentic Zine Network">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="style.css">
+</head>
+<body>
+<header class="bar">
+<a href="index.html" class="prompt">~/${escapeHtml(slugify(frontMatter.title) || "zine")}</a>
+<span class="meta">edition ${edition.edition} &middot; ${formatDate(edition.publishedAt)}</span>
+</header>
+<main>
+${body}
+</main>
+<footer class="bar">
+<span>${escapeHtml(frontMatter.title)}</span>
+<span class="meta">made with Agentic Zine Network</span>
+</footer>
+</body>
+</html>
+`;
+}
+
+function nodeLinks(nodeIds: string[], nodesById: Map<string, FloatNode>): string {
+  const links = nodeIds
+    .filter(id => nodesById.has(id))
+    .map(id => `<a class="node-link" href="source.html#node-${escapeHtml(id)}">#${nodesById.get(id)!.position.index + 1}</a>`);
+  return links.length > 0 ? `<nav class="node-links">${links.join(" ")}</nav>` : "";
+}
+
+function renderBlock(block: ZineBlock, nodesById: Map<string, FloatNode>): string {
+  const links = nodeLinks(block.nodeIds, nodesById);
+  switch (block.type) {
+    case "quote":
+      return `<blockquote class="quote">
+${paragraphs(block.text)}
+${block.author ? `<cite>&mdash; ${escapeHtml(block.author)}</cite>` : ""}${links}
+</blockquote>`;
+    case "callout":
+      return `<aside class="callout callout-${block.marker}">
+<span class="label">[${block.marker}]</span>
+${paragraphs(block.text)}${links}
+</aside>`;
+    default:
+      return `<div class="commentary">
+${paragraphs(block.text)}${links}
+</div>`;
+  }
+}
+
+function renderIndex(edition: ZineEditionWithDocument, pages: SitePage[], hasSource: boolean): string {
+  const { frontMatter } = edition.document;
+  const contents = pages
+    .map((page, index) => `<li><a href="${page.file}"><span class="index">${String(index + 1).padStart(2, "0")}</span> ${escapeHtml(page.section.title || "Untitled section")}</a></li>`)
+    .join("\n");
+  const body = `<section class="cover">
+<h1>${escapeHtml(frontMatter.title)}<span class="cursor"></span></h1>
+${frontMatter.subtitle ? `<p class="subtitle">${escapeHtml(frontMatter.subtitle)}</p>` : ""}
+${frontMatter.authors.length > 0 ? `<p class="authors">by ${escapeHtml(frontMatter.authors.join(", "))}</p>` : ""}
+${frontMatter.summary ? paragraphs(frontMatter.summary) : ""}
+${frontMatter.tags.length > 0 ? `<ul class="tags">${frontMatter.tags.map(tag => `<li>${escapeHtml(tag)}</li>`).join("")}</ul>` : ""}
+</section>
+<nav class="contents">
+<h2>contents</h2>
+<ol>
+${contents}
+</ol>
+${hasSource ? `<p><a href="source.html">source conversation excerpts</a></p>` : ""}
+</nav>`;
+  return layout(frontMatter.title, edition, body);
+}
+
+function renderSectionPage(edition: ZineEditionWithDocument, pages: SitePage[], index: number, nodesById: Map<string, FloatNode>): string {
+  const { section } = pages[index];
+  const previous = pages[index - 1];
+  const next = pages[index + 1];
+  const body = `<article class="section">
+<h2>${escapeHtml(section.title || "Untitled section")}</h2>
+${section.blocks.map(block => renderBlock(block, nodesById)).join("\n")}
+</article>
+<nav class="pager">
+${previous ? `<a href="${previous.file}">&larr; ${escapeHtml(previous.section.title || "previous")}</a>` : `<a href="index.html">&larr; contents</a>`}
+${next ? `<a href="${next.file}">${escapeHtml(next.section.title || "next")} &rarr;</a>` : `<a href="index.html">contents &rarr;</a>`}
+</nav>`;
+  return layout(`${section.title || "Untitled section"} \u00b7 ${edition.document.frontMatter.title}`, edition, body);
+}
+
+// The linked turns in conversation order, each with the sections citing it
+function renderSource(edition: ZineEditionWithDocument, pages: SitePage[], nodes: FloatNode[]): string {
+  const citedIn = (node: FloatNode) => pages.filter(page =>
+    page.section.nodeIds.includes(node.id) || page.section.blocks.some(block => block.nodeIds.includes(node.id)),
+  );
+  const turns = nodes.map(node => `<article class="turn" id="node-${escapeHtml(node.id)}">
+<header><span class="speaker">${escapeHtml(speakerOf(node))}</span> <span class="index">#${node.position.index + 1}</span></header>
+<pre>${escapeHtml(node.content.raw)}</pre>
+<nav class="node-links">${citedIn(node).map(page => `<a href="${page.file}">${escapeHtml(page.section.title || "section")}</a>`).join(" ")}</nav>
+</article>`).join("\n");
+  const body = `<article class="section source">
+<h2>source</h2>
+<p class="meta">${nodes.length} turn${nodes.length === 1 ? "" : "s"} of the conversation this zine quotes</p>
+${turns}
+</article>`;
+  return layout(`Source \u00b7 ${edition.document.frontMatter.title}`, edition, body);
+}
+
+// Renders one edition of a zine as a static site: index.html with the front
+// matter and contents, a page per section, optionally source.html with the
+// quoted turns, style.css and zine.json. Every link is relative and nothing
+// is loaded from elsewhere, so the files work from any directory or zip.
+export function buildMicrosite(edition: ZineEditionWithDocument, options: MicrositeOptions = {}): ZipEntry[] {
+  const pages = sitePages(edition.document.sections);
+  const linked = new Set(zineNodeIds(edition.document));
+  const sourceNodes = (options.floatAst?.nodes ?? [])
+    .filter(node => linked.has(node.id))
+    .sort((a, b) => a.position.index - b.position.index);
+  const nodesById = new Map(sourceNodes.map(node => [node.id, node]));
+
+  const entries: ZipEntry[] = [
+    { path: "index.html", content: renderIndex(edition, pages, sourceNodes.length > 0) },
+    ...pages.map((page, index) => ({ path: page.file, content: renderSectionPage(edition, pages, index, nodesById) })),
+  ];
+  if (sourceNodes.length > 0) {
+    entries.push({ path: "source.html", content: renderSource(edition, pages, sourceNodes) });
+  }
+  entries.push(
+    { path: "style.css", content: STYLESHEET },
+    {
+      path: "zine.json",
+      content: JSON.stringify({ zineId: edition.zineId, edition: edition.edition, publishedAt: edition.publishedAt, document: edition.document }, null, 2),
+    },
+  );
+  return entries;
+}
+
+export function micrositeFileName(edition: ZineEditionWithDocument): string {
+  return `${slugify(edition.document.frontMatter.title) || "zine"}-edition-${edition.edition}`;
+}
+
+// Where exported sites are written and served from (/sites)
+export function micrositeRoot(env: NodeJS.ProcessEnv = process.env): string {
+  return env.MICROSITE_DIR || path.resolve(process.cwd(), "data", "microsites");
+}
+
+// Every site written for a zine, which lives under MICROSITE_DIR/<zineId>
+export function removeMicrosites(zineId: string, root: string = micrositeRoot()): void {
+  fs.rmSync(path.join(root, zineId), { recursive: true, force: true });
+}
+
+// Replaces whatever was in the directory before
+export function writeMicrosite(entries: ZipEntry[], directory: string): void {
+  fs.rmSync(directory, { recursive: true, force: true });
+  fs.mkdirSync(directory, { recursive: true });
+  for (const entry of entries) {
+    fs.writeFileSync(path.join(directory, entry.path), entry.content);
+  }
+}
+
+// The app's dark theme (see client/src/index.css), in plain CSS
+const STYLESHEET = `:root {
+  --background: hsl(10 15% 8%);
+  --surface: hsl(10 10% 12%);
+  --border: hsl(10 10% 20%);
+  --foreground: hsl(0 0% 95%);
+  --muted: hsl(240 5% 65%);
+  --primary: hsl(260 85% 65%);
+  --highlight: hsl(45 90% 60%);
+  --eureka: hsl(140 60% 55%);
+  --decision: hsl(210 80% 65%);
+  --bridge: hsl(185 70% 55%);
+  --mono: "JetBrains Mono", ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+  --sans: Inter, system-ui, -apple-system, "Segoe UI", sans-serif;
+}
+
+* { box-sizing: border-box; }
+
+body {
+  margin: 0;
+  background: var(--background);
+  color: var(--foreground);
+  font: 16px/1.7 var(--sans);
+}
+
+a { color: var(--primary); text-decoration: none; }
+a:hover { text-decoration: underline; }
+
+.bar {
+  display: flex;
+  justify-content: space-between;
+  gap: 1rem;
+  padding: 0.75rem 1.5rem;
+  border-bottom: 1px solid var(--border);
+  background: var(--surface);
+  font: 13px/1.5 var(--mono);
+}
+footer.bar { border-top: 1px solid var(--border); border-bottom: 0; margin-top: 4rem; }
+.prompt::before { content: "$ cd "; color: var(--muted); }
+.meta { color: var(--muted); font-family: var(--mono); font-size: 13px; }
+
+main { max-width: 42rem; margin: 0 auto; padding: 3rem 1.5rem; }
+
+h1, h2 { font-family: var(--mono); font-weight: 700; line-height: 1.3; }
+h1 { font-size: 2rem; margin: 0 0 0.5rem; }
+h2 { font-size: 1.25rem; margin: 0 0 1.5rem; }
+h2::before { content: "## "; color: var(--primary); }
+
+.cursor {
+  display: inline-block;
+  width: 0.6em;
+  height: 1em;
+  margin-left: 0.15em;
+  vertical-align: -0.1em;
+  background: var(--primary);
+  animation: blink 1.1s steps(1) infinite;
+}
+@keyframes blink { 50% { opacity: 0; } }
+@media (prefers-reduced-motion: reduce) { .cursor { animation: none; } }
+
+.subtitle { font-size: 1.2rem; color: var(--muted); margin: 0; }
+.authors { font-family: var(--mono); font-size: 14px; }
+.tags { display: flex; flex-wrap: wrap; gap: 0.5rem; padding: 0; list-style: none; }
+.tags li { border: 1px solid var(--border); padding: 0 0.5rem; font: 12px/1.8 var(--mono); color: var(--muted); }
+
+.contents { margin-top: 3rem; font-family: var(--mono); }
+.contents ol { list-style: none; padding: 0; }
+.contents li { padding: 0.35rem 0; border-bottom: 1px dashed var(--border); }
+.index { color: var(--muted); font-family: var(--mono); }
+
+.quote {
+  margin: 1.5rem 0;
+  padding: 0.75rem 1.25rem;
+  border-left: 3px solid var(--primary);
+  background: var(--surface);
+}
+.quote p { margin: 0.5rem 0; }
+.quote cite { display: block; font: normal 13px var(--mono); color: var(--muted); }
+
+.callout {
+  margin: 1.5rem 0;
+  padding: 0.75rem 1.25rem;
+  border: 1px solid var(--border);
+  border-left: 3px solid var(--primary);
+}
+.callout p { margin: 0.25rem 0; }
+.callout .label { font: 12px var(--mono); text-transform: uppercase; color: var(--primary); }
+.callout-highlight { border-left-color: var(--highlight); }
+.callout-highlight .label { color: var(--highlight); }
+.callout-eureka { border-left-color: var(--eureka); }
+.callout-eureka .label { color: var(--eureka); }
+.callout-decision { border-left-color: var(--decision); }
+.callout-decision .label { color: var(--decision); }
+.callout-bridge { border-left-color: var(--bridge); }
+.callout-bridge .label { color: var(--bridge); }
+
+.commentary { color: var(--foreground); }
+
+.node-links { font: 12px var(--mono); margin-top: 0.25rem; }
+.node-links a { margin-right: 0.5rem; }
+
+.pager {
+  display: flex;
+  justify-content: space-between;
+  gap: 1rem;
+  margin-top: 3rem;
+  padding-top: 1rem;
+  border-top: 1px solid var(--border);
+  font: 14px var(--mono);
+}
+
+.turn { margin: 1.5rem 0; padding: 1rem; border: 1px solid var(--border); background: var(--surface); }
+.turn:target { border-color: var(--primary); }
+.turn header { font: 13px var(--mono); margin-bottom: 0.5rem; }
+.speaker { color: var(--primary); }
+.turn pre { margin: 0; white-space: pre-wrap; word-break: break-word; font: 14px/1.6 var(--mono); }
+
+@media print {
+  body { background: white; color: black; }
+  .bar, .pager, .node-links { display: none; }
+  .quote, .turn { background: none; }
+}
+`;
@@ -0,0 +1,61 @@
+import { inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { createPdf, formName, pdfNumber, pdfText } from "./pdf";
+
+describe("pdfText", () => {
+  it("escapes delimiters and writes WinAnsi characters as octal", () => {
+    expect(pdfText("a (b) \\c")).toBe("(a \\(b\\) \\\\c)");
+    expect(pdfText("caf\u00e9 \u2014 \u201cok\u201d")).toBe("(caf\\351 \\227 \\223ok\\224)");
+  });
+
+  it("turns tabs into spaces and what the encoding lacks into ?", () => {
+    expect(pdfText("a\tb\n\u4e2d\ud83d\ude00")).toBe("(a b??)");
+  });
+});
+
+describe("pdfNumber", () => {
+  it("rounds to two decimals", () => {
+    expect(pdfNumber(612)).toBe("612");
+    expect(pdfNumber(10.126)).toBe("10.13");
+  });
+});
+
+describe("createPdf", () => {
+  const pdf = createPdf({
+    title: "Binding \u00e9",
+    forms: [{ width: 100, height: 200, content: "BT /regular 10 Tf (hi) Tj ET" }],
+    pages: [
+      { width: 300, height: 400, content: `q /${formName(0)} Do Q` },
+      { width: 300, height: 400, trimBox: [10, 10, 290, 390], content: "" },
+    ],
+  });
+  const text = pdf.toString("latin1");
+
+  it("lists the pages and shares the forms between them", () => {
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(text).toMatch(/\/Type \/Pages \/Kids \[\d+ 0 R \d+ 0 R\] \/Count 2/);
+    expect(text).toContain("/Subtype /Form /BBox [0 0 100 200]");
+    expect(text.match(/\/XObject << \/P1 \d+ 0 R >>/g)).toHaveLength(1);
+    expect(text).toContain("/MediaBox [0 0 300 400] /TrimBox [10 10 290 390]");
+    expect(text).toContain("/BaseFont /Courier-Oblique /Encoding /WinAnsiEncoding");
+    expect(text).toContain("/Title <FEFF00420069006e00640069006e0067002000e9>");
+  });
+
+  it("deflates every stream", () => {
+    const streams = Array.from(text.matchAll(/\/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g), match => {
+      const start = match.index! + match[0].length;
+      return inflateSync(pdf.subarray(start, start + Number(match[1]))).toString("latin1");
+    });
+    expect(streams).toEqual(["BT /regular 10 Tf (hi) Tj ET", "q /P1 Do Q", ""]);
+  });
+
+  it("points the cross-reference table at each object", () => {
+    const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+
+    const [, count] = text.slice(startxref).match(/xref\n0 (\d+)\n/)!;
+    const offsets = Array.from(text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+    expect(offsets).toHaveLength(Number(count) - 1);
+    offsets.forEach((offset, index) => expect(text.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true));
+  });
+});
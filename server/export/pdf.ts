@@ -0,0 +1,161 @@
+import { deflateSync } from "zlib";
+
+// The standard Courier faces every PDF reader has built in, so nothing is
+// embedded. Courier is monospaced, which keeps line breaking a matter of
+// counting characters.
+export const PDF_FONTS = {
+  regular: "Courier",
+  bold: "Courier-Bold",
+  italic: "Courier-Oblique",
+} as const;
+export type PdfFont = keyof typeof PDF_FONTS;
+
+// Every Courier glyph is 600/1000 of the type size wide
+export const COURIER_ADVANCE = 0.6;
+
+// A page's drawing, placed on sheets with `/<name> Do` (see formName)
+export interface PdfForm {
+  width: number;
+  height: number;
+  content: string;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  // [left, bottom, right, top] of the finished page when the media is larger
+  trimBox?: [number, number, number, number];
+  content: string;
+}
+
+export interface PdfDocument {
+  title: string;
+  forms: PdfForm[];
+  pages: PdfPage[];
+}
+
+// WinAnsiEncoding codes 0x80-0x9f; 0xa0-0xff match Latin-1
+const WIN_ANSI: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+// One byte per character; anything the encoding lacks becomes "?"
+function winAnsiBytes(text: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code >= 0xd800 && code <= 0xdbff) i++;
+    if (code === 0x09) bytes.push(0x20);
+    else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) bytes.push(code);
+    else if (WIN_ANSI[code]) bytes.push(WIN_ANSI[code]);
+    else if (code >= 0x20) bytes.push(0x3f);
+  }
+  return bytes;
+}
+
+// A literal string operand, kept to printable ASCII with octal escapes
+export function pdfText(text: string): string {
+  const body = winAnsiBytes(text).map(byte => {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`;
+    if (byte > 0x7e) return `\\${byte.toString(8)}`;
+    return String.fromCharCode(byte);
+  });
+  return `(${body.join("")})`;
+}
+
+export function pdfNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// Resource name of the form at this index
+export function formName(index: number): string {
+  return `P${index + 1}`;
+}
+
+// Text for the document information dictionary, as UTF-16 so any title survives
+function infoText(text: string): string {
+  let hex = "FEFF";
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, "0");
+  return `<${hex}>`;
+}
+
+function stream(dictionary: string, content: string): Buffer {
+  const data = deflateSync(Buffer.from(content, "latin1"));
+  return Buffer.concat([
+    Buffer.from(`<< ${dictionary} /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream", "latin1"),
+  ]);
+}
+
+// A PDF 1.4 file of the pages. Forms become XObjects shared by every page,
+// so a page imposed twice is only stored once.
+export function createPdf(document: PdfDocument): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+    return objects.length;
+  };
+  const reserve = () => add("");
+  const set = (id: number, body: string) => {
+    objects[id - 1] = Buffer.from(body, "latin1");
+  };
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const fontEntries = (Object.keys(PDF_FONTS) as PdfFont[]).map(font => {
+    const id = add(`<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_FONTS[font]} /Encoding /WinAnsiEncoding >>`);
+    return `/${font} ${id} 0 R`;
+  });
+  const fontsId = add(`<< ${fontEntries.join(" ")} >>`);
+
+  const formEntries = document.forms.map((form, index) => {
+    const id = add(stream(
+      `/Type /XObject /Subtype /Form /BBox [0 0 ${pdfNumber(form.width)} ${pdfNumber(form.height)}] /Resources << /Font ${fontsId} 0 R >>`,
+      form.content,
+    ));
+    return `/${formName(index)} ${id} 0 R`;
+  });
+  const resourcesId = add(`<< /Font ${fontsId} 0 R /XObject << ${formEntries.join(" ")} >> >>`);
+
+  const pageIds = document.pages.map(page => {
+    const contentsId = add(stream("", page.content));
+    const trimBox = page.trimBox ? ` /TrimBox [${page.trimBox.map(pdfNumber).join(" ")}]` : "";
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${pdfNumber(page.width)} ${pdfNumber(page.height)}]${trimBox} /Resources ${resourcesId} 0 R /Contents ${contentsId} 0 R >>`,
+    );
+  });
+  set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+  set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  const infoId = add(`<< /Title ${infoText(document.title)} /Producer ${infoText("Agentic Zine Network")} >>`);
+
+  // A binary comment after the header tells transfer tools the file isn't text
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(offset);
+    const object = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+    chunks.push(object);
+    offset += object.length;
+  });
+
+  // Cross-reference entries are exactly 20 bytes each
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(position => `${String(position).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+    "",
+  ].join("\n");
+  chunks.push(Buffer.from(xref, "latin1"));
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,94 @@
+import { inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import type { ZineEditionWithDocument, ZineSection } from "@shared/schema";
+import { printFileName, printZine, type PrintOptions } from "./print";
+
+function edition(sections: ZineSection[]): ZineEditionWithDocument {
+  return {
+    id: "e1",
+    zineId: "zine-1",
+    edition: 3,
+    title: "Binding",
+    content: "",
+    publishedAt: new Date("2025-09-14T08:00:00.000Z"),
+    userId: null,
+    document: {
+      version: 1,
+      frontMatter: { title: "Binding", authors: ["Ana"], tags: ["craft"], summary: "How we staple." },
+      sections,
+    },
+  };
+}
+
+const short = edition([{
+  id: "s1",
+  title: "Staples",
+  nodeIds: [],
+  blocks: [
+    { type: "quote", text: "Staple the spine", nodeIds: [], author: "Bo" },
+    { type: "callout", marker: "decision", text: "Use staples", nodeIds: [] },
+  ],
+}]);
+
+const long = edition(Array.from({ length: 12 }, (_, index) => ({
+  id: `s${index}`,
+  title: `Section ${index + 1}`,
+  nodeIds: [],
+  blocks: [{ type: "commentary" as const, text: "Fold the sheet and staple the spine. ".repeat(30), nodeIds: [] }],
+})));
+
+function print(zine: ZineEditionWithDocument, options: Partial<PrintOptions> = {}): string {
+  const printed = printZine(zine, { layout: "booklet", paper: "letter", cropMarks: false, ...options });
+  if ("error" in printed) throw new Error(printed.error);
+  return printed.pdf.toString("latin1");
+}
+
+// Every content stream, inflated
+function streams(pdf: string): string {
+  const buffer = Buffer.from(pdf, "latin1");
+  return Array.from(pdf.matchAll(/\/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g), match => {
+    const start = match.index! + match[0].length;
+    return inflateSync(buffer.subarray(start, start + Number(match[1]))).toString("latin1");
+  }).join("\n");
+}
+
+describe("printZine", () => {
+  it("imposes a short booklet on one sheet, front and back", () => {
+    const pdf = print(short);
+
+    expect(pdf).toMatch(/\/Count 2 >>/);
+    expect(pdf).toContain("/MediaBox [0 0 792 612] /Resources");
+    const text = streams(pdf);
+    expect(text).toContain("(## Staples) Tj");
+    expect(text).toContain("(Staple the spine) Tj");
+    expect(text).toContain("(\\227 Bo) Tj");
+    expect(text).toContain("([decision]) Tj");
+    expect(text).toContain("(edition 3 \\267 2025-09-14) Tj");
+    expect(text).toContain("(How we staple.) Tj");
+  });
+
+  it("adds a slug with crop marks around the trimmed sheet", () => {
+    expect(print(short, { cropMarks: true })).toContain("/MediaBox [0 0 864 684] /TrimBox [36 36 828 648]");
+  });
+
+  it("prints a minizine on a single side and refuses one that won't fit", () => {
+    const pdf = print(short, { layout: "minizine", paper: "a4" });
+    expect(pdf).toMatch(/\/Count 1 >>/);
+    expect(pdf).toContain("/BBox [0 0 210.47 297.64]");
+
+    const printed = printZine(long, { layout: "minizine", paper: "letter", cropMarks: false });
+    expect(printed).toEqual({ error: expect.stringMatching(/^Too long for a mini-zine: \d+ inside pages at 6pt, and it holds 6\./) });
+  });
+
+  it("gives long booklets as many sheets as they need", () => {
+    const count = Number(print(long).match(/\/Count (\d+) >>/)![1]);
+    expect(count).toBeGreaterThan(2);
+    expect(count % 2).toBe(0);
+  });
+});
+
+describe("printFileName", () => {
+  it("names the file after the title, edition, layout and paper", () => {
+    expect(printFileName(short, { layout: "minizine", paper: "a4", cropMarks: true })).toBe("binding-edition-3-minizine-a4.pdf");
+  });
+});
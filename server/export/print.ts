@@ -0,0 +1,349 @@
+import type { ZineBlock, ZineEditionWithDocument, ZineSection } from "@shared/schema";
+import { impose, MINIZINE_PAGES, pageSize, type Imposition, type PaperSize, type PrintLayout } from "./imposition";
+import { slugify } from "./microsite";
+import { COURIER_ADVANCE, createPdf, formName, pdfNumber, pdfText, type PdfFont, type PdfForm, type PdfPage } from "./pdf";
+
+export interface PrintOptions {
+  layout: PrintLayout;
+  paper: PaperSize;
+  // Adds a slug around the sheet with crop and fold marks, and the
+  // minizine's slit as a dashed line
+  cropMarks: boolean;
+}
+
+export type PrintedZine = { pdf: Buffer } | { error: string };
+
+interface TypeScale {
+  size: number;
+  margin: number;
+}
+
+// Tried in order until the content fits; booklets just gain sheets
+const TYPE_SCALES: Record<PrintLayout, TypeScale[]> = {
+  minizine: [{ size: 7, margin: 14 }, { size: 6.5, margin: 13 }, { size: 6, margin: 12 }],
+  booklet: [{ size: 10, margin: 36 }],
+};
+
+const LEADING = 1.35;
+const SLUG = 36;
+const MARK_OFFSET = 6;
+const MARK_LENGTH = 18;
+
+interface Line {
+  text: string;
+  font: PdfFont;
+  // Relative to the body size
+  scale: number;
+  indent: number;
+  rule?: "quote" | "callout";
+  gray?: boolean;
+  // Blank lines before this one, dropped at the top of a page
+  space: number;
+  // How many of the following lines have to share its page
+  keep?: number;
+}
+
+interface PlacedLine {
+  line: Line;
+  // Top of the line box
+  top: number;
+}
+
+interface Measure {
+  size: number;
+  // Text block width in points
+  width: number;
+}
+
+function lineHeight(line: Line, size: number): number {
+  return size * line.scale * LEADING;
+}
+
+function columns(measure: Measure, scale: number, indent = 0): number {
+  return Math.max(1, Math.floor((measure.width - indent) / (measure.size * scale * COURIER_ADVANCE)));
+}
+
+// Greedy word wrap; single newlines are kept, words longer than a line are split
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const raw of text.split("\n")) {
+    let line = "";
+    for (const word of raw.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > width) {
+        if (line) lines.push(line);
+        line = "";
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      if (!rest) continue;
+      if (!line) line = rest;
+      else if (line.length + 1 + rest.length <= width) line += ` ${rest}`;
+      else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Blank lines split paragraphs, as on the microsite
+function textLines(text: string, style: Omit<Line, "text" | "space">, measure: Measure, space: number): Line[] {
+  const width = columns(measure, style.scale, style.indent);
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .flatMap((paragraph, index) => wrap(paragraph, width).map((text, lineIndex) => ({
+      ...style,
+      text,
+      space: lineIndex > 0 ? 0 : index === 0 ? space : 0.4,
+    })));
+}
+
+function blockLines(block: ZineBlock, measure: Measure): Line[] {
+  const indent = measure.size * 1.5;
+  switch (block.type) {
+    case "quote":
+      return [
+        ...textLines(block.text, { font: "italic", scale: 1, indent, rule: "quote" }, measure, 0.6),
+        ...(block.author
+          ? textLines(`\u2014 ${block.author}`, { font: "regular", scale: 0.9, indent, rule: "quote", gray: true }, measure, 0.2)
+          : []),
+      ];
+    case "callout":
+      return [
+        { text: `[${block.marker}]`, font: "bold", scale: 0.9, indent, rule: "callout", gray: true, space: 0.6, keep: 1 },
+        ...textLines(block.text, { font: "regular", scale: 1, indent, rule: "callout" }, measure, 0),
+      ];
+    default:
+      return textLines(block.text, { font: "regular", scale: 1, indent: 0 }, measure, 0.6);
+  }
+}
+
+function sectionLines(section: ZineSection, measure: Measure): Line[] {
+  const heading = wrap(`## ${section.title || "Untitled section"}`, columns(measure, 1.2));
+  return [
+    // A heading never ends a page
+    ...heading.map((text, index): Line => ({
+      text,
+      font: "bold",
+      scale: 1.2,
+      indent: 0,
+      space: index === 0 ? 1.2 : 0,
+      keep: heading.length - index,
+    })),
+    ...section.blocks.flatMap(block => blockLines(block, measure)),
+  ];
+}
+
+function paginate(lines: Line[], size: number, top: number, bottom: number): PlacedLine[][] {
+  const pages: PlacedLine[][] = [];
+  let page: PlacedLine[] = [];
+  let cursor = top;
+  lines.forEach((line, index) => {
+    const space = page.length > 0 ? line.space * size * LEADING : 0;
+    const needed = lines
+      .slice(index + 1, index + 1 + (line.keep ?? 0))
+      .reduce((sum, next) => sum + next.space * size * LEADING + lineHeight(next, size), space + lineHeight(line, size));
+    if (page.length > 0 && cursor - needed < bottom) {
+      pages.push(page);
+      page = [];
+      cursor = top;
+    } else {
+      cursor -= space;
+    }
+    page.push({ line, top: cursor });
+    cursor -= lineHeight(line, size);
+  });
+  if (page.length > 0) pages.push(page);
+  return pages;
+}
+
+// The first page's worth, marked as cut short when there was more
+function firstPage(pages: PlacedLine[][]): PlacedLine[] {
+  const [first = []] = pages;
+  if (pages.length < 2 || first.length === 0) return first;
+  const last = first[first.length - 1];
+  return [...first.slice(0, -1), { ...last, line: { ...last.line, text: `${last.line.text.replace(/.{0,3}$/, "")}...` } }];
+}
+
+function drawText(text: string, font: PdfFont, fontSize: number, x: number, baseline: number, gray = false): string {
+  const color = gray ? "0.45 g " : "";
+  return `q ${color}BT /${font} ${pdfNumber(fontSize)} Tf ${pdfNumber(x)} ${pdfNumber(baseline)} Td ${pdfText(text)} Tj ET Q`;
+}
+
+function drawLines(placed: PlacedLine[], type: TypeScale): string {
+  return placed.map(({ line, top }) => {
+    const fontSize = type.size * line.scale;
+    const height = lineHeight(line, type.size);
+    const ops: string[] = [];
+    if (line.rule) {
+      const x = type.margin + type.size * 0.4;
+      const stroke = line.rule === "callout" ? "0.6 G 1.5 w" : "0 G 0.5 w";
+      ops.push(`q ${stroke} ${pdfNumber(x)} ${pdfNumber(top - height)} m ${pdfNumber(x)} ${pdfNumber(top)} l S Q`);
+    }
+    if (line.text) {
+      ops.push(drawText(line.text, line.font, fontSize, type.margin + line.indent, top - fontSize, line.gray));
+    }
+    return ops.join("\n");
+  }).filter(Boolean).join("\n");
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : "";
+}
+
+function coverPage(edition: ZineEditionWithDocument, type: TypeScale, width: number, height: number): string {
+  const { frontMatter } = edition.document;
+  const measure = { size: type.size, width: width - 2 * type.margin };
+  const lines: Line[] = [
+    { text: `$ cd ~/${slugify(frontMatter.title) || "zine"}`, font: "regular", scale: 0.9, indent: 0, gray: true, space: 0 },
+    ...textLines(frontMatter.title, { font: "bold", scale: 2, indent: 0 }, measure, 3),
+    ...(frontMatter.subtitle ? textLines(frontMatter.subtitle, { font: "italic", scale: 1.1, indent: 0 }, measure, 0.5) : []),
+    ...(frontMatter.authors.length > 0
+      ? textLines(`by ${frontMatter.authors.join(", ")}`, { font: "regular", scale: 1, indent: 0 }, measure, 1)
+      : []),
+    ...(frontMatter.tags.length > 0
+      ? textLines(frontMatter.tags.map(tag => `#${tag}`).join(" "), { font: "regular", scale: 0.9, indent: 0, gray: true }, measure, 0.5)
+      : []),
+  ];
+  const footerSize = type.size * 0.9;
+  return [
+    drawLines(firstPage(paginate(lines, type.size, height - type.margin, type.margin + 2 * footerSize)), type),
+    drawText(`edition ${edition.edition} \u00b7 ${formatDate(edition.publishedAt)}`, "regular", footerSize, type.margin, type.margin, true),
+  ].join("\n");
+}
+
+// The summary up top and a colophon along the bottom
+function backCover(edition: ZineEditionWithDocument, type: TypeScale, width: number, height: number): string {
+  const { frontMatter } = edition.document;
+  const measure = { size: type.size, width: width - 2 * type.margin };
+  const colophon: Line[] = [
+    ...textLines(frontMatter.title, { font: "bold", scale: 1, indent: 0 }, measure, 0),
+    { text: `edition ${edition.edition} \u00b7 ${formatDate(edition.publishedAt)}`, font: "regular", scale: 0.9, indent: 0, gray: true, space: 0 },
+    { text: "made with Agentic Zine Network", font: "regular", scale: 0.9, indent: 0, gray: true, space: 0 },
+  ];
+  const colophonHeight = colophon.reduce((sum, line) => sum + lineHeight(line, type.size), 0);
+  const summary: Line[] = frontMatter.summary
+    ? [
+        { text: "## about", font: "bold", scale: 1.2, indent: 0, space: 0 },
+        ...textLines(frontMatter.summary, { font: "regular", scale: 1, indent: 0 }, measure, 0.6),
+      ]
+    : [];
+  return [
+    drawLines(firstPage(paginate(summary, type.size, height - type.margin, type.margin + colophonHeight + type.size * 2)), type),
+    drawLines(firstPage(paginate(colophon, type.size, type.margin + colophonHeight, type.margin)), type),
+  ].join("\n");
+}
+
+function contentPage(placed: PlacedLine[], pageNumber: number, type: TypeScale, width: number): string {
+  const footerSize = type.size * 0.9;
+  const label = String(pageNumber);
+  const x = (width - label.length * footerSize * COURIER_ADVANCE) / 2;
+  return [drawLines(placed, type), drawText(label, "regular", footerSize, x, type.margin, true)].join("\n");
+}
+
+function line(x1: number, y1: number, x2: number, y2: number): string {
+  return `${pdfNumber(x1)} ${pdfNumber(y1)} m ${pdfNumber(x2)} ${pdfNumber(y2)} l S`;
+}
+
+// Crop marks at the trim corners, fold marks in the slug and the slit, all
+// in media coordinates with the trimmed sheet starting at (SLUG, SLUG)
+function printerMarks(imposition: Imposition): string {
+  const left = SLUG;
+  const bottom = SLUG;
+  const right = SLUG + imposition.sheetWidth;
+  const top = SLUG + imposition.sheetHeight;
+  const near = MARK_OFFSET;
+  const far = MARK_OFFSET + MARK_LENGTH;
+
+  const crops = [
+    line(left - far, bottom, left - near, bottom), line(left, bottom - far, left, bottom - near),
+    line(right + near, bottom, right + far, bottom), line(right, bottom - far, right, bottom - near),
+    line(left - far, top, left - near, top), line(left, top + near, left, top + far),
+    line(right + near, top, right + far, top), line(right, top + near, right, top + far),
+  ];
+  const folds = [
+    ...imposition.folds.vertical.flatMap(x => [
+      line(SLUG + x, bottom - far, SLUG + x, bottom - near),
+      line(SLUG + x, top + near, SLUG + x, top + far),
+    ]),
+    ...imposition.folds.horizontal.flatMap(y => [
+      line(left - far, SLUG + y, left - near, SLUG + y),
+      line(right + near, SLUG + y, right + far, SLUG + y),
+    ]),
+  ];
+  const cut = imposition.cut
+    ? [line(SLUG + imposition.cut.from, SLUG + imposition.cut.y, SLUG + imposition.cut.to, SLUG + imposition.cut.y)]
+    : [];
+
+  return [
+    `q 0 G 0.25 w\n${crops.join("\n")}\nQ`,
+    folds.length > 0 ? `q 0 G 0.25 w [3 2] 0 d\n${folds.join("\n")}\nQ` : "",
+    cut.length > 0 ? `q 0.6 G 0.25 w [2 2] 0 d\n${cut.join("\n")}\nQ` : "",
+  ].filter(Boolean).join("\n");
+}
+
+function sheetSide(imposition: Imposition, side: Imposition["sides"][number], cropMarks: boolean): PdfPage {
+  const offset = cropMarks ? SLUG : 0;
+  const placements = side.map(placement => {
+    const x = offset + placement.x;
+    const y = offset + placement.y;
+    const matrix = placement.rotated
+      ? `-1 0 0 -1 ${pdfNumber(x + imposition.pageWidth)} ${pdfNumber(y + imposition.pageHeight)}`
+      : `1 0 0 1 ${pdfNumber(x)} ${pdfNumber(y)}`;
+    return `q ${matrix} cm /${formName(placement.page)} Do Q`;
+  });
+  return {
+    width: imposition.sheetWidth + 2 * offset,
+    height: imposition.sheetHeight + 2 * offset,
+    trimBox: cropMarks ? [SLUG, SLUG, SLUG + imposition.sheetWidth, SLUG + imposition.sheetHeight] : undefined,
+    content: [...(cropMarks ? [printerMarks(imposition)] : []), ...placements].join("\n"),
+  };
+}
+
+// Typesets an edition in Courier and imposes it for printing: the cover,
+// the sections flowing across numbered pages, blank pages to make up the
+// count the layout needs and a back cover with the summary and colophon.
+// A minizine that won't fit its 6 inside pages is set smaller before giving up.
+export function printZine(edition: ZineEditionWithDocument, options: PrintOptions): PrintedZine {
+  const { width, height } = pageSize(options.layout, options.paper);
+  const capacity = options.layout === "minizine" ? MINIZINE_PAGES - 2 : Infinity;
+
+  let type = TYPE_SCALES[options.layout][0];
+  let content: PlacedLine[][] = [];
+  for (type of TYPE_SCALES[options.layout]) {
+    const measure = { size: type.size, width: width - 2 * type.margin };
+    const lines = edition.document.sections.flatMap(section => sectionLines(section, measure));
+    content = paginate(lines, type.size, height - type.margin, type.margin + type.size * 2);
+    if (content.length <= capacity) break;
+  }
+  if (content.length > capacity) {
+    return {
+      error: `Too long for a mini-zine: ${content.length} inside pages at ${type.size}pt, and it holds ${capacity}. Use the booklet layout instead.`,
+    };
+  }
+
+  const imposition = impose(options.layout, options.paper, content.length + 2);
+  const blankPages = imposition.pageCount - content.length - 2;
+  const forms: PdfForm[] = [
+    coverPage(edition, type, width, height),
+    ...content.map((placed, index) => contentPage(placed, index + 2, type, width)),
+    ...Array.from({ length: blankPages }, () => ""),
+    backCover(edition, type, width, height),
+  ].map(drawing => ({ width, height, content: drawing }));
+
+  return {
+    pdf: createPdf({
+      title: edition.document.frontMatter.title,
+      forms,
+      pages: imposition.sides.map(side => sheetSide(imposition, side, options.cropMarks)),
+    }),
+  };
+}
+
+export function printFileName(edition: ZineEditionWithDocument, options: PrintOptions): string {
+  return `${slugify(edition.document.frontMatter.title) || "zine"}-edition-${edition.edition}-${options.layout}-${options.paper}.pdf`;
+}
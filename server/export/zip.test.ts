@@ -0,0 +1,61 @@
+import { inflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { createZip } from "./zip";
+
+interface ReadEntry {
+  path: string;
+  crc: number;
+  content: string;
+}
+
+// Reads the archive back through its central directory
+function readZip(zip: Buffer): ReadEntry[] {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let central = zip.readUInt32LE(end + 16);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(central)).toBe(0x02014b50);
+    const compressedSize = zip.readUInt32LE(central + 20);
+    const nameLength = zip.readUInt16LE(central + 28);
+    const offset = zip.readUInt32LE(central + 42);
+    const path = zip.toString("utf-8", central + 46, central + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    const content = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString("utf-8");
+    entries.push({ path, crc: zip.readUInt32LE(central + 16), content });
+    central += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("createZip", () => {
+  it("deflates each entry under its path with its CRC-32", () => {
+    const zip = createZip([
+      { path: "site/hello.txt", content: "hello" },
+      { path: "site/caf\u00e9.html", content: Buffer.from("<p>caf\u00e9</p>", "utf-8") },
+    ]);
+
+    expect(readZip(zip)).toEqual([
+      { path: "site/hello.txt", crc: 0x3610a686, content: "hello" },
+      { path: "site/caf\u00e9.html", crc: expect.any(Number), content: "<p>caf\u00e9</p>" },
+    ]);
+    // Names are flagged as UTF-8
+    expect(zip.readUInt16LE(6) & 0x0800).toBe(0x0800);
+  });
+
+  it("stamps entries with the DOS date and time", () => {
+    const zip = createZip([{ path: "a.txt", content: "" }], new Date(2025, 8, 14, 8, 30, 10));
+
+    expect(zip.readUInt16LE(10)).toBe((8 << 11) | (30 << 5) | 5);
+    expect(zip.readUInt16LE(12)).toBe((45 << 9) | (9 << 5) | 14);
+    expect(readZip(zip)).toEqual([{ path: "a.txt", crc: 0, content: "" }]);
+  });
+
+  it("writes an empty archive as only the end record", () => {
+    expect(createZip([])).toHaveLength(22);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { parseConversationToFloatAST } from "./floatast";
+
+describe("parseConversationToFloatAST", () => {
+  it("counts sigils and rule markers without counting a turn twice", async () => {
+    const ast = await parseConversationToFloatAST([
+      "User: ctx::2025-09-12 @ 10:00 Let's explore binding. float.dispatch(binding)",
+      "",
+      "Assistant: This connects to printing. Another angle: stitching.",
+      "",
+      "User: float.ritual(tea) bridge::CB-1",
+    ].join("\n"), "Binding");
+
+    expect(ast.temporal.ctx_marker).toBe("2025-09-12 @ 10:00");
+    expect(ast.metadata.sigils).toEqual(["ctx::2025-09-12 @ 10:00", "float.dispatch(binding)", "float.ritual(tea)", "bridge::CB-1"]);
+    expect(ast.patterns).toMatchObject({ ctx_markers: 1, float_dispatches: 2, ritual_invocations: 1, bridge_creates: 2 });
+    expect(ast.nodes[0].float_markers?.dispatch).toBe("binding");
+  });
+
+  it("records the dialect it parsed the transcript with", async () => {
+    expect((await parseConversationToFloatAST("### User\nhi\n\n### Assistant\nhello", "Chat")).metadata.dialect).toBe("markdown");
+    expect((await parseConversationToFloatAST("### User\nhi", "Chat", "plain")).metadata.dialect).toBe("plain");
+  });
+});
@@ -0,0 +1,116 @@
+import type { FloatAST, FloatNode, Persona } from "@shared/schema";
+import { parseConversation } from "@shared/parser";
+import { randomUUID } from "crypto";
+import { extractConcepts } from "./analysis/concepts";
+import { generateEdges } from "./analysis/edges";
+import { assignMarkers } from "./analysis/markers";
+import { analyzeSemantics } from "./analysis/semantic";
+import { applySigils, hasSigil } from "./analysis/sigils";
+import { conversationTurns } from "./analysis/turns";
+
+export interface FloatASTOptions {
+  title: string;
+  source?: FloatAST["metadata"]["source"];
+  created?: string;
+  modified?: string;
+  // Overrides the span of node timestamps, e.g. a recording's cue times
+  duration?: number;
+}
+
+function nodeTimestamps(nodes: FloatNode[]): number[] {
+  return nodes
+    .map(node => node.meta?.timestamp)
+    .filter((timestamp): timestamp is string => typeof timestamp === "string")
+    .map(timestamp => new Date(timestamp).getTime())
+    .filter(time => !isNaN(time));
+}
+
+function speakingNodes(nodes: FloatNode[]): FloatNode[] {
+  return conversationTurns(nodes).filter(node => node.author);
+}
+
+function speakerKey(node: FloatNode): string {
+  const persona = node.meta?.persona as Persona | undefined;
+  return persona?.id || node.author!;
+}
+
+function speakerNames(nodes: FloatNode[]): string[] {
+  const names = new Map<string, string>();
+  for (const node of speakingNodes(nodes)) {
+    const key = speakerKey(node);
+    const persona = node.meta?.persona as Persona | undefined;
+    if (!names.has(key)) names.set(key, persona?.name || node.author!);
+  }
+  return Array.from(names.values());
+}
+
+function countSpeakerChanges(nodes: FloatNode[]): number {
+  const keys = speakingNodes(nodes).map(speakerKey);
+  return keys.filter((key, index) => index > 0 && key !== keys[index - 1]).length;
+}
+
+// Turns marked by a rule; turns with the matching sigil are counted as sigils
+function ruleMarkerCount(nodes: FloatNode[], kind: "dispatch" | "bridge"): number {
+  return conversationTurns(nodes).filter(node => node.float_markers?.[kind] && !hasSigil(node, kind)).length;
+}
+
+// Assemble a FloatAST around already-built nodes. Every ingestion path
+// (pasted transcripts and importers) goes through here.
+export function buildFloatAST(nodes: FloatNode[], options: FloatASTOptions): FloatAST {
+  const now = new Date().toISOString();
+  const times = nodeTimestamps(nodes);
+  const duration = options.duration ?? (times.length > 1 ? Math.max(...times) - Math.min(...times) : undefined);
+  const personas = speakerNames(nodes);
+  const { sigils, counts } = applySigils(nodes);
+  assignMarkers(nodes);
+  analyzeSemantics(nodes);
+  const ctxMarker = sigils.find(sigil => sigil.kind === "ctx")?.value;
+
+  return {
+    id: `ast-${randomUUID()}`,
+    version: "1.0",
+    type: "conversation",
+    temporal: {
+      created: options.created || now,
+      modified: options.modified || options.created || now,
+      ...(ctxMarker ? { ctx_marker: ctxMarker } : {}),
+      ...(duration !== undefined ? { duration } : {}),
+    },
+    metadata: {
+      source: options.source || "local",
+      project: options.title,
+      ...(personas.length > 0 ? { personas } : {}),
+      ...(sigils.length > 0 ? { sigils: Array.from(new Set(sigils.map(sigil => sigil.text))) } : {}),
+      tags: [],
+    },
+    nodes,
+    concepts: extractConcepts(nodes),
+    patterns: {
+      ctx_markers: counts.ctx,
+      float_dispatches: counts.dispatch + ruleMarkerCount(nodes, "dispatch"),
+      ritual_invocations: counts.ritual,
+      bridge_creates: counts.bridge + ruleMarkerCount(nodes, "bridge"),
+      persona_switches: countSpeakerChanges(nodes),
+    },
+    edges: generateEdges(nodes),
+    transforms: {
+      preferred_output: "zine",
+      depth_level: 2,
+    },
+  };
+}
+
+// Helper function to parse conversation text into FloatAST structure.
+// Speakers carry over from an imported transcript's FloatAST.
+export async function parseConversationToFloatAST(content: string, title: string, dialect?: string, speakers?: string[]): Promise<FloatAST> {
+  const parsed = parseConversation(content, {
+    dialect,
+    speakers,
+    createId: (kind) => `${kind}-${randomUUID()}`,
+  });
+
+  const floatAst = buildFloatAST(parsed.nodes, { title });
+  floatAst.metadata.dialect = parsed.dialect;
+  if (speakers) floatAst.metadata.transcript_speakers = speakers;
+  return floatAst;
+}
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { FloatAST, FloatNode } from "@shared/schema";
+import { extractFragments, extractFragmentsManually, saveFragments, type SiftResult } from "./fragments";
+import { FakeLLMProvider, setLLMProvider } from "./llm";
+import { storage } from "./storage";
+
+function node(id: string, text: string): FloatNode {
+  return { id, type: "message", author: "User", content: { raw: text }, position: { index: Number(id.slice(1)), depth: 0 } };
+}
+
+const floatAst: FloatAST = {
+  id: "ast-1",
+  version: "1.0",
+  type: "conversation",
+  temporal: { created: "2025-09-12T10:00:00.000Z" },
+  metadata: { source: "local" },
+  nodes: [
+    node("n0", "Saddle stitching works for thin zines.\nUse a long-reach stapler."),
+    node("n1", "Perfect binding needs glue and a spine."),
+    node("n2", "Stitching by hand takes longer."),
+  ],
+  concepts: {},
+  patterns: { float_dispatches: 0, ritual_invocations: 0, bridge_creates: 0, persona_switches: 0 },
+  edges: [],
+  transforms: { preferred_output: "zine", depth_level: 2 },
+};
+
+function reply(fragments: object[]): string {
+  return JSON.stringify(fragments.map(fragment => ({ relevance: "", keywords: [], category: "Binding", ...fragment })));
+}
+
+describe("extractFragments", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setLLMProvider(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it("anchors each excerpt to the text it quotes", async () => {
+    setLLMProvider(new FakeLLMProvider({
+      replies: {
+        sift: reply([
+          // Wrong offsets, quoted and cut with an ellipsis
+          { node_id: "n0", text: "\"...works for thin zines\"", start: 0, end: 4 },
+          // Claims the wrong node, and the line break became a space
+          { node_id: "n2", text: "thin zines. use a long-reach", category: "Tools" },
+          { node_id: "n1", text: "glue and a spine", start: 22, end: 38 },
+        ]),
+      },
+    }));
+
+    const { fragments, extractedBy } = await extractFragments(floatAst, "binding");
+    expect(extractedBy).toBe("fake");
+    expect(fragments.map(({ node_id, start, end, text, category }) => ({ node_id, start, end, text, category }))).toEqual([
+      { node_id: "n0", start: 17, end: 37, text: "works for thin zines", category: "Binding" },
+      { node_id: "n0", start: 27, end: 55, text: "thin zines.\nUse a long-reach", category: "Tools" },
+      { node_id: "n1", start: 22, end: 38, text: "glue and a spine", category: "Binding" },
+    ]);
+  });
+
+  it("drops excerpts that aren't in the conversation and repeats of the same span", async () => {
+    setLLMProvider(new FakeLLMProvider({
+      replies: {
+        sift: JSON.stringify({
+          fragments: [
+            { node_id: "n1", text: "needs glue" },
+            { node_id: "n1", text: "Needs glue" },
+            { node_id: "n1", text: "needs staples" },
+          ],
+        }),
+      },
+    }));
+
+    const { fragments } = await extractFragments(floatAst, "binding");
+    expect(fragments.map(fragment => fragment.text)).toEqual(["needs glue"]);
+    expect(fragments[0]).toMatchObject({ relevance: "", keywords: [], category: "General" });
+    expect(console.warn).toHaveBeenCalledWith('Dropping fragment not found in the conversation: "needs staples"');
+  });
+
+  it("sends an invalid reply back with the problem and retries", async () => {
+    const replies = ["Sure! Here are the fragments:", '[{"node_id":"n1"}]', reply([{ node_id: "n1", text: "a spine" }])];
+    const provider = new FakeLLMProvider({ replies: { sift: () => replies.shift()! } });
+    setLLMProvider(provider);
+
+    const { fragments } = await extractFragments(floatAst, "binding", 5);
+    expect(fragments.map(fragment => fragment.text)).toEqual(["a spine"]);
+    expect(provider.calls).toHaveLength(3);
+
+    const feedback = provider.calls[2].messages.filter(message => message.role === "user").slice(1);
+    expect(feedback.map(message => message.content)).toEqual([
+      "That reply was invalid (not valid JSON). Respond again with only the JSON array.",
+      "That reply was invalid (0.text: Required). Respond again with only the JSON array.",
+    ]);
+  });
+
+  it("falls back to keyword matching after the last failed attempt", async () => {
+    const provider = new FakeLLMProvider({ replies: { sift: "{}" } });
+    setLLMProvider(provider);
+
+    const { fragments, extractedBy } = await extractFragments(floatAst, "stitching", 5);
+    expect(provider.calls).toHaveLength(3);
+    expect(extractedBy).toBe("keyword");
+    expect(fragments.map(fragment => fragment.node_id)).toEqual(["n0", "n2"]);
+  });
+
+  it("falls back to keyword matching when the provider fails", async () => {
+    setLLMProvider(new FakeLLMProvider({
+      replies: {
+        sift: () => {
+          throw new Error("connection refused");
+        },
+      },
+    }));
+
+    const { fragments } = await extractFragments(floatAst, "glue", 5);
+    expect(fragments.map(fragment => fragment.node_id)).toEqual(["n1"]);
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+});
+
+describe("extractFragmentsManually", () => {
+  it("ranks whole messages by the query words they contain", () => {
+    const fragments = extractFragmentsManually(floatAst, "Stitching zines", 5);
+
+    expect(fragments.map(fragment => [fragment.node_id, fragment.keywords])).toEqual([
+      ["n0", ["stitching", "zines"]],
+      ["n2", ["stitching"]],
+    ]);
+    expect(fragments[0]).toMatchObject({ start: 0, end: floatAst.nodes[0].content.raw.length, relevance: "Contains 2 query terms" });
+    expect(extractFragmentsManually(floatAst, "Stitching zines", 1)).toHaveLength(1);
+  });
+});
+
+describe("saveFragments", () => {
+  it("stores new passages as pending and returns ones already saved as they are", async () => {
+    const record = await storage.createFloatAST("ast-save", { ...floatAst, id: "ast-save" });
+    const result: SiftResult = {
+      fragments: extractFragmentsManually(floatAst, "glue", 5),
+      extractedBy: "keyword",
+    };
+
+    const [first] = await saveFragments(record.id, "glue", result);
+    expect(first).toMatchObject({ floatAstId: "ast-save", nodeId: "n1", query: "glue", extractedBy: "keyword", status: "pending" });
+    await storage.updateFragment(first.id, { status: "starred" });
+
+    const [again] = await saveFragments(record.id, "glue again", result);
+    expect(again).toMatchObject({ id: first.id, status: "starred", query: "glue" });
+    expect(await storage.getFragments({ floatAstId: "ast-save" })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,256 @@
+import type { FloatAST, FloatNode, Fragment } from "@shared/schema";
+import { z } from "zod";
+import { llm, stripCodeFence, type LLMMessage } from "./llm";
+import { storage } from "./storage";
+
+// Attempts at a well-formed model reply before falling back to keywords
+const MAX_ATTEMPTS = 3;
+const MAX_MESSAGE_CHARS = 2000;
+
+// A passage of one node: content.raw.slice(start, end) === text
+export interface ExtractedFragment {
+  node_id: string;
+  start: number;
+  end: number;
+  text: string;
+  relevance: string;
+  keywords: string[];
+  category: string;
+}
+
+export interface SiftResult {
+  fragments: ExtractedFragment[];
+  // The model that found them, or "keyword" for the local fallback
+  extractedBy: string;
+}
+
+// What the model is asked for. Offsets are optional because models count
+// characters badly; they are checked and recomputed against the node.
+const aiFragmentSchema = z.object({
+  node_id: z.string().min(1),
+  text: z.string().min(1),
+  start: z.number().int().nonnegative().optional(),
+  end: z.number().int().nonnegative().optional(),
+  relevance: z.string().default(""),
+  keywords: z.array(z.string()).default([]),
+  category: z.string().default("General"),
+});
+
+const aiFragmentsSchema = z.array(aiFragmentSchema);
+
+type AIFragment = z.infer<typeof aiFragmentSchema>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Models like to quote excerpts or mark cuts with an ellipsis
+function cleanExcerpt(text: string): string {
+  return text.trim().replace(/^["'\u201c]|["'\u201d]$/g, "").replace(/^(?:\.\.\.|\u2026)\s*|\s*(?:\.\.\.|\u2026)$/g, "").trim();
+}
+
+// Where the excerpt sits in raw: the claimed offsets if they hold, else an
+// exact match, else a match ignoring case and whitespace differences
+function locate(raw: string, fragment: AIFragment, excerpt: string): { start: number; end: number } | undefined {
+  const { start, end } = fragment;
+  if (start !== undefined && end !== undefined && raw.slice(start, end) === excerpt) return { start, end };
+
+  const exact = raw.indexOf(excerpt);
+  if (exact >= 0) return { start: exact, end: exact + excerpt.length };
+
+  const words = excerpt.split(/\s+/).filter(Boolean);
+  const loose = raw.match(new RegExp(words.map(escapeRegExp).join("\\s+"), "i"));
+  if (loose?.index !== undefined) return { start: loose.index, end: loose.index + loose[0].length };
+  return undefined;
+}
+
+// Ties each model fragment to the text it quotes, trying the node it names
+// first. Fragments quoting text that isn't in the AST are dropped.
+function anchorFragments(floatAst: FloatAST, fragments: AIFragment[]): ExtractedFragment[] {
+  const anchored: ExtractedFragment[] = [];
+  const seen = new Set<string>();
+
+  for (const fragment of fragments) {
+    const excerpt = cleanExcerpt(fragment.text);
+    if (!excerpt) continue;
+
+    const claimed = floatAst.nodes.find(node => node.id === fragment.node_id);
+    const candidates = claimed ? [claimed, ...floatAst.nodes.filter(node => node !== claimed)] : floatAst.nodes;
+
+    let match: { node: FloatNode; start: number; end: number } | undefined;
+    for (const node of candidates) {
+      const span = locate(node.content.raw, fragment, excerpt);
+      if (span) {
+        match = { node, ...span };
+        break;
+      }
+    }
+    if (!match) {
+      console.warn(`Dropping fragment not found in the conversation: "${excerpt.slice(0, 60)}"`);
+      continue;
+    }
+
+    const key = `${match.node.id}:${match.start}:${match.end}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    anchored.push({
+      node_id: match.node.id,
+      start: match.start,
+      end: match.end,
+      text: match.node.content.raw.slice(match.start, match.end),
+      relevance: fragment.relevance,
+      keywords: fragment.keywords,
+      category: fragment.category,
+    });
+  }
+  return anchored;
+}
+
+function describeProblem(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join(".") || "reply"}: ${issue.message}`)
+    .join("; ");
+}
+
+// AI-powered fragment extraction using the configured LLM provider. Replies
+// that aren't valid JSON in the expected shape are sent back to the model
+// with the problem, up to MAX_ATTEMPTS; after that keyword matching is used.
+export async function extractFragments(floatAst: FloatAST, query: string, maxFragments: number = 10): Promise<SiftResult> {
+  const provider = llm();
+  const manual = (): SiftResult => ({
+    fragments: extractFragmentsManually(floatAst, query, maxFragments),
+    extractedBy: "keyword",
+  });
+  if (!provider) {
+    return manual();
+  }
+
+  const conversationText = floatAst.nodes
+    .map(node => `[${node.id}] ${node.author || "Unknown"}: ${node.content.raw.slice(0, MAX_MESSAGE_CHARS)}`)
+    .join('\n\n');
+
+  const prompt = `
+Analyze this conversation and extract up to ${maxFragments} meaningful fragments related to: "${query}"
+
+Each message starts with its node id in square brackets.
+
+Conversation:
+${conversationText}
+
+For each fragment, provide:
+- node_id: the id of the message it comes from
+- text: an excerpt copied exactly from that message, without the author name
+- start, end: character offsets of the excerpt within the message text
+- relevance: a brief explanation of its relevance to the query
+- keywords: keywords or concepts it contains
+- category: a suggested thread category
+
+Respond with only a JSON array of objects with these fields.
+`;
+
+  const messages: LLMMessage[] = [
+    {
+      role: "system",
+      content: "You are an expert at analyzing conversations and extracting meaningful insights. Focus on finding the most relevant and interesting fragments that relate to the user's query."
+    },
+    {
+      role: "user",
+      content: prompt
+    }
+  ];
+
+  try {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const content = await provider.complete({ operation: "sift", messages });
+
+      let problem: string;
+      try {
+        const reply = JSON.parse(stripCodeFence(content));
+        // Some models wrap the array: { "fragments": [...] }
+        const validation = aiFragmentsSchema.safeParse(Array.isArray(reply) ? reply : reply?.fragments ?? reply);
+        if (validation.success) {
+          return {
+            fragments: anchorFragments(floatAst, validation.data).slice(0, maxFragments),
+            extractedBy: provider.settings("sift").model,
+          };
+        }
+        problem = describeProblem(validation.error);
+      } catch (parseError) {
+        problem = "not valid JSON";
+      }
+
+      console.warn(`Fragment extraction attempt ${attempt} returned unexpected data: ${problem}`);
+      messages.push(
+        { role: "assistant", content },
+        { role: "user", content: `That reply was invalid (${problem}). Respond again with only the JSON array.` },
+      );
+    }
+    console.warn("AI response never matched the fragment schema, falling back to manual extraction");
+  } catch (error) {
+    console.error(`Error with ${provider.name}:`, error);
+  }
+  return manual();
+}
+
+// Fallback manual fragment extraction: whole messages ranked by how many
+// query words they contain
+export function extractFragmentsManually(floatAst: FloatAST, query: string, maxFragments: number): ExtractedFragment[] {
+  const queryWords = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const fragments: (ExtractedFragment & { score: number })[] = [];
+
+  for (const node of floatAst.nodes) {
+    const text = node.content.raw.toLowerCase();
+    const relevanceScore = queryWords.reduce((score, word) => {
+      return text.includes(word) ? score + 1 : score;
+    }, 0);
+
+    if (relevanceScore > 0) {
+      fragments.push({
+        node_id: node.id,
+        start: 0,
+        end: node.content.raw.length,
+        text: node.content.raw,
+        relevance: `Contains ${relevanceScore} query terms`,
+        keywords: queryWords.filter(word => text.includes(word)),
+        category: "General",
+        score: relevanceScore,
+      });
+    }
+  }
+
+  return fragments
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxFragments)
+    .map(({ score, ...fragment }) => fragment);
+}
+
+// Stores sift results as pending fragments. A passage that was already
+// saved for this FloatAST is returned as-is, keeping its curation status.
+export async function saveFragments(floatAstId: string, query: string, result: SiftResult, userId?: string): Promise<Fragment[]> {
+  const existing = await storage.getFragments({ floatAstId });
+  const saved: Fragment[] = [];
+
+  for (const fragment of result.fragments) {
+    const match = existing.find(f => f.nodeId === fragment.node_id && f.start === fragment.start && f.end === fragment.end);
+    if (match) {
+      saved.push(match);
+      continue;
+    }
+    saved.push(await storage.createFragment({
+      floatAstId,
+      nodeId: fragment.node_id,
+      start: fragment.start,
+      end: fragment.end,
+      text: fragment.text,
+      relevance: fragment.relevance,
+      keywords: fragment.keywords,
+      category: fragment.category,
+      query,
+      extractedBy: result.extractedBy,
+      userId: userId || null,
+    }));
+  }
+  return saved;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parseChatGPTExport } from "./chatgpt";
+
+function node(id: string, parent: string | null, children: string[], role?: string, text?: string) {
+  return {
+    id,
+    parent,
+    children,
+    message: role
+      ? { id: `m-${id}`, author: { role }, create_time: 1757671200, content: { content_type: "text", parts: [text ?? id] } }
+      : null,
+  };
+}
+
+// root -> system -> question -> first reply (regenerated as second reply)
+function chat(overrides: Record<string, unknown> = {}) {
+  return {
+    conversation_id: "c1",
+    title: "Plans",
+    create_time: 1757671200,
+    mapping: {
+      root: node("root", null, ["sys"]),
+      sys: node("sys", "root", ["q"], "system", " "),
+      q: node("q", "sys", ["a1", "a2"], "user", "What next?"),
+      a1: node("a1", "q", ["f1"], "assistant", "First try"),
+      f1: node("f1", "a1", [], "user", "Hmm"),
+      a2: node("a2", "q", [], "assistant", "Second try"),
+    },
+    current_node: "a2",
+    ...overrides,
+  };
+}
+
+describe("parseChatGPTExport", () => {
+  it("follows current_node and keeps other branches as alternates", () => {
+    const [conversation] = parseChatGPTExport([chat()]);
+    expect(conversation).toMatchObject({ externalId: "c1", title: "Plans", source: "chatgpt" });
+    expect(conversation.messages.map(message => [message.author, message.text])).toEqual([
+      ["User", "What next?"],
+      ["ChatGPT", "Second try"],
+    ]);
+    expect(conversation.messages[1].alternates?.map(alternate => [alternate.text, alternate.depth, alternate.parentExternalId])).toEqual([
+      ["First try", 1, "m-q"],
+      ["Hmm", 2, "m-a1"],
+    ]);
+  });
+
+  it("follows the newest child when there is no current_node", () => {
+    const [conversation] = parseChatGPTExport({ conversations: [chat({ current_node: undefined })] });
+    expect(conversation.messages.map(message => message.text)).toEqual(["What next?", "Second try"]);
+  });
+
+  it("rejects a parent cycle", () => {
+    const data = chat();
+    data.mapping.root.parent = "q";
+    expect(() => parseChatGPTExport([data])).toThrow('Conversation "Plans" has a cycle');
+  });
+
+  it("rejects a child link back into the conversation", () => {
+    const data = chat();
+    data.mapping.f1.children = ["q"];
+    expect(() => parseChatGPTExport([data])).toThrow("has a cycle at node q");
+  });
+
+  it("rejects exports that don't match the schema", () => {
+    expect(() => parseChatGPTExport({ chats: [] })).toThrow();
+  });
+});
@@ -0,0 +1,228 @@
+import { z } from "zod";
+import type { ImportedAlternate, ImportedConversation, ImportedMessage } from "./index";
+
+// The parts of an OpenAI data export (conversations.json) we read. Exports
+// carry many more fields; unknown keys pass through untouched.
+const chatGPTMessageSchema = z.object({
+  id: z.string(),
+  author: z.object({
+    role: z.string(),
+    name: z.string().nullish(),
+  }).passthrough(),
+  create_time: z.number().nullish(),
+  content: z.object({
+    content_type: z.string(),
+    parts: z.array(z.unknown()).optional(),
+    text: z.string().optional(),
+    result: z.string().optional(),
+    language: z.string().optional(),
+  }).passthrough(),
+  metadata: z.record(z.unknown()).nullish(),
+}).passthrough();
+
+const chatGPTNodeSchema = z.object({
+  id: z.string(),
+  message: chatGPTMessageSchema.nullish(),
+  parent: z.string().nullish(),
+  children: z.array(z.string()).default([]),
+}).passthrough();
+
+const chatGPTConversationSchema = z.object({
+  id: z.string().optional(),
+  conversation_id: z.string().optional(),
+  title: z.string().nullish(),
+  create_time: z.number().nullish(),
+  update_time: z.number().nullish(),
+  mapping: z.record(chatGPTNodeSchema),
+  current_node: z.string().nullish(),
+}).passthrough();
+
+export const chatGPTExportSchema = z.union([
+  z.array(chatGPTConversationSchema),
+  z.object({ conversations: z.array(chatGPTConversationSchema) }).transform(data => data.conversations),
+]);
+
+type ChatGPTConversation = z.infer<typeof chatGPTConversationSchema>;
+type ChatGPTNode = z.infer<typeof chatGPTNodeSchema>;
+type ChatGPTMessage = z.infer<typeof chatGPTMessageSchema>;
+
+// Internal content types that never show up in the ChatGPT UI
+const HIDDEN_CONTENT_TYPES = new Set([
+  "user_editable_context",
+  "model_editable_context",
+  "thoughts",
+  "reasoning_recap",
+]);
+
+function toISO(seconds?: number | null): string | undefined {
+  return typeof seconds === "number" ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+function messageText(message: ChatGPTMessage): string {
+  const { content } = message;
+  if (content.content_type === "code" && content.text !== undefined) {
+    return "```" + (content.language && content.language !== "unknown" ? content.language : "") + "\n" + content.text + "\n```";
+  }
+  if (content.parts) {
+    return content.parts
+      .map(part => {
+        if (typeof part === "string") return part;
+        if (part && typeof part === "object" && "content_type" in part) {
+          return (part as { content_type: string }).content_type === "image_asset_pointer" ? "[image]" : "";
+        }
+        return "";
+      })
+      .filter(Boolean)
+      .join("\n");
+  }
+  return content.text ?? content.result ?? "";
+}
+
+function isVisible(message: ChatGPTMessage | null | undefined): message is ChatGPTMessage {
+  if (!message) return false;
+  if (HIDDEN_CONTENT_TYPES.has(message.content.content_type)) return false;
+  if (message.metadata?.is_visually_hidden_from_conversation) return false;
+  return messageText(message).trim().length > 0;
+}
+
+function toImportedMessage(message: ChatGPTMessage, fallbackTime?: string): ImportedMessage {
+  const role = message.author.role;
+  const modelSlug = message.metadata?.model_slug;
+  return {
+    externalId: message.id,
+    author:
+      role === "user" ? "User"
+      : role === "assistant" ? "ChatGPT"
+      : role === "tool" ? message.author.name || "Tool"
+      : "System",
+    role: role === "user" ? "human" : role === "assistant" ? "assistant" : "system",
+    text: messageText(message),
+    createdAt: toISO(message.create_time) || fallbackTime,
+    meta: {
+      content_type: message.content.content_type,
+      ...(typeof modelSlug === "string" ? { model: modelSlug } : {}),
+    },
+  };
+}
+
+// The mapping comes from an uploaded file, so every walk over it marks the
+// nodes it has been through: a parent or child link back to one of them
+// would otherwise loop forever. Thrown errors make the import a 400.
+function visit(chat: ChatGPTConversation, seen: Set<string>, id: string) {
+  if (seen.has(id)) {
+    throw new Error(`Conversation "${chat.title || chat.conversation_id || chat.id}" has a cycle at node ${id}`);
+  }
+  seen.add(id);
+}
+
+// The thread the user last saw: walk parents up from current_node. Older
+// exports without current_node follow the newest child from the root.
+function mainPath(chat: ChatGPTConversation): string[] {
+  const { mapping } = chat;
+  const seen = new Set<string>();
+  if (chat.current_node && mapping[chat.current_node]) {
+    const path: string[] = [];
+    let id: string | null | undefined = chat.current_node;
+    while (id && mapping[id]) {
+      visit(chat, seen, id);
+      path.unshift(id);
+      id = mapping[id].parent;
+    }
+    return path;
+  }
+
+  const root = Object.values(mapping).find(node => !node.parent || !mapping[node.parent]);
+  const path: string[] = [];
+  let node: ChatGPTNode | undefined = root;
+  while (node) {
+    visit(chat, seen, node.id);
+    path.push(node.id);
+    const next: string | undefined = node.children[node.children.length - 1];
+    node = next ? mapping[next] : undefined;
+  }
+  return path;
+}
+
+// Nearest ancestor that produced an imported message, skipping hidden ones
+function visibleAncestor(chat: ChatGPTConversation, id: string | null | undefined): string | undefined {
+  const seen = new Set<string>();
+  while (id && chat.mapping[id]) {
+    visit(chat, seen, id);
+    const node = chat.mapping[id];
+    if (isVisible(node.message)) return node.message.id;
+    id = node.parent;
+  }
+  return undefined;
+}
+
+// Depth-first walk of a branch that left the main thread. Iterative, so a
+// long branch can't overflow the stack; `seen` is shared by all branches of
+// a chat since no node belongs to two of them.
+function collectBranch(
+  chat: ChatGPTConversation,
+  id: string,
+  depth: number,
+  fallbackTime: string | undefined,
+  seen: Set<string>,
+  out: ImportedAlternate[],
+) {
+  const stack: { id: string; depth: number }[] = [{ id, depth }];
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    const node = chat.mapping[next.id];
+    if (!node) continue;
+    visit(chat, seen, node.id);
+    let childDepth = next.depth;
+    if (isVisible(node.message)) {
+      out.push({
+        ...toImportedMessage(node.message, fallbackTime),
+        depth: next.depth,
+        parentExternalId: visibleAncestor(chat, node.parent),
+      });
+      childDepth = next.depth + 1;
+    }
+    // Reversed so children come off the stack in export order
+    for (let i = node.children.length - 1; i >= 0; i--) {
+      stack.push({ id: node.children[i], depth: childDepth });
+    }
+  }
+}
+
+export function parseChatGPTExport(data: unknown): ImportedConversation[] {
+  const chats = chatGPTExportSchema.parse(data);
+
+  return chats.map(chat => {
+    const createdAt = toISO(chat.create_time);
+    const path = mainPath(chat);
+    const onPath = new Set(path);
+    // Branches can't lead back onto the main thread either
+    const seen = new Set(path);
+    const messages: ImportedConversation["messages"] = [];
+
+    path.forEach((id, step) => {
+      const node = chat.mapping[id];
+      if (!isVisible(node.message)) return;
+
+      // Siblings of this node that weren't chosen are regenerations or edits
+      const alternates: ImportedAlternate[] = [];
+      const parent = node.parent ? chat.mapping[node.parent] : undefined;
+      for (const sibling of parent?.children || []) {
+        if (!onPath.has(sibling)) collectBranch(chat, sibling, 1, createdAt, seen, alternates);
+      }
+
+      messages.push({
+        ...toImportedMessage(node.message, createdAt),
+        ...(alternates.length > 0 ? { alternates } : {}),
+      });
+    });
+
+    return {
+      externalId: chat.conversation_id || chat.id,
+      title: chat.title || "Untitled ChatGPT conversation",
+      source: "chatgpt",
+      createdAt,
+      updatedAt: toISO(chat.update_time),
+      messages,
+    };
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { parseClaudeExport } from "./claude";
+
+describe("parseClaudeExport", () => {
+  it("turns inline artifacts into child nodes with a placeholder", () => {
+    const [conversation] = parseClaudeExport({
+      uuid: "c1",
+      name: "Widget",
+      created_at: "2025-09-12T10:00:00Z",
+      chat_messages: [
+        { uuid: "m1", sender: "human", text: "Make a widget" },
+        {
+          uuid: "m2",
+          sender: "assistant",
+          text: 'Here:\n<antArtifact identifier="w" type="application/vnd.ant.code" title="Widget" language="ts">\nexport {}\n</antArtifact>',
+        },
+      ],
+    });
+
+    expect(conversation).toMatchObject({ externalId: "c1", title: "Widget", source: "claude" });
+    expect(conversation.messages.map(message => [message.externalId, message.type, message.text])).toEqual([
+      ["m1", undefined, "Make a widget"],
+      ["m2", undefined, "Here:\n[artifact: Widget]"],
+      ["m2:artifact:0", "artifact", "export {}"],
+    ]);
+    expect(conversation.messages[2]).toMatchObject({ depth: 1, parentExternalId: "m2", createdAt: "2025-09-12T10:00:00Z" });
+  });
+
+  it("reads artifacts from tool_use content blocks and keeps attachments", () => {
+    const [conversation] = parseClaudeExport([{
+      uuid: "c2",
+      chat_messages: [
+        {
+          uuid: "m1",
+          sender: "human",
+          text: "",
+          attachments: [{ file_name: "notes.txt", extracted_content: "the notes" }],
+        },
+        {
+          uuid: "m2",
+          sender: "assistant",
+          content: [
+            { type: "text", text: "Done." },
+            { type: "tool_use", name: "artifacts", input: { id: "doc", title: "Doc", content: "# Doc" } },
+          ],
+        },
+      ],
+    }]);
+
+    expect(conversation.title).toBe("Untitled Claude conversation");
+    expect(conversation.messages.map(message => [message.author, message.text])).toEqual([
+      ["Human", ""],
+      ["Human", "the notes"],
+      ["Claude", "Done.\n\n[artifact: Doc]"],
+      ["Claude", "# Doc"],
+    ]);
+  });
+
+  it("drops messages with no text and nothing attached", () => {
+    const [conversation] = parseClaudeExport({ uuid: "c3", chat_messages: [{ uuid: "m1", sender: "human", text: "  " }] });
+    expect(conversation.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import type { ImportedConversation, ImportedMessage } from "./index";
+
+// The parts of a Claude account export (conversations.json) we read
+const claudeContentSchema = z.object({
+  type: z.string(),
+  text: z.string().optional(),
+  name: z.string().optional(),
+  input: z.record(z.unknown()).optional(),
+}).passthrough();
+
+const claudeAttachmentSchema = z.object({
+  file_name: z.string().optional(),
+  file_type: z.string().optional(),
+  file_size: z.number().optional(),
+  extracted_content: z.string().optional(),
+}).passthrough();
+
+const claudeMessageSchema = z.object({
+  uuid: z.string(),
+  sender: z.string(),
+  text: z.string().optional(),
+  content: z.array(claudeContentSchema).optional(),
+  created_at: z.string().optional(),
+  attachments: z.array(claudeAttachmentSchema).default([]),
+  files: z.array(claudeAttachmentSchema).default([]),
+}).passthrough();
+
+const claudeConversationSchema = z.object({
+  uuid: z.string(),
+  name: z.string().nullish(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  chat_messages: z.array(claudeMessageSchema),
+}).passthrough();
+
+export const claudeExportSchema = z.union([
+  z.array(claudeConversationSchema),
+  claudeConversationSchema.transform(chat => [chat]),
+]);
+
+type ClaudeMessage = z.infer<typeof claudeMessageSchema>;
+
+interface ArtifactPayload {
+  kind: "artifact";
+  identifier?: string;
+  type?: string;
+  title?: string;
+  language?: string;
+  command?: string;
+  content: string;
+  [key: string]: unknown;
+}
+
+// Older exports inline artifacts in the message text
+const ANT_ARTIFACT = /<antArtifact\b([^>]*)>([\s\S]*?)<\/antArtifact>/g;
+const ATTRIBUTE = /(\w+)="([^"]*)"/g;
+
+function artifactPlaceholder(artifact: ArtifactPayload): string {
+  return `[artifact: ${artifact.title || artifact.identifier || "untitled"}]`;
+}
+
+function extractInlineArtifacts(text: string): { text: string; artifacts: ArtifactPayload[] } {
+  const artifacts: ArtifactPayload[] = [];
+  const stripped = text.replace(ANT_ARTIFACT, (_match, attributes: string, body: string) => {
+    const attrs: Record<string, string> = {};
+    for (const [, key, value] of Array.from(attributes.matchAll(ATTRIBUTE))) attrs[key] = value;
+    const artifact: ArtifactPayload = {
+      kind: "artifact",
+      identifier: attrs.identifier,
+      type: attrs.type,
+      title: attrs.title,
+      language: attrs.language,
+      content: body.replace(/^\n/, "").replace(/\n$/, ""),
+    };
+    artifacts.push(artifact);
+    return artifactPlaceholder(artifact);
+  });
+  return { text: stripped, artifacts };
+}
+
+// Newer exports carry artifacts as "artifacts" tool calls in content blocks
+function messageBody(message: ClaudeMessage): { text: string; artifacts: ArtifactPayload[] } {
+  if (!message.content?.length) {
+    return extractInlineArtifacts(message.text || "");
+  }
+
+  const parts: string[] = [];
+  const artifacts: ArtifactPayload[] = [];
+  for (const block of message.content) {
+    if (block.type === "text" && block.text) {
+      const inline = extractInlineArtifacts(block.text);
+      parts.push(inline.text);
+      artifacts.push(...inline.artifacts);
+    } else if (block.type === "tool_use" && block.name === "artifacts" && block.input) {
+      const input = block.input as Record<string, unknown>;
+      const artifact: ArtifactPayload = {
+        ...input,
+        kind: "artifact",
+        identifier: input.id as string | undefined,
+        content: (input.content ?? input.new_str ?? "") as string,
+      };
+      artifacts.push(artifact);
+      parts.push(artifactPlaceholder(artifact));
+    }
+  }
+  return { text: parts.join("\n\n"), artifacts };
+}
+
+function toMessages(message: ClaudeMessage, fallbackTime?: string): ImportedMessage[] {
+  const isHuman = message.sender === "human";
+  const author = isHuman ? "Human" : "Claude";
+  const role = isHuman ? "human" : "assistant";
+  const createdAt = message.created_at || fallbackTime;
+  const { text, artifacts } = messageBody(message);
+
+  const children: ImportedMessage[] = [];
+  artifacts.forEach((artifact, index) => {
+    children.push({
+      externalId: `${message.uuid}:artifact:${index}`,
+      author,
+      role,
+      type: "artifact",
+      text: artifact.content,
+      structured: artifact,
+      createdAt,
+      depth: 1,
+      parentExternalId: message.uuid,
+      meta: { title: artifact.title },
+    });
+  });
+
+  // Attachments carry extracted text; bare files only their name
+  [...message.attachments, ...message.files].forEach((attachment, index) => {
+    children.push({
+      externalId: `${message.uuid}:attachment:${index}`,
+      author,
+      role,
+      type: "artifact",
+      text: attachment.extracted_content || attachment.file_name || "",
+      structured: { kind: "attachment", ...attachment },
+      createdAt,
+      depth: 1,
+      parentExternalId: message.uuid,
+      meta: { title: attachment.file_name },
+    });
+  });
+
+  if (!text.trim() && children.length === 0) return [];
+
+  return [
+    {
+      externalId: message.uuid,
+      author,
+      role,
+      text,
+      createdAt,
+    },
+    ...children,
+  ];
+}
+
+export function parseClaudeExport(data: unknown): ImportedConversation[] {
+  const chats = claudeExportSchema.parse(data);
+
+  return chats.map(chat => ({
+    externalId: chat.uuid,
+    title: chat.name || "Untitled Claude conversation",
+    source: "claude",
+    createdAt: chat.created_at,
+    updatedAt: chat.updated_at,
+    messages: chat.chat_messages.flatMap(message => toMessages(message, chat.created_at)),
+  }));
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseDiscordExport } from "./discord";
+
+describe("parseDiscordExport", () => {
+  it("reads DiscordChatExporter JSON with mentions, files and replies", () => {
+    const [conversation] = parseDiscordExport({
+      guild: { name: "Float" },
+      channel: { name: "zines" },
+      messages: [
+        { id: "1", type: "GuildMemberJoin", timestamp: "2025-09-12T09:59:00Z", content: "", author: { id: "102", name: "ben" } },
+        {
+          id: "2",
+          timestamp: "2025-09-12T10:00:00Z",
+          content: "Hey <@102>",
+          author: { id: "101", name: "ana", nickname: "Ana" },
+          mentions: [{ id: "102", name: "ben" }],
+          attachments: [{ fileName: "draft.pdf" }],
+        },
+        {
+          id: "3",
+          type: "Reply",
+          timestamp: "2025-09-12T10:01:00+02:00",
+          content: "Looks good",
+          author: { id: "103", name: "Helper", isBot: true },
+          reference: { messageId: "2" },
+        },
+      ],
+    });
+
+    expect(conversation).toMatchObject({ title: "Float #zines", source: "discord" });
+    expect(conversation.messages.map(message => [message.author, message.role, message.text, message.createdAt])).toEqual([
+      ["Ana", "human", "Hey @ben\n[file: draft.pdf]", "2025-09-12T10:00:00.000Z"],
+      ["Helper", "system", "Looks good", "2025-09-12T08:01:00.000Z"],
+    ]);
+    expect(conversation.messages[1].parentExternalId).toBe("2");
+  });
+
+  it("returns nothing for a channel without conversation", () => {
+    expect(parseDiscordExport({ messages: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import type { ImportedConversation, ImportedMessage } from "./index";
+import { createPersonaMap, speakerRole } from "./personas";
+
+// JSON written by DiscordChatExporter, one file per channel. Discord's own
+// data package only contains your side of a conversation.
+const discordAuthorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  nickname: z.string().nullish(),
+  isBot: z.boolean().default(false),
+}).passthrough();
+
+const discordMessageSchema = z.object({
+  id: z.string(),
+  type: z.string().default("Default"),
+  timestamp: z.string(),
+  content: z.string().default(""),
+  author: discordAuthorSchema,
+  attachments: z.array(z.object({ fileName: z.string().optional() }).passthrough()).default([]),
+  mentions: z.array(discordAuthorSchema.partial().extend({ id: z.string() })).default([]),
+  reference: z.object({ messageId: z.string().nullish() }).passthrough().nullish(),
+}).passthrough();
+
+export const discordExportSchema = z.object({
+  guild: z.object({ name: z.string().optional() }).passthrough().optional(),
+  channel: z.object({ name: z.string().optional(), category: z.string().nullish() }).passthrough().optional(),
+  messages: z.array(discordMessageSchema),
+}).passthrough();
+
+// Joins, pins and thread announcements are system events
+const CONVERSATION_TYPES = new Set(["Default", "Reply"]);
+
+export function parseDiscordExport(data: unknown): ImportedConversation[] {
+  const { guild, channel, messages } = discordExportSchema.parse(data);
+  const personaFor = createPersonaMap("discord");
+
+  const imported: ImportedMessage[] = messages
+    .filter(message => CONVERSATION_TYPES.has(message.type))
+    .flatMap(message => {
+      const mentions = new Map(message.mentions.map(user => [user.id, user.nickname || user.name || user.id]));
+      const content = message.content.replace(/<@!?(\d+)>/g, (_match, id: string) => `@${mentions.get(id) || id}`);
+      const files = message.attachments.map(file => `[file: ${file.fileName || "attachment"}]`);
+      const text = [content, ...files].filter(Boolean).join("\n");
+      if (!text.trim()) return [];
+
+      const { author } = message;
+      const name = author.nickname || author.name;
+      const role = speakerRole(name, author.isBot);
+      const replyTo = message.reference?.messageId;
+
+      return [{
+        externalId: message.id,
+        author: name,
+        role,
+        persona: personaFor(author.id, name, role),
+        text,
+        createdAt: new Date(message.timestamp).toISOString(),
+        ...(replyTo ? { parentExternalId: replyTo } : {}),
+        meta: { platform_user: author.id },
+      }];
+    });
+
+  if (imported.length === 0) return [];
+
+  const channelName = channel?.name ? `#${channel.name}` : "Discord channel";
+  return [{
+    title: guild?.name ? `${guild.name} ${channelName}` : channelName,
+    source: "discord",
+    createdAt: imported[0].createdAt,
+    updatedAt: imported[imported.length - 1].createdAt,
+    messages: imported,
+  }];
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { parseGeminiExport } from "./gemini";
+import { contentHash } from "./index";
+
+function record(time: string, prompt: string, reply?: string) {
+  return {
+    header: "Gemini Apps",
+    title: `Prompted ${prompt}`,
+    time,
+    ...(reply ? { safeHtmlItem: [{ html: `<p>${reply}</p>` }] } : {}),
+  };
+}
+
+describe("parseGeminiExport", () => {
+  it("groups activity records into sessions split by a 30 minute gap", () => {
+    const conversations = parseGeminiExport([
+      record("2025-09-12T11:00:00Z", "Much later", "Later reply"),
+      record("2025-09-12T10:00:00Z", "First question", "First reply"),
+      record("2025-09-12T10:20:00Z", "Follow up"),
+      { header: "Gemini Apps", title: "Used an extension", time: "2025-09-12T10:21:00Z" },
+    ]);
+
+    expect(conversations.map(conversation => [conversation.title, conversation.createdAt, conversation.updatedAt])).toEqual([
+      ["First question", "2025-09-12T10:00:00.000Z", "2025-09-12T10:20:00.000Z"],
+      ["Much later", "2025-09-12T11:00:00.000Z", "2025-09-12T11:00:00.000Z"],
+    ]);
+    expect(conversations[0].messages.map(message => [message.author, message.text])).toEqual([
+      ["User", "First question"],
+      ["Gemini", "First reply"],
+      ["User", "Follow up"],
+    ]);
+  });
+
+  it("reads a MyActivity.html upload", () => {
+    const cell = (prompt: string, date: string, reply: string) =>
+      `<div class="outer-cell mdl-cell"><div class="content-cell mdl-cell">Prompted ${prompt}<br>${date}<br><p>${reply}</p></div><div class="content-cell mdl-cell"></div></div>`;
+    const html = `<html><body>${cell("Tom &amp; Jerry?", "Sep 12, 2025, 10:00:00 AM UTC", "A cartoon.")}</body></html>`;
+
+    const [conversation] = parseGeminiExport({ content: html, filename: "MyActivity.html" });
+    expect(conversation.messages.map(message => message.text)).toEqual(["Tom & Jerry?", "A cartoon."]);
+    expect(conversation.createdAt).toBe("2025-09-12T10:00:00.000Z");
+  });
+
+  it("recognizes a session that gained records in a later export", () => {
+    const first = [record("2025-09-12T10:00:00Z", "First question", "First reply"), record("2025-09-12T11:00:00Z", "Much later")];
+    const later = [...first, record("2025-09-12T10:20:00Z", "Follow up"), record("2025-09-12T10:25:00Z", "And then")];
+
+    const before = parseGeminiExport(first);
+    const after = parseGeminiExport(later);
+    expect(after[0].messages).toHaveLength(4);
+    expect(after.map(contentHash)).toEqual(before.map(contentHash));
+
+    const earlier = parseGeminiExport([record("2025-09-12T09:50:00Z", "First question"), ...first]);
+    expect(contentHash(earlier[0])).not.toBe(contentHash(before[0]));
+  });
+
+  it("truncates long titles", () => {
+    const [conversation] = parseGeminiExport([record("2025-09-12T10:00:00Z", "x".repeat(80))]);
+    expect(conversation.title).toBe(`${"x".repeat(57)}...`);
+  });
+});
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import type { ImportedConversation, ImportedMessage } from "./index";
+import { decodeEntities, htmlToText } from "./html";
+
+// Google Takeout "My Activity" records for Gemini Apps (formerly Bard).
+// Takeout has no notion of chats: each record is one prompt and its reply.
+const activityRecordSchema = z.object({
+  header: z.string().optional(),
+  title: z.string(),
+  time: z.string(),
+  safeHtmlItem: z.array(z.object({ html: z.string() }).passthrough()).optional(),
+}).passthrough();
+
+const textUploadSchema = z.object({
+  content: z.string(),
+  filename: z.string().optional(),
+});
+
+export const geminiExportSchema = z.union([
+  z.array(activityRecordSchema),
+  textUploadSchema,
+]);
+
+interface Exchange {
+  time: string;
+  prompt: string;
+  response?: string;
+}
+
+// Records further apart than this start a new conversation
+const SESSION_GAP_MS = 30 * 60 * 1000;
+
+const PROMPT_PREFIX = /^Prompted\s+/;
+
+function fromActivityRecords(records: z.infer<typeof activityRecordSchema>[]): Exchange[] {
+  return records
+    .filter(record => PROMPT_PREFIX.test(record.title))
+    .map(record => ({
+      time: new Date(record.time).toISOString(),
+      prompt: record.title.replace(PROMPT_PREFIX, "").trim(),
+      response: record.safeHtmlItem?.[0] ? htmlToText(record.safeHtmlItem[0].html) : undefined,
+    }));
+}
+
+// MyActivity.html: each outer-cell holds "Prompted <prompt><br><date><br><reply html>"
+function fromActivityHtml(html: string): Exchange[] {
+  const exchanges: Exchange[] = [];
+  const cells = html.split(/<div class="outer-cell/).slice(1);
+
+  for (const cell of cells) {
+    const body = cell.match(/<div class="content-cell[^"]*">([\s\S]*?)<\/div>\s*<div class="content-cell/)?.[1];
+    if (!body) continue;
+
+    const [promptHtml, dateHtml, ...rest] = body.split(/<br\s*\/?>/i);
+    const prompt = decodeEntities(promptHtml.replace(/<[^>]+>/g, "")).replace(/[\u00a0\u202f]/g, " ").trim();
+    if (!PROMPT_PREFIX.test(prompt)) continue;
+
+    const date = new Date(decodeEntities(dateHtml || "").replace(/[\u00a0\u202f]/g, " ").trim());
+    if (isNaN(date.getTime())) continue;
+
+    const response = htmlToText(rest.join("<br>"));
+    exchanges.push({
+      time: date.toISOString(),
+      prompt: prompt.replace(PROMPT_PREFIX, "").trim(),
+      response: response || undefined,
+    });
+  }
+  return exchanges;
+}
+
+function toSessions(exchanges: Exchange[]): Exchange[][] {
+  const sorted = [...exchanges].sort((a, b) => a.time.localeCompare(b.time));
+  const sessions: Exchange[][] = [];
+  let previous: number | undefined;
+
+  for (const exchange of sorted) {
+    const time = new Date(exchange.time).getTime();
+    if (previous === undefined || time - previous > SESSION_GAP_MS) {
+      sessions.push([]);
+    }
+    sessions[sessions.length - 1].push(exchange);
+    previous = time;
+  }
+  return sessions;
+}
+
+function sessionTitle(session: Exchange[]): string {
+  const prompt = session[0].prompt.replace(/\s+/g, " ");
+  return prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt;
+}
+
+export function parseGeminiExport(data: unknown): ImportedConversation[] {
+  const parsed = geminiExportSchema.parse(data);
+
+  let exchanges: Exchange[];
+  if (Array.isArray(parsed)) {
+    exchanges = fromActivityRecords(parsed);
+  } else if (parsed.content.trimStart().startsWith("[")) {
+    exchanges = fromActivityRecords(z.array(activityRecordSchema).parse(JSON.parse(parsed.content)));
+  } else {
+    exchanges = fromActivityHtml(parsed.content);
+  }
+
+  return toSessions(exchanges).map(session => {
+    const messages: ImportedMessage[] = session.flatMap(exchange => [
+      { author: "User", role: "human" as const, text: exchange.prompt, createdAt: exchange.time },
+      ...(exchange.response
+        ? [{ author: "Gemini", role: "assistant" as const, text: exchange.response, createdAt: exchange.time }]
+        : []),
+    ]);
+
+    return {
+      title: sessionTitle(session),
+      source: "gemini",
+      // A later export can add records to the end of a session, so the
+      // session is recognized by its first prompt rather than its messages
+      dedupKey: `${session[0].time} ${session[0].prompt}`,
+      createdAt: session[0].time,
+      updatedAt: session[session.length - 1].time,
+      messages,
+    };
+  });
+}
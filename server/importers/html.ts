@@ -0,0 +1,40 @@
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Flatten the HTML found in exports into transcript text: block elements
+// become line breaks, list items "- " bullets and <pre> blocks code fences.
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/\r\n?/g, "\n")
+    .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_match, code: string) =>
+      "\n```\n" + code.replace(/<[^>]+>/g, "") + "\n```\n",
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|h[1-6]|ul|ol|blockquote|table|tr)>/gi, "\n")
+    .replace(/<(p|div|h[1-6]|ul|ol|blockquote|table|tr)[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map(line => line.replace(/[ \t]+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
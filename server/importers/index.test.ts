@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { parseConversation } from "@shared/parser";
+import { storage } from "../storage";
+import { contentHash, importedToFloatAST, saveImportedConversations, type ImportedConversation } from "./index";
+
+function conversation(overrides: Partial<ImportedConversation> = {}): ImportedConversation {
+  return {
+    externalId: "c1",
+    title: "Roadmap",
+    source: "chatgpt",
+    createdAt: "2025-09-12T10:00:00.000Z",
+    messages: [
+      { externalId: "m1", author: "User", role: "human", text: "Plan the week", createdAt: "2025-09-12T10:00:00.000Z" },
+      {
+        externalId: "m2",
+        author: "ChatGPT",
+        role: "assistant",
+        text: "Ship on Friday.\nMain goal: ship\n\nNote: test first",
+        createdAt: "2025-09-12T10:01:00.000Z",
+        alternates: [{ externalId: "m3", author: "ChatGPT", role: "assistant", text: "Rest", depth: 1, parentExternalId: "m1" }],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("contentHash", () => {
+  it("ignores export ids and titles but not what was said", () => {
+    const hash = contentHash(conversation());
+    expect(contentHash(conversation({ externalId: "other", title: "Renamed" }))).toBe(hash);
+    expect(contentHash(conversation({ source: "claude" }))).not.toBe(hash);
+    expect(contentHash(conversation({ messages: conversation().messages.slice(0, 1) }))).not.toBe(hash);
+  });
+
+  it("hashes the dedup key instead of the messages when there is one", () => {
+    const keyed = contentHash(conversation({ dedupKey: "session-1" }));
+    expect(keyed).not.toBe(contentHash(conversation()));
+    expect(contentHash(conversation({ dedupKey: "session-1", messages: [] }))).toBe(keyed);
+    expect(contentHash(conversation({ dedupKey: "session-2" }))).not.toBe(keyed);
+  });
+});
+
+describe("importedToFloatAST", () => {
+  it("stores a transcript that parses back into the same turns", () => {
+    const { floatAst, content } = importedToFloatAST(conversation());
+    const { transcript_speakers: speakers, dialect } = floatAst.metadata;
+    expect(speakers).toEqual(["User", "ChatGPT"]);
+    expect(dialect).toBe("timestamped");
+    const parsed = parseConversation(content, { dialect, speakers });
+
+    expect(parsed.dialect).toBe("timestamped");
+    expect(parsed.nodes.map(node => node.content.raw)).toEqual(["Plan the week", "Ship on Friday.\nMain goal: ship\n\nNote: test first"]);
+    expect(floatAst.nodes.map(node => node.source)).toEqual(parsed.nodes.map(node => node.source));
+  });
+
+  it("hangs alternates off the message they replace", () => {
+    const { floatAst } = importedToFloatAST(conversation());
+    const [prompt, reply] = floatAst.nodes;
+
+    expect(reply.children?.map(child => [child.content.raw, child.position.depth, child.position.parent])).toEqual([
+      ["Rest", 1, prompt.id],
+    ]);
+    expect(reply.meta).toMatchObject({ external_id: "m2", timestamp: "2025-09-12T10:01:00.000Z" });
+  });
+
+  it("keeps artifacts out of the transcript and nests them under their message", () => {
+    const imported = conversation();
+    imported.messages.push({
+      externalId: "a1",
+      author: "ChatGPT",
+      role: "assistant",
+      type: "artifact",
+      text: "plan.md",
+      depth: 1,
+      parentExternalId: "m2",
+    });
+    const { floatAst, content } = importedToFloatAST(imported);
+    const [, reply, artifact] = floatAst.nodes;
+
+    expect(content).not.toContain("plan.md");
+    expect(artifact).toMatchObject({ type: "artifact", position: { depth: 1, parent: reply.id } });
+    expect(artifact.source).toBeUndefined();
+  });
+});
+
+describe("saveImportedConversations", () => {
+  it("stores a conversation linked to its FloatAST and skips it the second time", async () => {
+    const chat = conversation({ title: "Stored once" });
+    const first = await saveImportedConversations([chat]);
+    const [result] = first.imported;
+
+    expect(result.conversation).toMatchObject({ title: "Stored once", floatAstId: result.floatAstId });
+    expect(result.conversation.createdAt).toEqual(new Date("2025-09-12T10:00:00.000Z"));
+    expect((await storage.getFloatAST(result.floatAstId))?.data).toMatchObject({
+      metadata: { source: "chatgpt", content_hash: contentHash(chat) },
+    });
+
+    const again = await saveImportedConversations([{ ...chat, externalId: "re-exported" }]);
+    expect(again).toEqual({ imported: [], skipped: [{ title: "Stored once", floatAstId: result.floatAstId }] });
+  });
+});
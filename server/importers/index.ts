@@ -0,0 +1,197 @@
+import type { Conversation, FloatAST, FloatNode, Persona } from "@shared/schema";
+import { formatTranscript } from "@shared/parser";
+import { createHash, randomUUID } from "crypto";
+import { storage } from "../storage";
+import { buildFloatAST } from "../floatast";
+import { parseChatGPTExport } from "./chatgpt";
+import { parseClaudeExport } from "./claude";
+import { parseDiscordExport } from "./discord";
+import { parseGeminiExport } from "./gemini";
+import { parseSlackExport } from "./slack";
+import { parseSubtitleExport } from "./subtitles";
+import { parseWhatsAppExport } from "./whatsapp";
+
+// Normalized shape every export importer produces before it is stored
+export interface ImportedMessage {
+  externalId?: string;
+  author: string;
+  role: NonNullable<FloatNode["role"]>;
+  // Chat platforms know who each speaker is; stored as node meta.persona
+  persona?: Persona;
+  text: string;
+  createdAt?: string;
+  type?: FloatNode["type"];
+  structured?: unknown;
+  meta?: Record<string, unknown>;
+  // Nesting for nodes that belong to another message, e.g. an artifact
+  // under the reply that created it
+  depth?: number;
+  parentExternalId?: string;
+}
+
+// A message on a branch that isn't part of the main thread (regenerated
+// replies, edited prompts). depth counts steps away from the main thread.
+export interface ImportedAlternate extends ImportedMessage {
+  depth: number;
+}
+
+export interface ImportedConversation {
+  externalId?: string;
+  title: string;
+  source: FloatAST["metadata"]["source"];
+  createdAt?: string;
+  updatedAt?: string;
+  // Length of a recording, for sources whose messages carry no clock time
+  duration?: number;
+  // Identifies the chat when its messages can differ between exports, e.g. a
+  // Takeout session that gained records; hashed instead of the messages
+  dedupKey?: string;
+  messages: (ImportedMessage & { alternates?: ImportedAlternate[] })[];
+}
+
+export interface ExportImporter {
+  label: string;
+  parse(data: unknown): ImportedConversation[];
+}
+
+// Keyed by the :source segment of POST /api/import/:source
+export const exportImporters: Record<string, ExportImporter> = {
+  chatgpt: { label: "ChatGPT", parse: parseChatGPTExport },
+  claude: { label: "Claude", parse: parseClaudeExport },
+  gemini: { label: "Gemini", parse: parseGeminiExport },
+  slack: { label: "Slack", parse: parseSlackExport },
+  discord: { label: "Discord", parse: parseDiscordExport },
+  whatsapp: { label: "WhatsApp", parse: parseWhatsAppExport },
+  subtitles: { label: "subtitle", parse: parseSubtitleExport },
+};
+
+export interface ImportResult {
+  conversation: Conversation;
+  floatAstId: string;
+}
+
+export interface ImportSummary {
+  imported: ImportResult[];
+  // Chats whose content matched a previous import
+  skipped: { title: string; floatAstId: string }[];
+}
+
+// Identifies a chat by what was said, not by export ids, so the same chat
+// exported twice is recognized. Chats with a dedupKey are identified by it.
+export function contentHash(imported: ImportedConversation): string {
+  const hash = createHash("sha256");
+  hash.update(imported.source);
+  if (imported.dedupKey !== undefined) {
+    hash.update(JSON.stringify(["key", imported.dedupKey]));
+    return hash.digest("hex");
+  }
+  for (const message of imported.messages) {
+    hash.update(JSON.stringify([message.role, message.author, message.text, message.createdAt || null]));
+  }
+  return hash.digest("hex");
+}
+
+function toNode(message: ImportedMessage, index: number, depth: number): FloatNode {
+  return {
+    id: `node-${randomUUID()}`,
+    type: message.type || "message",
+    role: message.role,
+    author: message.author,
+    content: {
+      raw: message.text,
+      processed: message.text.trim(),
+      ...(message.structured !== undefined ? { structured: message.structured } : {}),
+    },
+    position: { index, depth },
+    meta: {
+      ...message.meta,
+      ...(message.persona ? { persona: message.persona } : {}),
+      ...(message.createdAt ? { timestamp: message.createdAt } : {}),
+      ...(message.externalId ? { external_id: message.externalId } : {}),
+    },
+  };
+}
+
+// Build the FloatAST for an imported chat. Main-thread messages become the
+// top-level nodes; alternate branches hang off the message they replace as
+// children, with position.parent pointing at their actual parent message.
+// Artifacts aren't part of the transcript text and get no source span.
+export function importedToFloatAST(imported: ImportedConversation): { floatAst: FloatAST; content: string } {
+  const transcriptMessages = imported.messages.filter(message => message.type !== "artifact");
+  const { content, spans, dialect, speakers } = formatTranscript(
+    transcriptMessages.map(message => ({
+      author: message.author,
+      text: message.text,
+      timestamp: message.createdAt,
+    })),
+  );
+
+  const nodeIds = new Map<string, string>();
+  const nodes = imported.messages.map((message, index) => {
+    const node = toNode(message, index, message.depth || 0);
+    const transcriptIndex = transcriptMessages.indexOf(message);
+    if (transcriptIndex >= 0) node.source = spans[transcriptIndex];
+    const parent = message.parentExternalId && nodeIds.get(message.parentExternalId);
+    if (parent) node.position.parent = parent;
+    if (message.externalId) nodeIds.set(message.externalId, node.id);
+    return node;
+  });
+
+  imported.messages.forEach((message, index) => {
+    if (!message.alternates?.length) return;
+    nodes[index].children = message.alternates.map((alternate, altIndex) => {
+      const child = toNode(alternate, altIndex, alternate.depth);
+      if (alternate.externalId) nodeIds.set(alternate.externalId, child.id);
+      const parent = alternate.parentExternalId && nodeIds.get(alternate.parentExternalId);
+      if (parent) child.position.parent = parent;
+      return child;
+    });
+  });
+
+  const floatAst = buildFloatAST(nodes, {
+    title: imported.title,
+    source: imported.source,
+    created: imported.createdAt,
+    modified: imported.updatedAt,
+    duration: imported.duration,
+  });
+  floatAst.metadata.content_hash = contentHash(imported);
+  floatAst.metadata.transcript_speakers = speakers;
+  floatAst.metadata.dialect = dialect;
+
+  return { floatAst, content };
+}
+
+export async function saveImportedConversations(
+  imported: ImportedConversation[],
+  userId?: string,
+): Promise<ImportSummary> {
+  const existing = new Map<string, string>();
+  for (const stored of await storage.getFloatASTs()) {
+    const hash = (stored.data as FloatAST).metadata?.content_hash;
+    if (hash) existing.set(hash, stored.id);
+  }
+
+  const summary: ImportSummary = { imported: [], skipped: [] };
+  for (const chat of imported) {
+    const { floatAst, content } = importedToFloatAST(chat);
+    const hash = floatAst.metadata.content_hash!;
+    const duplicateOf = existing.get(hash);
+    if (duplicateOf) {
+      summary.skipped.push({ title: chat.title, floatAstId: duplicateOf });
+      continue;
+    }
+    existing.set(hash, floatAst.id);
+
+    await storage.createFloatAST(floatAst.id, floatAst, userId);
+    const conversation = await storage.createConversation({
+      title: chat.title,
+      content,
+      floatAstId: floatAst.id,
+      userId: userId || null,
+      createdAt: chat.createdAt ? new Date(chat.createdAt) : undefined,
+    });
+    summary.imported.push({ conversation, floatAstId: floatAst.id });
+  }
+  return summary;
+}
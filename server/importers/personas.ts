@@ -0,0 +1,48 @@
+import type { Persona } from "@shared/schema";
+import { resolveRole } from "@shared/parser";
+import type { ImportedMessage } from "./index";
+
+// Team chats have many people in them; each human speaker gets their own
+// colour, cycling through the palette in order of first appearance.
+const SPEAKER_COLORS = [
+  "text-blue-400",
+  "text-green-400",
+  "text-amber-400",
+  "text-pink-400",
+  "text-cyan-400",
+  "text-orange-400",
+];
+
+const ROLE_PERSONAS: Record<ImportedMessage["role"], Pick<Persona, "role" | "colorToken">> = {
+  human: { role: "author" },
+  assistant: { role: "researcher", colorToken: "text-purple-400" },
+  system: { role: "sysop", colorToken: "text-gray-400" },
+};
+
+// Maps platform user ids to Personas, so a renamed user (or two people
+// sharing a display name) stays one persona per account.
+export function createPersonaMap(platform: string) {
+  const personas = new Map<string, Persona>();
+  let humans = 0;
+
+  return function personaFor(userId: string, name: string, role: ImportedMessage["role"]): Persona {
+    const existing = personas.get(userId);
+    if (existing) return existing;
+
+    const { role: personaRole, colorToken } = ROLE_PERSONAS[role];
+    const persona: Persona = {
+      id: `persona-${platform}-${userId}`,
+      name,
+      role: personaRole,
+      colorToken: colorToken || SPEAKER_COLORS[humans++ % SPEAKER_COLORS.length],
+    };
+    personas.set(userId, persona);
+    return persona;
+  };
+}
+
+// Integrations post as bots; only assistant-like ones count as assistants
+export function speakerRole(name: string, isBot: boolean): ImportedMessage["role"] {
+  if (!isBot) return "human";
+  return resolveRole(name) === "assistant" ? "assistant" : "system";
+}
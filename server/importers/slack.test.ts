@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { parseSlackExport } from "./slack";
+
+describe("parseSlackExport", () => {
+  it("resolves names and mentions, skips housekeeping and keeps thread replies", () => {
+    const [conversation] = parseSlackExport({
+      channel: "general",
+      users: [
+        { id: "U1", name: "ana", profile: { display_name: "Ana" } },
+        { id: "U2", real_name: "Ben Ode" },
+      ],
+      messages: [
+        { ts: "1757671260.000200", thread_ts: "1757671200.000100", user: "U2", text: "On it &amp; <https://example.com|the doc>" },
+        { ts: "1757671200.000100", thread_ts: "1757671200.000100", user: "U1", text: "<@U2> can you look?" },
+        { ts: "1757671100.000000", subtype: "channel_join", user: "U2", text: "<@U2> has joined the channel" },
+        { ts: "1757671300.000000", bot_id: "B1", subtype: "bot_message", username: "Claude", text: "Summary ready" },
+      ],
+    });
+
+    expect(conversation).toMatchObject({ title: "#general", source: "slack" });
+    expect(conversation.messages.map(message => [message.author, message.role, message.text])).toEqual([
+      ["Ana", "human", "@Ben Ode can you look?"],
+      ["Ben Ode", "human", "On it & the doc (https://example.com)"],
+      ["Claude", "assistant", "Summary ready"],
+    ]);
+    expect(conversation.messages[0].parentExternalId).toBeUndefined();
+    expect(conversation.messages[1].parentExternalId).toBe("1757671200.000100");
+  });
+
+  it("gives each account one persona with its own colour", () => {
+    const [conversation] = parseSlackExport([
+      { ts: "1", user: "U1", user_profile: { real_name: "Ana" }, text: "one" },
+      { ts: "2", user: "U2", user_profile: { real_name: "Ben" }, text: "two" },
+      { ts: "3", user: "U1", user_profile: { real_name: "Ana" }, text: "three" },
+    ]);
+
+    const [first, second, third] = conversation.messages.map(message => message.persona!);
+    expect(first).toEqual(third);
+    expect(first.id).toBe("persona-slack-U1");
+    expect(first.colorToken).not.toBe(second.colorToken);
+    expect(conversation.title).toBe("Slack channel");
+  });
+});
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import type { ImportedConversation, ImportedMessage } from "./index";
+import { decodeEntities } from "./html";
+import { createPersonaMap, speakerRole } from "./personas";
+
+// A Slack workspace export is a folder per channel holding one JSON file of
+// messages per day, plus users.json. We accept a single day file, or the
+// days of one channel combined as { channel, users, messages }.
+const slackProfileSchema = z.object({
+  display_name: z.string().optional(),
+  real_name: z.string().optional(),
+}).passthrough();
+
+const slackMessageSchema = z.object({
+  type: z.string().optional(),
+  subtype: z.string().optional(),
+  ts: z.string(),
+  thread_ts: z.string().optional(),
+  user: z.string().optional(),
+  bot_id: z.string().optional(),
+  username: z.string().optional(),
+  text: z.string().default(""),
+  user_profile: slackProfileSchema.optional(),
+  bot_profile: z.object({ name: z.string().optional() }).passthrough().optional(),
+  files: z.array(z.object({ name: z.string().optional(), title: z.string().optional() }).passthrough()).optional(),
+}).passthrough();
+
+const slackUserSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  real_name: z.string().optional(),
+  profile: slackProfileSchema.optional(),
+}).passthrough();
+
+export const slackExportSchema = z.union([
+  z.array(slackMessageSchema).transform(messages => ({ channel: undefined, users: [], messages })),
+  z.object({
+    channel: z.string().optional(),
+    users: z.array(slackUserSchema).default([]),
+    messages: z.array(slackMessageSchema),
+  }),
+]);
+
+type SlackMessage = z.infer<typeof slackMessageSchema>;
+
+// Membership and channel housekeeping rather than conversation
+const SKIPPED_SUBTYPES = new Set([
+  "channel_join",
+  "channel_leave",
+  "channel_topic",
+  "channel_purpose",
+  "channel_name",
+  "channel_archive",
+  "channel_unarchive",
+  "pinned_item",
+  "unpinned_item",
+]);
+
+function toISO(ts: string): string {
+  return new Date(parseFloat(ts) * 1000).toISOString();
+}
+
+function profileName(profile?: z.infer<typeof slackProfileSchema>): string | undefined {
+  return profile?.display_name || profile?.real_name || undefined;
+}
+
+// Slack mrkdwn wraps mentions, channels and links in <...>
+function slackText(text: string, names: Map<string, string>): string {
+  const replaced = text.replace(/<([^>]+)>/g, (_match, inner: string) => {
+    const [target, label] = inner.split("|");
+    if (target.startsWith("@")) return `@${label || names.get(target.slice(1)) || target.slice(1)}`;
+    if (target.startsWith("#")) return `#${label || target.slice(1)}`;
+    if (target.startsWith("!")) return `@${label || target.slice(1).split("^")[0]}`;
+    return label ? `${label} (${target})` : target;
+  });
+  return decodeEntities(replaced);
+}
+
+export function parseSlackExport(data: unknown): ImportedConversation[] {
+  const { channel, users, messages } = slackExportSchema.parse(data);
+
+  const names = new Map<string, string>();
+  for (const user of users) {
+    const name = profileName(user.profile) || user.real_name || user.name;
+    if (name) names.set(user.id, name);
+  }
+  // Day files carry a profile snapshot on each message
+  for (const message of messages) {
+    const name = profileName(message.user_profile);
+    if (message.user && name && !names.has(message.user)) names.set(message.user, name);
+  }
+
+  const personaFor = createPersonaMap("slack");
+  const sorted = messages
+    .filter(message => !message.subtype || !SKIPPED_SUBTYPES.has(message.subtype))
+    .sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+
+  const imported: ImportedMessage[] = sorted.flatMap((message: SlackMessage) => {
+    const files = (message.files || []).map(file => `[file: ${file.title || file.name || "attachment"}]`);
+    const text = [slackText(message.text, names), ...files].filter(Boolean).join("\n");
+    if (!text.trim()) return [];
+
+    const isBot = !!message.bot_id || message.subtype === "bot_message";
+    const userId = message.user || message.bot_id || message.username || "unknown";
+    const name = names.get(userId) || message.bot_profile?.name || message.username || userId;
+    const role = speakerRole(name, isBot);
+    const isReply = !!message.thread_ts && message.thread_ts !== message.ts;
+
+    return [{
+      externalId: message.ts,
+      author: name,
+      role,
+      persona: personaFor(userId, name, role),
+      text,
+      createdAt: toISO(message.ts),
+      ...(isReply ? { parentExternalId: message.thread_ts } : {}),
+      meta: {
+        platform_user: userId,
+        ...(isReply ? { thread_ts: message.thread_ts } : {}),
+      },
+    }];
+  });
+
+  if (imported.length === 0) return [];
+
+  return [{
+    title: channel ? `#${channel.replace(/^#/, "")}` : "Slack channel",
+    source: "slack",
+    createdAt: imported[0].createdAt,
+    updatedAt: imported[imported.length - 1].createdAt,
+    messages: imported,
+  }];
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { importedToFloatAST } from "./index";
+import { parseSubtitleExport } from "./subtitles";
+
+describe("parseSubtitleExport", () => {
+  it("merges consecutive WebVTT cues by the same voice into one turn", () => {
+    const content = [
+      "WEBVTT",
+      "",
+      "00:00:01.000 --> 00:00:03.500",
+      "<v Alice>Welcome back",
+      "",
+      "00:00:03.500 --> 00:00:05.000",
+      "<v Alice>to the show.",
+      "",
+      "00:00:05.000 --> 00:01:02.250",
+      "<v.loud Bob>Thanks &amp; hello",
+    ].join("\n");
+
+    const [conversation] = parseSubtitleExport({ content, filename: "episode-1.vtt" });
+    expect(conversation).toMatchObject({ title: "episode-1", source: "local", duration: 61250 });
+    expect(conversation.messages.map(message => [message.author, message.text])).toEqual([
+      ["Alice", "Welcome back\nto the show."],
+      ["Bob", "Thanks & hello"],
+    ]);
+    expect(conversation.messages[0].meta?.cue).toEqual({
+      start: 1000,
+      end: 5000,
+      start_timecode: "00:00:01.000",
+      end_timecode: "00:00:05.000",
+    });
+    expect(importedToFloatAST(conversation).floatAst.temporal.duration).toBe(61250);
+  });
+
+  it("reads SRT speaker prefixes and keeps unattributed cues apart", () => {
+    const content = [
+      "1",
+      "00:00:01,000 --> 00:00:02,000",
+      "Assistant: Hello there",
+      "",
+      "2",
+      "00:00:02,000 --> 00:00:03,000",
+      "(music)",
+      "",
+      "3",
+      "00:00:03,000 --> 00:00:04,000",
+      "(applause)",
+    ].join("\r\n");
+
+    const [conversation] = parseSubtitleExport({ content });
+    expect(conversation.title).toBe("Recorded conversation");
+    expect(conversation.messages.map(message => [message.author, message.role, message.text])).toEqual([
+      ["Assistant", "assistant", "Hello there"],
+      ["Speaker", "human", "(music)"],
+      ["Speaker", "human", "(applause)"],
+    ]);
+  });
+
+  it("rejects files without cues", () => {
+    expect(() => parseSubtitleExport({ content: "WEBVTT\n\nnothing here" })).toThrow("No subtitle cues found");
+  });
+});
@@ -0,0 +1,141 @@
+import { z } from "zod";
+import { resolveRole } from "@shared/parser";
+import type { ImportedConversation, ImportedMessage } from "./index";
+import { decodeEntities } from "./html";
+import { createPersonaMap } from "./personas";
+
+// WebVTT and SRT caption files, e.g. from podcast or meeting recordings
+export const subtitleExportSchema = z.object({
+  content: z.string(),
+  filename: z.string().optional(),
+});
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+// hh:mm:ss.ttt (VTT, hours optional) or hh:mm:ss,ttt (SRT)
+const TIMING_LINE = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const VOICE_TAG = /<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+// "Name: text" as written by Zoom and many SRT transcripts
+const SPEAKER_PREFIX = /^([A-Z][\w'.-]*(?: [\w'.-]+){0,3}):\s+/;
+
+function toMs(timecode: string): number {
+  const [clock, millis] = timecode.split(/[.,]/);
+  const seconds = clock.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds * 1000 + Number(millis.padEnd(3, "0"));
+}
+
+function cueText(line: string): string {
+  return decodeEntities(
+    line
+      .replace(/<[^>]+>/g, "")
+      .replace(/\{\\[^}]*\}/g, ""),
+  ).trim();
+}
+
+// A cue can hold several voices, one per line; lines without a voice tag
+// belong to the previous voice
+function parseCue(start: number, end: number, payload: string[]): Cue[] {
+  const cues: Cue[] = [];
+  let speaker: string | undefined;
+
+  for (const line of payload) {
+    const voice = line.match(VOICE_TAG)?.[1]?.trim();
+    let text = cueText(line);
+    const prefixed = !voice ? text.match(SPEAKER_PREFIX) : null;
+    if (prefixed) text = text.slice(prefixed[0].length);
+    const lineSpeaker = voice || prefixed?.[1] || speaker;
+    if (!text) continue;
+
+    const previous = cues[cues.length - 1];
+    if (previous && previous.speaker === lineSpeaker) {
+      previous.text += "\n" + text;
+    } else {
+      cues.push({ start, end, speaker: lineSpeaker, text });
+    }
+    speaker = lineSpeaker;
+  }
+  return cues;
+}
+
+function parseCues(content: string): Cue[] {
+  const blocks = content
+    .replace(/^\ufeff/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const cues: Cue[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n").filter(line => line.trim());
+    // The timing line follows an optional cue identifier (SRT index)
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line.trim()));
+    if (timingIndex < 0 || timingIndex > 1) continue;
+
+    const [, start, end] = lines[timingIndex].trim().match(TIMING_LINE)!;
+    cues.push(...parseCue(toMs(start), toMs(end), lines.slice(timingIndex + 1)));
+  }
+  return cues;
+}
+
+// Captions split sentences across many cues; consecutive cues from the same
+// known speaker are one turn. Unattributed cues stay separate.
+function toTurns(cues: Cue[]): Cue[] {
+  const turns: Cue[] = [];
+  for (const cue of cues) {
+    const previous = turns[turns.length - 1];
+    if (previous && cue.speaker && previous.speaker === cue.speaker) {
+      previous.text += "\n" + cue.text;
+      previous.end = Math.max(previous.end, cue.end);
+    } else {
+      turns.push({ ...cue });
+    }
+  }
+  return turns;
+}
+
+function formatTimecode(ms: number): string {
+  return new Date(ms).toISOString().slice(11, 23);
+}
+
+export function parseSubtitleExport(data: unknown): ImportedConversation[] {
+  const { content, filename } = subtitleExportSchema.parse(data);
+  const cues = parseCues(content);
+  if (cues.length === 0) {
+    throw new Error("No subtitle cues found");
+  }
+
+  const personaFor = createPersonaMap("captions");
+  const messages: ImportedMessage[] = toTurns(cues).map(turn => {
+    const author = turn.speaker || "Speaker";
+    const role = turn.speaker ? resolveRole(turn.speaker)! : "human";
+    return {
+      author,
+      role,
+      persona: personaFor(author, author, role),
+      text: turn.text,
+      meta: {
+        cue: {
+          start: turn.start,
+          end: turn.end,
+          start_timecode: formatTimecode(turn.start),
+          end_timecode: formatTimecode(turn.end),
+        },
+      },
+    };
+  });
+
+  const start = Math.min(...cues.map(cue => cue.start));
+  const end = Math.max(...cues.map(cue => cue.end));
+  const name = filename?.replace(/^.*[\\/]/, "").replace(/\.(vtt|srt)$/i, "").trim();
+
+  return [{
+    title: name || "Recorded conversation",
+    source: "local",
+    duration: end - start,
+    messages,
+  }];
+}
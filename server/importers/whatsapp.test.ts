@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseWhatsAppExport } from "./whatsapp";
+
+describe("parseWhatsAppExport", () => {
+  it("reads Android exports, skipping notices and joining continued lines", () => {
+    const content = [
+      "12/31/23, 9:41 PM - Messages and calls are end-to-end encrypted.",
+      "12/31/23, 9:41 PM - Alice: Happy new year",
+      "see you tomorrow",
+      "12/31/23, 11:02 PM - Bob: You too",
+    ].join("\n");
+
+    const [chat] = parseWhatsAppExport({ content, filename: "WhatsApp Chat with Alice.txt" });
+    expect(chat.title).toBe("WhatsApp Chat with Alice");
+    expect(chat.messages.map(message => [message.author, message.text, message.createdAt])).toEqual([
+      ["Alice", "Happy new year\nsee you tomorrow", "2023-12-31T21:41:00.000Z"],
+      ["Bob", "You too", "2023-12-31T23:02:00.000Z"],
+    ]);
+    expect(chat.messages[0].persona).toMatchObject({ name: "Alice" });
+  });
+
+  it("infers day-first dates from iOS exports", () => {
+    const content = "[03/02/2024, 09:15:30] Alice: first\n[13/02/2024, 10:00:00] Bob: second";
+    const [chat] = parseWhatsAppExport({ content });
+    expect(chat.title).toBe("WhatsApp chat");
+    expect(chat.messages.map(message => message.createdAt)).toEqual([
+      "2024-02-03T09:15:30.000Z",
+      "2024-02-13T10:00:00.000Z",
+    ]);
+  });
+
+  it("rejects text with no messages", () => {
+    expect(() => parseWhatsAppExport({ content: "hello" })).toThrow("No WhatsApp messages found");
+  });
+});
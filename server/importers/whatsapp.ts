@@ -0,0 +1,108 @@
+import { z } from "zod";
+import type { ImportedConversation, ImportedMessage } from "./index";
+import { createPersonaMap } from "./personas";
+
+// "Export chat" from WhatsApp produces a .txt file; lines look like
+//   12/31/23, 9:41 PM - Alice: message           (Android)
+//   [31/12/2023, 21:41:05] Alice: message        (iOS)
+// Lines that don't start with a timestamp continue the previous message.
+export const whatsappExportSchema = z.object({
+  content: z.string(),
+  filename: z.string().optional(),
+});
+
+const MESSAGE_LINE =
+  /^\u200e?\[?(\d{1,4})[./-](\d{1,2})[./-](\d{1,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*([ap]\.?\s?m\.?)?\]?\s*(?:-\s+)?(.*)$/i;
+
+interface RawLine {
+  date: [number, number, number];
+  hour: number;
+  minute: number;
+  second: number;
+  meridiem?: string;
+  body: string;
+}
+
+// Exports follow the phone's locale, so the date order has to be inferred
+// from the dates themselves: any first field over 12 means day-first.
+function dateOrder(lines: RawLine[]): "ymd" | "dmy" | "mdy" {
+  if (lines.some(line => line.date[0] > 31)) return "ymd";
+  if (lines.some(line => line.date[0] > 12)) return "dmy";
+  if (lines.some(line => line.date[1] > 12)) return "mdy";
+  return "dmy";
+}
+
+// Exports carry no timezone; times are kept as written and stored as UTC
+function toISO(line: RawLine, order: ReturnType<typeof dateOrder>): string | undefined {
+  const [a, b, c] = line.date;
+  const [year, month, day] = order === "ymd" ? [a, b, c] : order === "dmy" ? [c, b, a] : [c, a, b];
+  let hour = line.hour % 24;
+  if (line.meridiem) {
+    const pm = line.meridiem.toLowerCase().startsWith("p");
+    hour = (line.hour % 12) + (pm ? 12 : 0);
+  }
+  const time = Date.UTC(year < 100 ? 2000 + year : year, month - 1, day, hour, line.minute, line.second);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function chatTitle(filename?: string): string {
+  const name = filename?.replace(/^.*[\\/]/, "").replace(/\.txt$/i, "").trim();
+  return name || "WhatsApp chat";
+}
+
+export function parseWhatsAppExport(data: unknown): ImportedConversation[] {
+  const { content, filename } = whatsappExportSchema.parse(data);
+
+  const lines: RawLine[] = [];
+  for (const text of content.replace(/\r\n?/g, "\n").split("\n")) {
+    const match = text.match(MESSAGE_LINE);
+    if (match) {
+      const [, a, b, c, hour, minute, second, meridiem, body] = match;
+      lines.push({
+        date: [Number(a), Number(b), Number(c)],
+        hour: Number(hour),
+        minute: Number(minute),
+        second: Number(second || 0),
+        meridiem,
+        body,
+      });
+    } else if (lines.length > 0) {
+      lines[lines.length - 1].body += "\n" + text;
+    }
+  }
+  if (lines.length === 0) {
+    throw new Error("No WhatsApp messages found");
+  }
+
+  const order = dateOrder(lines);
+  const personaFor = createPersonaMap("whatsapp");
+  const messages: ImportedMessage[] = [];
+
+  for (const line of lines) {
+    // Without "Name: " it's a system notice (encryption banner, joins, ...)
+    const separator = line.body.indexOf(": ");
+    if (separator <= 0) continue;
+
+    const author = line.body.slice(0, separator).replace(/^\u200e/, "").trim();
+    const text = line.body.slice(separator + 2).replace(/\u200e/g, "").trimEnd();
+    if (!text.trim()) continue;
+
+    messages.push({
+      author,
+      role: "human",
+      persona: personaFor(author, author, "human"),
+      text,
+      createdAt: toISO(line, order),
+    });
+  }
+
+  if (messages.length === 0) return [];
+
+  return [{
+    title: chatTitle(filename),
+    source: "whatsapp",
+    createdAt: messages[0].createdAt,
+    updatedAt: messages[messages.length - 1].createdAt,
+    messages,
+  }];
+}
@@ -0,0 +1,34 @@
+import type { LLMOperation, LLMProvider, LLMRequest, OperationSettings } from "./index";
+
+type FakeReply = string | ((request: LLMRequest) => string);
+
+export interface FakeLLMOptions {
+  settings?: Record<LLMOperation, OperationSettings>;
+  // Reply per operation; anything unset answers "[]", which every AI path
+  // treats as "nothing to add"
+  replies?: Partial<Record<LLMOperation, FakeReply>>;
+}
+
+// Answers without a network call, the same way every time. Requests are
+// kept in `calls` so a test can check what was sent.
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly calls: LLMRequest[] = [];
+  private operations?: Record<LLMOperation, OperationSettings>;
+  private replies: Partial<Record<LLMOperation, FakeReply>>;
+
+  constructor({ settings, replies = {} }: FakeLLMOptions = {}) {
+    this.operations = settings;
+    this.replies = replies;
+  }
+
+  settings(operation: LLMOperation): OperationSettings {
+    return this.operations?.[operation] ?? { model: "fake", temperature: 0, maxTokens: 0 };
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    this.calls.push(request);
+    const reply = this.replies[request.operation] ?? "[]";
+    return typeof reply === "function" ? reply(request) : reply;
+  }
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FakeLLMProvider, OpenAICompatibleProvider, createLLMProvider, operationSettings, stripCodeFence } from "./index";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("createLLMProvider", () => {
+  it("picks the provider from LLM_PROVIDER", () => {
+    vi.stubEnv("LLM_PROVIDER", "fake");
+    expect(createLLMProvider()).toBeInstanceOf(FakeLLMProvider);
+    vi.stubEnv("LLM_PROVIDER", "none");
+    expect(createLLMProvider()).toBeUndefined();
+    vi.stubEnv("LLM_PROVIDER", "anthropic");
+    expect(() => createLLMProvider()).toThrow('Unknown LLM_PROVIDER "anthropic"');
+  });
+
+  it("uses an OpenAI-compatible endpoint when a key or base URL is set", () => {
+    vi.stubEnv("LLM_PROVIDER", "");
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("LLM_API_KEY", "");
+    vi.stubEnv("LLM_BASE_URL", "");
+    expect(createLLMProvider()).toBeUndefined();
+
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    expect(createLLMProvider()?.name).toBe("openai");
+
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.stubEnv("LLM_BASE_URL", "http://localhost:11434/v1");
+    const local = createLLMProvider();
+    expect(local).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(local?.name).toBe("openai-compatible (http://localhost:11434/v1)");
+  });
+});
+
+describe("operationSettings", () => {
+  it("layers per-operation variables over LLM_MODEL and the defaults", () => {
+    vi.stubEnv("LLM_MODEL", "llama3.1");
+    vi.stubEnv("LLM_SIFT_MODEL", "qwen2.5");
+    vi.stubEnv("LLM_SIFT_TEMPERATURE", "0.7");
+    vi.stubEnv("LLM_SEMANTIC_MAX_TOKENS", "");
+
+    expect(operationSettings()).toEqual({
+      semantic: { model: "llama3.1", temperature: 0, maxTokens: 2000 },
+      sift: { model: "qwen2.5", temperature: 0.7, maxTokens: 2000 },
+    });
+  });
+
+  it("rejects a setting that isn't a number", () => {
+    vi.stubEnv("LLM_SEMANTIC_MAX_TOKENS", "lots");
+    expect(() => operationSettings()).toThrow('LLM_SEMANTIC_MAX_TOKENS must be a number, got "lots"');
+  });
+});
+
+describe("FakeLLMProvider", () => {
+  it("answers per operation and records each request", async () => {
+    const provider = new FakeLLMProvider({
+      replies: { sift: request => `echo ${request.messages[0].content}` },
+    });
+
+    expect(await provider.complete({ operation: "sift", messages: [{ role: "user", content: "hi" }] })).toBe("echo hi");
+    expect(await provider.complete({ operation: "semantic", messages: [] })).toBe("[]");
+    expect(provider.calls.map(call => call.operation)).toEqual(["sift", "semantic"]);
+    expect(provider.settings("sift")).toEqual({ model: "fake", temperature: 0, maxTokens: 0 });
+  });
+});
+
+describe("stripCodeFence", () => {
+  it("unwraps a fenced JSON reply", () => {
+    expect(stripCodeFence('```json\n[{"a":1}]\n```')).toBe('[{"a":1}]');
+    expect(stripCodeFence(' [] ')).toBe("[]");
+  });
+});
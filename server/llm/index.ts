@@ -0,0 +1,102 @@
+import { FakeLLMProvider } from "./fake";
+import { OpenAICompatibleProvider } from "./openai";
+
+// Each AI call site is an operation with its own model settings
+export type LLMOperation = "semantic" | "sift";
+
+export const LLM_OPERATIONS: LLMOperation[] = ["semantic", "sift"];
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  operation: LLMOperation;
+  messages: LLMMessage[];
+}
+
+export interface OperationSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  settings(operation: LLMOperation): OperationSettings;
+  // Resolves to the text of the reply; rejects when the call fails
+  complete(request: LLMRequest): Promise<string>;
+}
+
+const DEFAULT_SETTINGS: Record<LLMOperation, OperationSettings> = {
+  semantic: { model: "gpt-4", temperature: 0, maxTokens: 2000 },
+  sift: { model: "gpt-4", temperature: 0.3, maxTokens: 2000 },
+};
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  if (Number.isNaN(number)) throw new Error(`${name} must be a number, got "${value}"`);
+  return number;
+}
+
+// LLM_MODEL applies to every operation; LLM_<OPERATION>_MODEL,
+// LLM_<OPERATION>_TEMPERATURE and LLM_<OPERATION>_MAX_TOKENS override it
+// for one operation, e.g. LLM_SIFT_MODEL=llama3.1
+export function operationSettings(): Record<LLMOperation, OperationSettings> {
+  const settings = {} as Record<LLMOperation, OperationSettings>;
+  for (const operation of LLM_OPERATIONS) {
+    const prefix = `LLM_${operation.toUpperCase()}`;
+    const defaults = DEFAULT_SETTINGS[operation];
+    settings[operation] = {
+      model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || defaults.model,
+      temperature: envNumber(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+      maxTokens: envNumber(`${prefix}_MAX_TOKENS`) ?? defaults.maxTokens,
+    };
+  }
+  return settings;
+}
+
+// LLM_PROVIDER picks the implementation:
+//   openai  any OpenAI-compatible endpoint; LLM_BASE_URL points it at a
+//           local llama.cpp or Ollama server (http://localhost:11434/v1)
+//   fake    deterministic canned replies, no network
+//   none    AI paths fall back to local analysis
+// Unset means openai when OPENAI_API_KEY or LLM_BASE_URL is set, else none.
+export function createLLMProvider(): LLMProvider | undefined {
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+  const baseURL = process.env.LLM_BASE_URL;
+  const kind = process.env.LLM_PROVIDER || (apiKey || baseURL ? "openai" : "none");
+
+  switch (kind) {
+    case "openai":
+      return new OpenAICompatibleProvider({ apiKey, baseURL, settings: operationSettings() });
+    case "fake":
+      return new FakeLLMProvider({ settings: operationSettings() });
+    case "none":
+      return undefined;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected openai, fake or none)`);
+  }
+}
+
+let provider: LLMProvider | undefined = createLLMProvider();
+
+export function llm(): LLMProvider | undefined {
+  return provider;
+}
+
+// Swaps the active provider, e.g. for a FakeLLMProvider in tests
+export function setLLMProvider(next: LLMProvider | undefined) {
+  provider = next;
+}
+
+// Models often wrap JSON replies in a markdown fence
+export function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*|\s*```$/g, "");
+}
+
+export { FakeLLMProvider } from "./fake";
+export { OpenAICompatibleProvider } from "./openai";
@@ -0,0 +1,43 @@
+import OpenAI from "openai";
+import type { LLMOperation, LLMProvider, LLMRequest, OperationSettings } from "./index";
+
+export interface OpenAICompatibleOptions {
+  apiKey?: string;
+  // e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+  baseURL?: string;
+  settings: Record<LLMOperation, OperationSettings>;
+}
+
+// Chat completions against OpenAI or any server speaking the same API
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private operations: Record<LLMOperation, OperationSettings>;
+
+  constructor({ apiKey, baseURL, settings }: OpenAICompatibleOptions) {
+    // Local servers ignore the key but the client insists on one
+    this.client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL });
+    this.name = baseURL ? `openai-compatible (${baseURL})` : "openai";
+    this.operations = settings;
+  }
+
+  settings(operation: LLMOperation): OperationSettings {
+    return this.operations[operation];
+  }
+
+  async complete({ operation, messages }: LLMRequest): Promise<string> {
+    const { model, temperature, maxTokens } = this.operations[operation];
+    const response = await this.client.chat.completions.create({
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name} (${model})`);
+    }
+    return content;
+  }
+}
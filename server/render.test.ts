@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { FloatAST, FloatNode, Fragment, Thread } from "@shared/schema";
+import { renderZine } from "./render";
+
+function node(index: number, text: string, extra: Partial<FloatNode> = {}): FloatNode {
+  const human = index % 2 === 0;
+  return {
+    id: `n${index}`,
+    type: "message",
+    author: human ? "Ana" : "Assistant",
+    role: human ? "human" : "assistant",
+    content: { raw: text },
+    position: { index, depth: 0 },
+    ...extra,
+  };
+}
+
+const floatAst: FloatAST = {
+  id: "ast-1",
+  version: "1.0",
+  type: "conversation",
+  temporal: { created: "2025-09-12T10:00:00.000Z" },
+  metadata: { source: "local" },
+  nodes: [
+    node(0, "How should we bind a small zine?", { semantic: { intent: "question", emotional_tone: "curious", certainty: 0.5 } }),
+    node(1, "Saddle stitch works well. The key is a long-reach stapler.", { float_markers: { highlight: "The key is" } }),
+    node(2, "And for thicker ones? I keep thinking about glue."),
+    node(3, "Perfect binding.", { semantic: { intent: "statement", emotional_tone: "neutral", certainty: 0.7 } }),
+  ],
+  concepts: {
+    binding: { title: "Binding", weight: 1, appearances: [{ node_id: "n0" }, { node_id: "n3" }], references: [] },
+  },
+  patterns: { float_dispatches: 0, ritual_invocations: 0, bridge_creates: 0, persona_switches: 0 },
+  edges: [
+    { id: "e1", source: "n2", target: "n1", type: "questions", weight: 0.8 },
+    { id: "e2", source: "n3", target: "n2", type: "responds_to", weight: 0.5 },
+  ],
+  transforms: { preferred_output: "zine", depth_level: 2 },
+};
+
+const thread: Thread = {
+  id: "t1", floatAstId: "ast-1", title: "Binding", nodeIds: ["n0", "n1", "n2", "n3"], weight: 0.5, position: 0,
+  createdAt: null, modifiedAt: null, userId: null,
+};
+
+function fragment(id: string, nodeId: string, text: string, status: string): Fragment {
+  const raw = floatAst.nodes.find(each => each.id === nodeId)!.content.raw;
+  const start = raw.indexOf(text);
+  return {
+    id, floatAstId: "ast-1", nodeId, start, end: start + text.length, text, relevance: "", keywords: [], category: "General",
+    query: null, extractedBy: "keyword", status, createdAt: null, modifiedAt: null, userId: null,
+  };
+}
+
+const fragments = [fragment("f1", "n1", "a long-reach stapler", "starred"), fragment("f2", "n2", "I keep thinking about glue.", "rejected")];
+
+function outline(depthLevel: 1 | 2 | 3 | 4 | 5): string[] {
+  const [section] = renderZine(floatAst, [thread], fragments, { depthLevel }).sections;
+  return section.blocks.map(block =>
+    block.type === "quote" ? `quote ${block.author}: ${block.text}` :
+    block.type === "callout" ? `${block.marker}: ${block.text}` :
+    `commentary: ${block.text}`,
+  );
+}
+
+describe("renderZine", () => {
+  it("quotes every turn at depth 1 and calls out marker turns", () => {
+    expect(outline(1)).toEqual([
+      "quote Ana: How should we bind a small zine?",
+      "highlight: The key is a long-reach stapler.",
+      "quote Assistant: a long-reach stapler",
+      "quote Ana: And for thicker ones? I keep thinking about glue.",
+      "quote Assistant: Perfect binding.",
+    ]);
+  });
+
+  it("adds an intro from depth 2 and transitions from depth 3", () => {
+    const intro = "commentary: Turns 1\u20134 of the conversation, with Ana and Assistant. It turns on Binding.";
+    expect(outline(2)).toEqual([intro, ...outline(1)]);
+    expect(outline(3)).toEqual([
+      intro,
+      "quote Ana: How should we bind a small zine?",
+      "highlight: The key is a long-reach stapler.",
+      "quote Assistant: a long-reach stapler",
+      "commentary: Ana questions this.",
+      "quote Ana: And for thicker ones? I keep thinking about glue.",
+      "quote Assistant: Perfect binding.",
+    ]);
+  });
+
+  it("keeps curated and marker turns at depth 5 and retells the rest", () => {
+    expect(outline(5)).toEqual([
+      "commentary: Turns 1\u20134 of the conversation, with Ana and Assistant. It turns on Binding.",
+      "quote Ana: How should we bind a small zine?",
+      "highlight: The key is a long-reach stapler.",
+      "quote Assistant: a long-reach stapler",
+      "commentary: Ana questions this.",
+      "quote Ana: And for thicker ones? I keep thinking about glue.",
+      "commentary: Assistant notes: Perfect binding.",
+    ]);
+  });
+
+  it("links quotes to their fragments and leaves rejected fragments out", () => {
+    const [section] = renderZine(floatAst, [thread], fragments).sections;
+    const quotes = section.blocks.filter(block => block.type === "quote");
+
+    expect(quotes.map(quote => quote.type === "quote" ? quote.fragmentId : undefined)).toEqual([undefined, "f1", undefined, undefined]);
+    expect(section).toMatchObject({ id: "t1", title: "Binding", threadId: "t1", nodeIds: ["n0", "n1", "n2", "n3"] });
+  });
+
+  it("uses the FloatAST's depth level and a default title", () => {
+    const document = renderZine(floatAst, [thread, { ...thread, id: "t2", title: "Glue", nodeIds: ["n2", "missing"] }], []);
+
+    expect(document.version).toBe(1);
+    expect(document.frontMatter).toEqual({ title: "Untitled Zine", authors: [], tags: [], floatAstId: "ast-1", depthLevel: 2 });
+    expect(document.sections.map(section => section.nodeIds)).toEqual([["n0", "n1", "n2", "n3"], ["n2"]]);
+    expect(renderZine(floatAst, [thread], [], { title: "  Binding notes " }).frontMatter.title).toBe("Binding notes");
+  });
+
+  it("clips long quotes at a sentence or word boundary", () => {
+    const long = { ...floatAst, nodes: [node(0, `${"Fold it. ".repeat(30)}`), node(1, "word ".repeat(200))] };
+    const [section] = renderZine(long, [{ ...thread, nodeIds: ["n0", "n1"] }], [], { depthLevel: 5 }).sections;
+    const [first, second] = section.blocks.filter(block => block.type === "quote").map(block => block.text);
+
+    expect(first).toBe("Fold it. ".repeat(17).trim());
+    expect(second).toBe(`${"word ".repeat(31).trim()}\u2026`);
+  });
+});
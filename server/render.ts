@@ -0,0 +1,234 @@
+import { ZINE_DOCUMENT_VERSION, type FloatAST, type FloatEdge, type FloatNode, type Fragment, type Persona, type Thread, type ZineBlock, type ZineDocument, type ZineSection } from "@shared/schema";
+import type { MarkerKind } from "./analysis/markers";
+
+type DepthLevel = FloatAST["transforms"]["depth_level"];
+
+interface DepthProfile {
+  // Quotes kept per section, and how long each may run
+  quotes: number;
+  quoteLength: number;
+  // Opening line with the span, speakers and concepts of the section
+  intro: boolean;
+  // A line saying how a turn relates to the one before it in the section
+  transitions: boolean;
+  // Turns that weren't quoted are retold in a sentence instead of dropped
+  retell: boolean;
+}
+
+// Level 1 is nearly all quotation; each level up quotes less and explains more
+const DEPTH_PROFILES: Record<DepthLevel, DepthProfile> = {
+  1: { quotes: 12, quoteLength: 600, intro: false, transitions: false, retell: false },
+  2: { quotes: 8, quoteLength: 400, intro: true, transitions: false, retell: false },
+  3: { quotes: 6, quoteLength: 300, intro: true, transitions: true, retell: false },
+  4: { quotes: 4, quoteLength: 220, intro: true, transitions: true, retell: true },
+  5: { quotes: 3, quoteLength: 160, intro: true, transitions: true, retell: true },
+};
+
+// Curated fragments win the quote slots, then marker turns, then the rest
+const STATUS_PRIORITY: Record<string, number> = { starred: 3, accepted: 2, pending: 1 };
+const MARKER_PRIORITY = 1.5;
+
+const CALLOUT_ORDER: MarkerKind[] = ["dispatch", "highlight", "bridge", "eureka", "decision"];
+const MAX_INTRO_CONCEPTS = 3;
+const RETELL_LENGTH = 140;
+
+// responds_to links every adjacent turn and says nothing worth writing down
+const TRANSITIONS: Partial<Record<FloatEdge["type"], (speaker: string, edge: FloatEdge) => string>> = {
+  elaborates: speaker => `${speaker} keeps going.`,
+  references: (speaker, edge) => {
+    const shared = (edge.metadata?.shared_keywords as string[] | undefined)?.slice(0, 3) ?? [];
+    return shared.length > 0 ? `${speaker} comes back to ${listOf(shared)}.` : `${speaker} picks up an earlier point.`;
+  },
+  questions: speaker => `${speaker} questions this.`,
+  contradicts: speaker => `${speaker} disagrees.`,
+  summarizes: speaker => `${speaker} sums it up.`,
+  implements: speaker => `${speaker} puts it into practice.`,
+  bridges: speaker => `${speaker} connects it to something else.`,
+};
+
+const INTENT_VERBS: Record<string, string> = {
+  question: "asks",
+  command: "asks for",
+  reflection: "reflects",
+  statement: "notes",
+};
+
+export interface RenderOptions {
+  title?: string;
+  // Overrides transforms.depth_level
+  depthLevel?: DepthLevel;
+}
+
+interface Candidate {
+  node: FloatNode;
+  text: string;
+  fragment?: Fragment;
+  priority: number;
+  order: number;
+}
+
+function listOf(items: string[]): string {
+  return items.length < 2 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+// Persona name, else author, else the capitalized role
+export function speakerOf(node: FloatNode): string {
+  const persona = node.meta?.persona as Persona | undefined;
+  if (persona?.name) return persona.name;
+  if (node.author) return node.author;
+  return node.role ? node.role.charAt(0).toUpperCase() + node.role.slice(1) : "Someone";
+}
+
+// Cut at the last sentence end that keeps at least half the budget, else
+// at a word boundary
+function clip(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= length) return flat;
+  const head = flat.slice(0, length - 1);
+  const sentenceEnd = Math.max(head.lastIndexOf(". "), head.lastIndexOf("! "), head.lastIndexOf("? "));
+  if (sentenceEnd >= length / 2) return head.slice(0, sentenceEnd + 1);
+  const wordEnd = head.lastIndexOf(" ");
+  return `${(wordEnd > 0 ? head.slice(0, wordEnd) : head).replace(/[,;:]$/, "")}\u2026`;
+}
+
+function markersOf(node: FloatNode): MarkerKind[] {
+  return CALLOUT_ORDER.filter(marker => node.float_markers?.[marker]?.trim());
+}
+
+// Dispatch and bridge markers carry a topic; the others carry the phrase
+// that triggered them, so the callout shows the sentence around it
+function calloutText(marker: MarkerKind, node: FloatNode): string {
+  const value = node.float_markers![marker]!.trim();
+  if (marker === "dispatch" || marker === "bridge") return value;
+  const flat = node.content.raw.replace(/\s+/g, " ").trim();
+  const at = flat.toLowerCase().indexOf(value.toLowerCase());
+  if (at < 0) return value;
+  const start = Math.max(flat.lastIndexOf(". ", at), flat.lastIndexOf("! ", at), flat.lastIndexOf("? ", at));
+  const end = flat.slice(at).search(/[.!?](?:\s|$)/);
+  const sentence = flat.slice(start < 0 ? 0 : start + 2, end < 0 ? flat.length : at + end + 1);
+  return clip(sentence, RETELL_LENGTH);
+}
+
+// Fragments of a node stand in for it; a node without any is quoted whole
+function candidatesFor(node: FloatNode, fragments: Fragment[], order: number): Candidate[] {
+  const markerBonus = markersOf(node).length > 0 ? MARKER_PRIORITY : 0;
+  const own = fragments.filter(fragment => fragment.nodeId === node.id).sort((a, b) => a.start - b.start);
+  if (own.length > 0) {
+    return own.map((fragment, index) => ({
+      node,
+      text: fragment.text,
+      fragment,
+      priority: (STATUS_PRIORITY[fragment.status] ?? 1) + markerBonus,
+      order: order + index / own.length,
+    }));
+  }
+  const text = node.content.raw.trim();
+  return text ? [{ node, text, priority: markerBonus, order }] : [];
+}
+
+function introOf(floatAst: FloatAST, nodes: FloatNode[]): string {
+  const indexes = nodes.map(node => node.position.index + 1);
+  const first = Math.min(...indexes);
+  const last = Math.max(...indexes);
+  const span = first === last ? `Turn ${first}` : `Turns ${first}\u2013${last}`;
+  const speakers = Array.from(new Set(nodes.map(speakerOf)));
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const concepts = Object.values(floatAst.concepts || {})
+    .filter(concept => concept.appearances.some(ref => nodeIds.has(ref.node_id)))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_INTRO_CONCEPTS)
+    .map(concept => concept.title);
+
+  let intro = `${span} of the conversation, with ${listOf(speakers)}.`;
+  if (concepts.length > 0) intro += ` It turns on ${listOf(concepts)}.`;
+  return intro;
+}
+
+// The strongest telling edge from this node back to one already in the section
+function transitionFor(node: FloatNode, earlier: Set<string>, edges: FloatEdge[]): string | undefined {
+  const [edge] = edges
+    .filter(e => e.source === node.id && earlier.has(e.target) && TRANSITIONS[e.type])
+    .sort((a, b) => (b.weight ?? 0.5) - (a.weight ?? 0.5));
+  return edge ? TRANSITIONS[edge.type]!(speakerOf(node), edge) : undefined;
+}
+
+function retell(node: FloatNode): string {
+  const verb = INTENT_VERBS[node.semantic?.intent ?? ""] ?? "says";
+  return `${speakerOf(node)} ${verb}: ${clip(node.content.raw, RETELL_LENGTH)}`;
+}
+
+function renderSection(floatAst: FloatAST, thread: Thread, fragments: Fragment[], profile: DepthProfile): ZineSection {
+  const nodesById = new Map(floatAst.nodes.map(node => [node.id, node]));
+  const nodes = thread.nodeIds
+    .map(id => nodesById.get(id))
+    .filter((node): node is FloatNode => !!node);
+
+  // Pick the quotes by priority, then lay them out in thread order
+  const candidates = nodes.flatMap((node, index) => candidatesFor(node, fragments, index));
+  const chosen = new Set(
+    [...candidates]
+      .sort((a, b) => b.priority - a.priority || a.order - b.order)
+      .slice(0, profile.quotes),
+  );
+
+  const blocks: ZineBlock[] = [];
+  if (profile.intro && nodes.length > 0) {
+    blocks.push({ type: "commentary", text: introOf(floatAst, nodes), nodeIds: nodes.map(node => node.id) });
+  }
+
+  const told = new Set<string>();
+  for (const node of nodes) {
+    const quotes = candidates.filter(candidate => candidate.node === node && chosen.has(candidate));
+    const callouts = markersOf(node);
+    if (quotes.length === 0 && callouts.length === 0 && !profile.retell) continue;
+
+    if (profile.transitions && told.size > 0) {
+      const transition = transitionFor(node, told, floatAst.edges || []);
+      if (transition) blocks.push({ type: "commentary", text: transition, nodeIds: [node.id] });
+    }
+    for (const marker of callouts) {
+      const text = calloutText(marker, node);
+      // A callout that would only repeat the quote under it adds nothing
+      if (quotes.some(quote => clip(quote.text, profile.quoteLength) === text)) continue;
+      blocks.push({ type: "callout", marker, text, nodeIds: [node.id] });
+    }
+    if (quotes.length > 0) {
+      for (const quote of quotes) {
+        blocks.push({
+          type: "quote",
+          text: clip(quote.text, profile.quoteLength),
+          nodeIds: [node.id],
+          author: speakerOf(node),
+          ...(quote.fragment ? { fragmentId: quote.fragment.id } : {}),
+        });
+      }
+    } else if (profile.retell && node.content.raw.trim()) {
+      blocks.push({ type: "commentary", text: retell(node), nodeIds: [node.id] });
+    }
+    told.add(node.id);
+  }
+
+  return { id: thread.id, title: thread.title, threadId: thread.id, nodeIds: nodes.map(node => node.id), blocks };
+}
+
+// Lays a FloatAST out as a zine: one section per thread, in the order given.
+// Sections quote the thread's curated fragments (or whole turns when it has
+// none) and call out marker turns; depth_level decides how much of each
+// section is quotation and how much is commentary. No model is involved.
+export function renderZine(floatAst: FloatAST, threads: Thread[], fragments: Fragment[], options: RenderOptions = {}): ZineDocument {
+  const depthLevel = options.depthLevel ?? floatAst.transforms?.depth_level ?? 2;
+  const profile = DEPTH_PROFILES[depthLevel];
+  const usable = fragments.filter(fragment => fragment.status !== "rejected");
+
+  return {
+    version: ZINE_DOCUMENT_VERSION,
+    frontMatter: {
+      title: options.title?.trim() || "Untitled Zine",
+      authors: [],
+      tags: floatAst.metadata.tags ?? [],
+      floatAstId: floatAst.id,
+      depthLevel,
+    },
+    sections: threads.map(thread => renderSection(floatAst, thread, usable, profile)),
+  };
+}
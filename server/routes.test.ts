@@ -0,0 +1,588 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { FloatASTRecord, FloatAST, Fragment, Thread, ZineEdition, ZineEditionWithDocument, ZineWithDocument } from "@shared/schema";
+import { FakeLLMProvider, setLLMProvider } from "./llm";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  setLLMProvider(undefined);
+  vi.restoreAllMocks();
+});
+
+async function request<T>(method: string, url: string, body?: unknown): Promise<{ status: number; body: T }> {
+  const response = await fetch(baseUrl + url, {
+    method,
+    headers: body === undefined ? {} : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function parse(content: string): Promise<FloatAST> {
+  const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content });
+  const parsed = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+  expect(parsed.status).toBe(200);
+  return parsed.body.data as FloatAST;
+}
+
+describe("POST /api/conversations/:id/parse", () => {
+  it("groups multi-line messages and keeps inline labels inside them", async () => {
+    const content = [
+      "User: How do I start?",
+      "",
+      "Assistant: Two steps.",
+      "",
+      "Note: read the docs first",
+      "```",
+      "User: inside a fence",
+      "```",
+      "",
+      "User: thanks",
+    ].join("\n");
+
+    const { nodes } = await parse(content);
+    expect(nodes.map(node => [node.author, node.role])).toEqual([
+      ["User", "human"],
+      ["Assistant", "assistant"],
+      ["User", "human"],
+    ]);
+    expect(nodes[1].content.raw).toBe("Two steps.\n\nNote: read the docs first\n```\nUser: inside a fence\n```");
+  });
+
+  it("records each message's line and character span", async () => {
+    const content = "User: one\r\n\r\nAssistant: two\r\nthree";
+    const { nodes } = await parse(content);
+    expect(nodes.map(node => node.source)).toEqual([
+      { line_start: 1, line_end: 1, char_start: 0, char_end: 9 },
+      { line_start: 3, line_end: 4, char_start: 13, char_end: content.length },
+    ]);
+    expect(content.slice(nodes[1].source!.char_start, nodes[1].source!.char_end)).toBe("Assistant: two\r\nthree");
+  });
+
+  it("keeps the local semantic analysis when no AI provider is configured", async () => {
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: Why fold it?" });
+    const parsed = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`, { semantic: "ai" });
+    expect((parsed.body.data as FloatAST).nodes[0].semantic).toEqual({ intent: "question", emotional_tone: "neutral", certainty: 0.5 });
+  });
+
+  it("takes semantic analysis from the LLM provider when asked", async () => {
+    const provider = new FakeLLMProvider({
+      replies: { semantic: '```json\n[{"index":0,"intent":"reflection","emotional_tone":"wistful","certainty":0.4}]\n```' },
+    });
+    setLLMProvider(provider);
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: Why fold it?" });
+    const parsed = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`, { semantic: "ai" });
+
+    expect((parsed.body.data as FloatAST).nodes[0].semantic).toEqual({ intent: "reflection", emotional_tone: "wistful", certainty: 0.4 });
+    expect(provider.calls[0].operation).toBe("semantic");
+    expect(provider.calls[0].messages[0].content).toContain("[0] User: Why fold it?");
+  });
+
+  it("keeps the local analysis when the provider's reply doesn't fit", async () => {
+    setLLMProvider(new FakeLLMProvider({ replies: { semantic: '[{"index":0,"intent":"musing"}]' } }));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: Why fold it?" });
+    const parsed = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`, { semantic: "ai" });
+
+    expect((parsed.body.data as FloatAST).nodes[0].semantic?.intent).toBe("question");
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("returns 404 for an unknown conversation", async () => {
+    expect((await request("POST", "/api/conversations/missing/parse")).status).toBe(404);
+  });
+});
+
+describe("POST /api/import/:source", () => {
+  it("imports each chat as a parsed conversation", async () => {
+    const mapping = {
+      root: { id: "root", parent: null, children: ["q"], message: null },
+      q: { id: "q", parent: "root", children: ["a"], message: { id: "m-q", author: { role: "user" }, content: { content_type: "text", parts: ["Hi?"] } } },
+      a: { id: "a", parent: "q", children: [], message: { id: "m-a", author: { role: "assistant" }, content: { content_type: "text", parts: ["Hello"] } } },
+    };
+    const imported = await request<{ imported: number; conversations: { content: string; floatAstId: string }[] }>(
+      "POST",
+      "/api/import/chatgpt",
+      [{ conversation_id: "c1", title: "Greeting", mapping, current_node: "a" }],
+    );
+
+    expect(imported.status).toBe(201);
+    expect(imported.body.imported).toBe(1);
+    expect(imported.body.conversations[0].content).toBe("User: Hi?\n\nChatGPT: Hello");
+  });
+
+  it("parses an imported transcript again with its own speakers", async () => {
+    const mapping = {
+      q: { id: "q", parent: null, children: ["a"], message: { id: "m-q", author: { role: "user" }, content: { content_type: "text", parts: ["Who said what?"] } } },
+      a: { id: "a", parent: "q", children: [], message: { id: "m-a", author: { role: "assistant" }, content: { content_type: "text", parts: ["Ana: fold\nAna: staple"] } } },
+    };
+    const imported = await request<{ conversations: { id: string }[] }>("POST", "/api/import/chatgpt", [{ conversation_id: "c2", title: "Quotes", mapping, current_node: "a" }]);
+
+    const parsed = await request<FloatASTRecord>("POST", `/api/conversations/${imported.body.conversations[0].id}/parse`);
+    const floatAst = parsed.body.data as FloatAST;
+    expect(floatAst.nodes.map(node => [node.author, node.content.raw])).toEqual([
+      ["User", "Who said what?"],
+      ["ChatGPT", "Ana: fold\nAna: staple"],
+    ]);
+    expect(floatAst.metadata).toMatchObject({ transcript_speakers: ["User", "ChatGPT"], dialect: "plain" });
+  });
+
+  it("rejects an export that doesn't match the format", async () => {
+    const response = await request<{ error: string }>("POST", "/api/import/chatgpt", { chats: [] });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("Invalid ChatGPT export");
+  });
+
+  it("returns 404 for a source without an importer", async () => {
+    const response = await request<{ error: string }>("POST", "/api/import/myspace", []);
+    expect(response.status).toBe(404);
+    expect(response.body.error).toBe('Unknown import source "myspace"');
+  });
+});
+
+describe("POST /api/float-asts/:id/extract-fragments", () => {
+  it("returns fragments anchored in the conversation", async () => {
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: Fold the zine\n\nAssistant: Staple the spine" });
+    const parsed = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+    const response = await request<{ fragments: Fragment[] }>("POST", `/api/float-asts/${parsed.body.id}/extract-fragments`, { query: "spine" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.fragments.map(fragment => fragment.text)).toEqual(["Staple the spine"]);
+    expect(response.body.fragments[0]).toMatchObject({ floatAstId: parsed.body.id, query: "spine", extractedBy: "keyword", status: "pending" });
+  });
+
+  it("validates the request before looking up the FloatAST", async () => {
+    expect((await request("POST", "/api/float-asts/missing/extract-fragments", { query: " " })).status).toBe(400);
+    expect((await request("POST", "/api/float-asts/missing/extract-fragments", { query: "spine", maxFragments: 50 })).status).toBe(400);
+    expect((await request("POST", "/api/float-asts/missing/extract-fragments", { query: "spine" })).status).toBe(404);
+  });
+});
+
+describe("/api/fragments", () => {
+  async function parsedAst(): Promise<FloatASTRecord> {
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: Fold the zine" });
+    return (await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`)).body;
+  }
+
+  it("creates a fragment only when its text is that slice of the node", async () => {
+    const ast = await parsedAst();
+    const nodeId = (ast.data as FloatAST).nodes[0].id;
+
+    const created = await request<Fragment>("POST", "/api/fragments", { floatAstId: ast.id, nodeId, start: 9, end: 13, text: "zine" });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ text: "zine", status: "pending" });
+
+    const mismatch = await request<{ error: string }>("POST", "/api/fragments", { floatAstId: ast.id, nodeId, start: 0, end: 4, text: "zine" });
+    expect(mismatch.status).toBe(400);
+    expect(mismatch.body.error).toBe("Fragment text does not match the referenced node");
+    expect((await request("POST", "/api/fragments", { floatAstId: "missing", nodeId, start: 0, end: 4, text: "Fold" })).status).toBe(404);
+    expect((await request("POST", "/api/fragments", { floatAstId: ast.id, nodeId, start: -1, end: 4, text: "Fold" })).status).toBe(400);
+  });
+
+  it("filters, curates and deletes fragments", async () => {
+    const ast = await parsedAst();
+    const nodeId = (ast.data as FloatAST).nodes[0].id;
+    const { body: fragment } = await request<Fragment>("POST", "/api/fragments", { floatAstId: ast.id, nodeId, start: 0, end: 4, text: "Fold" });
+
+    const starred = await request<Fragment>("PUT", `/api/fragments/${fragment.id}`, { status: "starred", keywords: ["fold"] });
+    expect(starred.body).toMatchObject({ status: "starred", keywords: ["fold"] });
+    expect((await request("PUT", `/api/fragments/${fragment.id}`, { text: "Folded" })).status).toBe(400);
+    expect((await request("PUT", "/api/fragments/missing", { status: "starred" })).status).toBe(404);
+
+    const listed = await request<Fragment[]>("GET", `/api/fragments?floatAstId=${ast.id}&status=starred`);
+    expect(listed.body.map(each => each.id)).toEqual([fragment.id]);
+    expect((await request("GET", "/api/fragments?status=maybe")).status).toBe(400);
+
+    expect((await request("DELETE", `/api/fragments/${fragment.id}`)).status).toBe(200);
+    expect((await request("GET", `/api/fragments/${fragment.id}`)).status).toBe(404);
+  });
+});
+
+describe("POST /api/float-asts/:id/bind", () => {
+  it("binds the fragments that weren't rejected, or the ones named", async () => {
+    const content = "User: Saddle stitch with a long stapler\n\nAssistant: A long stapler makes the saddle stitch easy\n\nUser: Glossy paper smudges";
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content });
+    const { body: ast } = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+    const nodes = (ast.data as FloatAST).nodes;
+    const ids: string[] = [];
+    for (const node of nodes) {
+      const { body } = await request<Fragment>("POST", "/api/fragments", {
+        floatAstId: ast.id, nodeId: node.id, start: 0, end: node.content.raw.length, text: node.content.raw,
+      });
+      ids.push(body.id);
+    }
+
+    const bound = await request<{ threads: { fragmentIds: string[]; fragments: Fragment[] }[]; unbound: string[] }>("POST", `/api/float-asts/${ast.id}/bind`);
+    expect(bound.status).toBe(200);
+    expect(bound.body.threads.map(thread => thread.fragmentIds)).toEqual([[ids[0], ids[1]]]);
+    expect(bound.body.threads[0].fragments.map(fragment => fragment.id)).toEqual([ids[0], ids[1]]);
+    expect(bound.body.unbound).toEqual([ids[2]]);
+
+    await request("PUT", `/api/fragments/${ids[1]}`, { status: "rejected" });
+    expect((await request<{ unbound: string[] }>("POST", `/api/float-asts/${ast.id}/bind`)).body.unbound).toEqual([ids[0], ids[2]]);
+
+    const named = await request<{ unbound: string[] }>("POST", `/api/float-asts/${ast.id}/bind`, { fragmentIds: [ids[1], ids[2]] });
+    expect(named.body.unbound).toEqual([ids[1], ids[2]]);
+  });
+
+  it("rejects fragments from another FloatAST and unknown FloatASTs", async () => {
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: hi" });
+    const { body: ast } = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+
+    const response = await request<{ error: string }>("POST", `/api/float-asts/${ast.id}/bind`, { fragmentIds: ["elsewhere"] });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("Some fragments don't belong to this FloatAST");
+    expect((await request("POST", `/api/float-asts/${ast.id}/bind`, { fragmentIds: [] })).status).toBe(400);
+    expect((await request("POST", "/api/float-asts/missing/bind")).status).toBe(404);
+  });
+});
+
+describe("/api/threads", () => {
+  async function parsedAst(): Promise<FloatASTRecord> {
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: Fold\n\nAssistant: Staple" });
+    return (await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`)).body;
+  }
+
+  it("appends new threads after the FloatAST's existing ones", async () => {
+    const ast = await parsedAst();
+    const [fold, staple] = (ast.data as FloatAST).nodes.map(node => node.id);
+
+    const first = await request<Thread>("POST", "/api/threads", { floatAstId: ast.id, title: "Making", nodeIds: [fold, staple] });
+    const second = await request<Thread>("POST", "/api/threads", { floatAstId: ast.id, title: "Finishing" });
+    expect(first.status).toBe(201);
+    expect([first.body.position, second.body.position]).toEqual([0, 1]);
+
+    const listed = await request<Thread[]>("GET", `/api/threads?floatAstId=${ast.id}`);
+    expect(listed.body.map(thread => thread.title)).toEqual(["Making", "Finishing"]);
+  });
+
+  it("only accepts nodes of the thread's FloatAST", async () => {
+    const ast = await parsedAst();
+    const created = await request<{ error: string; details: string[] }>("POST", "/api/threads", { floatAstId: ast.id, title: "Bad", nodeIds: ["nope"] });
+    expect(created.status).toBe(400);
+    expect(created.body.details).toEqual(["nope"]);
+    expect((await request("POST", "/api/threads", { floatAstId: "missing", title: "Lost" })).status).toBe(404);
+
+    const { body: thread } = await request<Thread>("POST", "/api/threads", { floatAstId: ast.id, title: "Good" });
+    expect((await request("PUT", `/api/threads/${thread.id}`, { nodeIds: ["nope"] })).status).toBe(400);
+    expect((await request("PUT", `/api/threads/${thread.id}`, { floatAstId: "other" })).status).toBe(400);
+    expect((await request<Thread>("PUT", `/api/threads/${thread.id}`, { title: "Better" })).body.title).toBe("Better");
+    expect((await request("PUT", "/api/threads/missing", { title: "x" })).status).toBe(404);
+
+    expect((await request("DELETE", `/api/threads/${thread.id}`)).status).toBe(200);
+    expect((await request("GET", `/api/threads/${thread.id}`)).status).toBe(404);
+  });
+});
+
+describe("POST /api/float-asts/:id/suggest-threads", () => {
+  it("suggests threads that don't exist yet", async () => {
+    const content = "User: Let's explore risograph printing.\n\nAssistant: Sure.\n\nUser: We should print on Friday.";
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content });
+    const { body: ast } = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+    const suggest = () => request<{ suggestions: { title: string; nodeIds: string[] }[] }>("POST", `/api/float-asts/${ast.id}/suggest-threads`, { depth: 0 });
+
+    const { body } = await suggest();
+    expect(body.suggestions.map(suggestion => suggestion.title)).toEqual(["Let's explore", "Decision: We should print on Friday."]);
+
+    await request("POST", "/api/threads", { floatAstId: ast.id, title: "Printing", nodeIds: body.suggestions[0].nodeIds });
+    expect((await suggest()).body.suggestions.map(suggestion => suggestion.title)).toEqual(["Decision: We should print on Friday."]);
+  });
+
+  it("validates the options", async () => {
+    expect((await request("POST", "/api/float-asts/missing/suggest-threads", { depth: 9 })).status).toBe(400);
+    expect((await request("POST", "/api/float-asts/missing/suggest-threads", { edgeTypes: ["follows"] })).status).toBe(400);
+    expect((await request("POST", "/api/float-asts/missing/suggest-threads")).status).toBe(404);
+  });
+});
+
+describe("POST /api/float-asts/:id/render", () => {
+  async function threadedAst(): Promise<{ ast: FloatASTRecord; threads: Thread[] }> {
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Binding chat", content: "User: Fold\n\nAssistant: Staple" });
+    const { body: ast } = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+    const [fold, staple] = (ast.data as FloatAST).nodes.map(node => node.id);
+    const threads: Thread[] = [];
+    for (const [title, nodeIds] of [["Folding", [fold]], ["Stapling", [staple]]] as const) {
+      threads.push((await request<Thread>("POST", "/api/threads", { floatAstId: ast.id, title, nodeIds })).body);
+    }
+    return { ast, threads };
+  }
+
+  it("saves a draft zine with a section per saved thread", async () => {
+    const { ast } = await threadedAst();
+    const response = await request<ZineWithDocument>("POST", `/api/float-asts/${ast.id}/render`, { depthLevel: 1 });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({ title: "Binding chat", floatAstId: ast.id, status: "draft" });
+    const { document } = response.body;
+    expect(document.frontMatter.depthLevel).toBe(1);
+    expect(document.sections.map(section => [section.title, section.blocks.map(block => block.text)])).toEqual([
+      ["Folding", ["Fold"]],
+      ["Stapling", ["Staple"]],
+    ]);
+  });
+
+  it("renders the named threads in the order given", async () => {
+    const { ast, threads } = await threadedAst();
+    const response = await request<ZineWithDocument>("POST", `/api/float-asts/${ast.id}/render`, { threadIds: [threads[1].id, threads[0].id], title: "Backwards" });
+
+    expect(response.body.title).toBe("Backwards");
+    expect(response.body.document.sections.map(section => section.title)).toEqual(["Stapling", "Folding"]);
+  });
+
+  it("rejects threads of other FloatASTs and FloatASTs without threads", async () => {
+    const { ast, threads } = await threadedAst();
+    const other = await threadedAst();
+
+    const foreign = await request<{ error: string }>("POST", `/api/float-asts/${ast.id}/render`, { threadIds: [other.threads[0].id] });
+    expect(foreign.status).toBe(400);
+    expect(foreign.body.error).toBe("Some threads don't belong to this FloatAST");
+    const repeated = await request("POST", `/api/float-asts/${ast.id}/render`, { threadIds: [threads[0].id, threads[0].id] });
+    expect(repeated.status).toBe(400);
+
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Empty", content: "User: hi" });
+    const { body: bare } = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+    expect((await request("POST", `/api/float-asts/${bare.id}/render`)).status).toBe(400);
+    expect((await request("POST", `/api/float-asts/${ast.id}/render`, { depthLevel: 6 })).status).toBe(400);
+    expect((await request("POST", "/api/float-asts/missing/render")).status).toBe(404);
+  });
+});
+
+describe("/api/zines", () => {
+  it("wraps plain text content in a document", async () => {
+    const created = await request<ZineWithDocument>("POST", "/api/zines", { title: "Notes", content: "Fold twice." });
+
+    expect(created.status).toBe(201);
+    expect(created.body.document.frontMatter.title).toBe("Notes");
+    expect(created.body.document.sections[0].blocks).toEqual([{ type: "commentary", text: "Fold twice.", nodeIds: [] }]);
+    expect((await request<ZineWithDocument>("GET", `/api/zines/${created.body.id}`)).body.document).toEqual(created.body.document);
+  });
+
+  it("only links a document to nodes of the zine's FloatAST", async () => {
+    const conversation = await request<{ id: string }>("POST", "/api/conversations", { title: "Test", content: "User: Fold" });
+    const { body: ast } = await request<FloatASTRecord>("POST", `/api/conversations/${conversation.body.id}/parse`);
+    const nodeId = (ast.data as FloatAST).nodes[0].id;
+    const document = (nodeIds: string[]) => ({
+      version: 1,
+      frontMatter: { title: "Ignored" },
+      sections: [{ id: "s1", title: "Fold", blocks: [{ type: "quote", text: "Fold", nodeIds }] }],
+    });
+
+    const created = await request<ZineWithDocument>("POST", "/api/zines", { title: "Linked", floatAstId: ast.id, document: document([nodeId]) });
+    expect(created.status).toBe(201);
+    expect(created.body.document.frontMatter).toMatchObject({ title: "Linked", floatAstId: ast.id });
+
+    const unknown = await request<{ details: string[] }>("POST", "/api/zines", { title: "Bad", floatAstId: ast.id, document: document(["nope"]) });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.details).toEqual(["nope"]);
+    expect((await request("PUT", `/api/zines/${created.body.id}`, { document: document(["nope"]) })).status).toBe(400);
+    expect((await request("POST", "/api/zines", { title: "Lost", floatAstId: "missing" })).status).toBe(404);
+  });
+
+  it("replaces the document and takes the title from its front matter", async () => {
+    const { body: zine } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Draft" });
+    const document = { ...zine.document, frontMatter: { ...zine.document.frontMatter, title: "Final", floatAstId: "elsewhere" } };
+
+    const updated = await request<ZineWithDocument>("PUT", `/api/zines/${zine.id}`, { document });
+    expect(updated.body.title).toBe("Final");
+    expect(updated.body.document.frontMatter.floatAstId).toBeUndefined();
+    expect((await request("PUT", `/api/zines/${zine.id}`, { document, title: "x" })).status).toBe(400);
+    expect((await request("PUT", "/api/zines/missing", { document })).status).toBe(404);
+
+    expect((await request("DELETE", `/api/zines/${zine.id}`)).status).toBe(200);
+    expect((await request("GET", `/api/zines/${zine.id}`)).status).toBe(404);
+  });
+});
+
+describe("zine publishing", () => {
+  type ActionResult = { zine: ZineWithDocument; edition?: ZineEditionWithDocument };
+  const act = (id: string, action: string) => request<ActionResult & { error: string }>("POST", `/api/zines/${id}/${action}`);
+  const edit = (zine: ZineWithDocument, text: string) => request<ZineWithDocument>("PUT", `/api/zines/${zine.id}`, {
+    document: { ...zine.document, sections: [{ id: "s1", title: "", blocks: [{ type: "commentary", text }] }] },
+  });
+
+  it("snapshots the content as numbered editions", async () => {
+    const { body: zine } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Issue", content: "First draft" });
+
+    const published = await act(zine.id, "publish");
+    expect(published.status).toBe(200);
+    expect(published.body.zine.status).toBe("published");
+    expect(published.body.zine.publishedAt).not.toBeNull();
+    expect(published.body.edition).toMatchObject({ edition: 1, title: "Issue" });
+
+    const unchanged = await act(zine.id, "republish");
+    expect(unchanged.status).toBe(409);
+    expect(unchanged.body.error).toBe("Nothing changed since edition 1");
+
+    await edit(published.body.zine, "Second draft");
+    const republished = await act(zine.id, "republish");
+    expect(republished.body.edition?.edition).toBe(2);
+    expect(republished.body.edition?.document.sections[0].blocks[0].text).toBe("Second draft");
+
+    const editions = await request<ZineEdition[]>("GET", `/api/zines/${zine.id}/editions`);
+    expect(editions.body.map(edition => edition.edition)).toEqual([1, 2]);
+    const first = await request<ZineEditionWithDocument>("GET", `/api/zines/${zine.id}/editions/1`);
+    expect(first.body.document.sections[0].blocks[0].text).toBe("First draft");
+    expect((await request<ZineEditionWithDocument>("GET", `/api/zines/${zine.id}/published`)).body.edition).toBe(2);
+    expect((await request("GET", `/api/zines/${zine.id}/editions/3`)).status).toBe(404);
+  });
+
+  it("numbers the edition again when another publish took the number it read", async () => {
+    const { body: zine } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Issue", content: "First draft" });
+    const published = await act(zine.id, "publish");
+    await edit(published.body.zine, "Second draft");
+
+    // A read from before edition 1 was published
+    vi.spyOn(storage, "getZineEditions").mockResolvedValueOnce([]);
+    const republished = await act(zine.id, "republish");
+    expect(republished.status).toBe(200);
+    expect(republished.body.edition?.edition).toBe(2);
+    expect((await request<ZineEdition[]>("GET", `/api/zines/${zine.id}/editions`)).body.map(edition => edition.edition)).toEqual([1, 2]);
+  });
+
+  it("brings back the same edition when unchanged content is published again", async () => {
+    const { body: zine } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Issue", content: "Text" });
+    await act(zine.id, "publish");
+
+    const unpublished = await act(zine.id, "unpublish");
+    expect(unpublished.body.zine).toMatchObject({ status: "draft", publishedAt: null });
+    expect((await request("GET", `/api/zines/${zine.id}/published`)).status).toBe(404);
+
+    expect((await act(zine.id, "publish")).body.edition?.edition).toBe(1);
+    expect((await request<ZineEdition[]>("GET", `/api/zines/${zine.id}/editions`)).body).toHaveLength(1);
+  });
+
+  it("refuses actions the status doesn't allow and edits to archived zines", async () => {
+    const { body: zine } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Issue", status: "published" });
+    expect(zine.status).toBe("draft");
+
+    const refused = await act(zine.id, "unpublish");
+    expect(refused.status).toBe(409);
+    expect(refused.body).toMatchObject({ error: "Can't unpublish a draft zine", details: { status: "draft", allowedFrom: ["published"] } });
+
+    const archived = await act(zine.id, "archive");
+    expect(archived.body.zine.status).toBe("archived");
+    expect((await act(zine.id, "publish")).status).toBe(409);
+    expect((await edit(archived.body.zine, "Too late")).status).toBe(409);
+
+    expect((await act(zine.id, "shred")).status).toBe(404);
+    expect((await act("missing", "publish")).status).toBe(404);
+  });
+});
+
+describe("microsite export", () => {
+  async function publishedZine(): Promise<ZineWithDocument> {
+    const created = await request<{ id: string }>("POST", "/api/conversations", { title: "Binding chat", content: "User: Fold\n\nAssistant: Staple" });
+    const { body: ast } = await request<FloatASTRecord>("POST", `/api/conversations/${created.body.id}/parse`);
+    await request<Thread>("POST", "/api/threads", { floatAstId: ast.id, title: "Folding", nodeIds: [(ast.data as FloatAST).nodes[0].id] });
+    const { body: zine } = await request<ZineWithDocument>("POST", `/api/float-asts/${ast.id}/render`, {});
+    await request("POST", `/api/zines/${zine.id}/publish`);
+    return zine;
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("downloads the live edition as a zip", async () => {
+    const zine = await publishedZine();
+    const response = await fetch(`${baseUrl}/api/zines/${zine.id}/export/microsite?excerpts=true`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/zip");
+    expect(response.headers.get("content-disposition")).toBe('attachment; filename="binding-chat-edition-1.zip"');
+    const zip = Buffer.from(await response.arrayBuffer());
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    for (const name of ["index.html", "01-folding.html", "source.html", "style.css", "zine.json"]) {
+      expect(zip.includes(`binding-chat-edition-1/${name}`)).toBe(true);
+    }
+  });
+
+  it("writes the site under MICROSITE_DIR", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "sites-"));
+    vi.stubEnv("MICROSITE_DIR", root);
+    try {
+      const zine = await publishedZine();
+      const response = await request<{ directory: string; url: string; files: string[] }>("POST", `/api/zines/${zine.id}/export/microsite`, { edition: 1 });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        directory: path.join(root, zine.id, "edition-1"),
+        url: `/sites/${zine.id}/edition-1/`,
+        files: ["index.html", "01-folding.html", "style.css", "zine.json"],
+      });
+      expect(fs.readdirSync(response.body.directory)).toHaveLength(4);
+
+      // Unpublishing takes the written sites down, and a draft isn't written
+      await request("POST", `/api/zines/${zine.id}/unpublish`);
+      expect(fs.existsSync(path.join(root, zine.id))).toBe(false);
+      expect(await request("POST", `/api/zines/${zine.id}/export/microsite`, {})).toEqual({ status: 409, body: { error: "Zine is not published" } });
+
+      await request("POST", `/api/zines/${zine.id}/publish`);
+      await request("POST", `/api/zines/${zine.id}/export/microsite`, {});
+      expect((await request("DELETE", `/api/zines/${zine.id}`)).body).toEqual({ success: true });
+      expect(fs.existsSync(path.join(root, zine.id))).toBe(false);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses unpublished zines, missing editions and excerpts without a source", async () => {
+    const { body: draft } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Draft" });
+    expect((await request("GET", `/api/zines/${draft.id}/export/microsite`)).body).toEqual({ error: "Zine is not published" });
+    await request("POST", `/api/zines/${draft.id}/publish`);
+
+    const missing = await request("POST", `/api/zines/${draft.id}/export/microsite`, { edition: 2 });
+    expect(missing).toEqual({ status: 404, body: { error: "Edition not found" } });
+    const excerpts = await request("GET", `/api/zines/${draft.id}/export/microsite?excerpts=true`);
+    expect(excerpts).toEqual({ status: 400, body: { error: "This zine has no source conversation for excerpts" } });
+    expect((await request("GET", `/api/zines/${draft.id}/export/microsite?edition=first`)).status).toBe(400);
+    expect((await request("GET", "/api/zines/missing/export/microsite")).status).toBe(404);
+  });
+});
+
+describe("GET /api/zines/:id/export/pdf", () => {
+  it("sends the live edition as an imposed PDF", async () => {
+    const { body: zine } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Print Run", content: "Fold it twice." });
+    await request("POST", `/api/zines/${zine.id}/publish`);
+
+    const response = await fetch(`${baseUrl}/api/zines/${zine.id}/export/pdf?layout=minizine&paper=a4&cropMarks=true`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/pdf");
+    expect(response.headers.get("content-disposition")).toBe('attachment; filename="print-run-edition-1-minizine-a4.pdf"');
+    expect(Buffer.from(await response.arrayBuffer()).toString("latin1", 0, 8)).toBe("%PDF-1.4");
+  });
+
+  it("refuses unknown layouts, unpublished zines and minizines that don't fit", async () => {
+    const { body: zine } = await request<ZineWithDocument>("POST", "/api/zines", { title: "Long", content: "Fold the sheet. ".repeat(2000) });
+    expect((await request("GET", `/api/zines/${zine.id}/export/pdf`)).body).toEqual({ error: "Zine is not published" });
+    await request("POST", `/api/zines/${zine.id}/publish`);
+
+    expect((await request("GET", `/api/zines/${zine.id}/export/pdf?layout=poster`)).status).toBe(400);
+    expect((await request("GET", `/api/zines/${zine.id}/export/pdf?edition=2`)).status).toBe(404);
+    const tooLong = await request<{ error: string }>("GET", `/api/zines/${zine.id}/export/pdf?layout=minizine`);
+    expect(tooLong.status).toBe(400);
+    expect(tooLong.body.error).toMatch(/^Too long for a mini-zine/);
+    expect((await fetch(`${baseUrl}/api/zines/${zine.id}/export/pdf`)).status).toBe(200);
+  });
+});
@@ -1,15 +1,22 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertConversationSchema, insertZineSchema, type FloatAST, type FloatNode } from "@shared/schema";
-import OpenAI from 'openai';
+import path from "path";
+import { DuplicateEditionError, storage } from "./storage";
+import { FLOAT_EDGE_TYPES, FRAGMENT_STATUSES, insertConversationSchema, insertFragmentSchema, insertThreadSchema, insertZineSchema, zineDocumentSchema, type FloatAST, type FloatASTRecord, type Zine, type ZineEdition, type ZineEditionWithDocument, type ZineWithDocument } from "@shared/schema";
+import { getDialects } from "@shared/parser";
+import { ZINE_ACTIONS, ZINE_TRANSITIONS, canApplyZineAction, emptyZineDocument, parseZineContent, serializeZineDocument, textSection, zineNodeIds } from "@shared/zine";
+import { parseConversationToFloatAST } from "./floatast";
+import { exportImporters, saveImportedConversations } from "./importers";
+import { extractFragments, saveFragments } from "./fragments";
+import { bindFragments } from "./analysis/bind";
+import { suggestThreads } from "./analysis/suggest";
+import { renderZine } from "./render";
+import { buildMicrosite, micrositeFileName, micrositeRoot, removeMicrosites, writeMicrosite } from "./export/microsite";
+import { PAPER_SIZES, PRINT_LAYOUTS } from "./export/imposition";
+import { printFileName, printZine } from "./export/print";
+import { createZip, type ZipEntry } from "./export/zip";
+import { llm, stripCodeFence } from "./llm";
 import { z } from 'zod';
-import { randomUUID } from 'crypto';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Conversation routes
@@ -90,13 +97,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/conversations/:id/parse", async (req, res) => {
     try {
       const { id } = req.params;
+      const dialect = req.body?.dialect as string | undefined;
+      if (dialect && !getDialects().some(d => d.name === dialect)) {
+        return res.status(400).json({ error: `Unknown conversation dialect "${dialect}"` });
+      }
+
       const conversation = await storage.getConversation(id);
       if (!conversation) {
         return res.status(404).json({ error: "Conversation not found" });
       }
 
+      // Imported transcripts keep the speakers they were written with
+      const previous = conversation.floatAstId ? await storage.getFloatAST(conversation.floatAstId) : undefined;
+      const speakers = (previous?.data as FloatAST | undefined)?.metadata.transcript_speakers;
+
       // Parse conversation into FloatAST format
-      const floatAst = await parseConversationToFloatAST(conversation.content, conversation.title);
+      const floatAst = await parseConversationToFloatAST(conversation.content, conversation.title, dialect, speakers);
+      if (req.body?.semantic === "ai") {
+        await refineSemanticsWithAI(floatAst);
+      }
       const record = await storage.createFloatAST(floatAst.id, floatAst, conversation.userId || undefined);
       
       // Link the conversation to the FloatAST
@@ -109,6 +128,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Export importers: one Conversation plus FloatAST per imported chat
+  app.post("/api/import/:source", async (req, res) => {
+    const importer = exportImporters[req.params.source];
+    if (!importer) {
+      return res.status(404).json({ error: `Unknown import source "${req.params.source}"` });
+    }
+
+    try {
+      let imported;
+      try {
+        imported = importer.parse(req.body);
+      } catch (error) {
+        return res.status(400).json({ error: `Invalid ${importer.label} export`, details: error });
+      }
+
+      const userId = req.query.userId as string | undefined;
+      const summary = await saveImportedConversations(imported, userId);
+      res.status(201).json({
+        imported: summary.imported.length,
+        skipped: summary.skipped.length,
+        conversations: summary.imported.map(result => result.conversation),
+      });
+    } catch (error) {
+      console.error(`Error importing ${importer.label} export:`, error);
+      res.status(500).json({ error: `Failed to import ${importer.label} export` });
+    }
+  });
+
   // FloatAST routes
   app.get("/api/float-asts", async (req, res) => {
     try {
@@ -139,14 +186,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/float-asts/:id/extract-fragments", async (req, res) => {
     try {
       const { id } = req.params;
-      const { query, maxFragments = 10 } = req.body;
-      
+      const validation = siftRequestSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid sift request", details: validation.error });
+      }
+      const { query, maxFragments } = validation.data;
+
       const floatAst = await storage.getFloatAST(id);
       if (!floatAst) {
         return res.status(404).json({ error: "FloatAST not found" });
       }
 
-      const fragments = await extractFragmentsWithAI(floatAst.data as any, query, maxFragments);
+      const result = await extractFragments(floatAst.data as FloatAST, query, maxFragments);
+      const fragments = await saveFragments(id, query, result, floatAst.userId || undefined);
       res.json({ fragments });
     } catch (error) {
       console.error("Error extracting fragments:", error);
@@ -154,6 +206,301 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cluster a FloatAST's fragments into candidate threads; works offline
+  app.post("/api/float-asts/:id/bind", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = bindRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid bind request", details: validation.error });
+      }
+
+      const floatAst = await storage.getFloatAST(id);
+      if (!floatAst) {
+        return res.status(404).json({ error: "FloatAST not found" });
+      }
+
+      // Everything not rejected, unless specific fragments are named
+      const available = await storage.getFragments({ floatAstId: id });
+      const { fragmentIds } = validation.data;
+      const selected = fragmentIds
+        ? available.filter(fragment => fragmentIds.includes(fragment.id))
+        : available.filter(fragment => fragment.status !== "rejected");
+      if (fragmentIds && selected.length !== new Set(fragmentIds).size) {
+        return res.status(400).json({ error: "Some fragments don't belong to this FloatAST" });
+      }
+
+      const { threads, unbound } = bindFragments(floatAst.data as FloatAST, selected);
+      const byId = new Map(selected.map(fragment => [fragment.id, fragment]));
+      res.json({
+        threads: threads.map(thread => ({ ...thread, fragments: thread.fragmentIds.map(fragmentId => byId.get(fragmentId)) })),
+        unbound,
+      });
+    } catch (error) {
+      console.error("Error binding fragments:", error);
+      res.status(500).json({ error: "Failed to bind fragments" });
+    }
+  });
+
+  // Proposed threads grown from concepts and marker nodes along edges;
+  // nothing is saved
+  app.post("/api/float-asts/:id/suggest-threads", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = suggestRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid suggestion request", details: validation.error });
+      }
+
+      const floatAst = await storage.getFloatAST(id);
+      if (!floatAst) {
+        return res.status(404).json({ error: "FloatAST not found" });
+      }
+
+      // Leave out suggestions that match a thread that already exists
+      const existing = (await storage.getThreads({ floatAstId: id }))
+        .map(thread => [...thread.nodeIds].sort().join(","));
+      const suggestions = suggestThreads(floatAst.data as FloatAST, validation.data)
+        .filter(suggestion => !existing.includes([...suggestion.nodeIds].sort().join(",")));
+      res.json({ suggestions });
+    } catch (error) {
+      console.error("Error suggesting threads:", error);
+      res.status(500).json({ error: "Failed to suggest threads" });
+    }
+  });
+
+  // Lays the threads out as a zine and saves it as a draft
+  app.post("/api/float-asts/:id/render", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = renderRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid render request", details: validation.error });
+      }
+
+      const floatAst = await storage.getFloatAST(id);
+      if (!floatAst) {
+        return res.status(404).json({ error: "FloatAST not found" });
+      }
+
+      // Saved threads in position order, unless specific ones are named
+      const saved = await storage.getThreads({ floatAstId: id });
+      const { threadIds, title, depthLevel, userId } = validation.data;
+      const selected = threadIds
+        ? threadIds.map(threadId => saved.find(thread => thread.id === threadId))
+        : saved;
+      if (selected.some(thread => !thread)) {
+        return res.status(400).json({ error: "Some threads don't belong to this FloatAST" });
+      }
+      if (selected.length === 0) {
+        return res.status(400).json({ error: "No threads to render. Save threads for this FloatAST first." });
+      }
+
+      const conversation = await storage.getConversationByFloatAST(id);
+      const fragments = await storage.getFragments({ floatAstId: id });
+      const document = renderZine(floatAst.data as FloatAST, selected.map(thread => thread!), fragments, {
+        title: title ?? conversation?.title,
+        depthLevel,
+      });
+
+      const zine = await storage.createZine({
+        title: document.frontMatter.title,
+        content: serializeZineDocument(document),
+        floatAstId: id,
+        status: "draft",
+        userId,
+      });
+      res.status(201).json(withDocument(zine));
+    } catch (error) {
+      console.error("Error rendering zine:", error);
+      res.status(500).json({ error: "Failed to render zine" });
+    }
+  });
+
+  // Exported microsites
+  app.use("/sites", express.static(micrositeRoot()));
+
+  // Fragment routes
+  app.get("/api/fragments", async (req, res) => {
+    try {
+      const validation = fragmentFiltersSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid fragment filters", details: validation.error });
+      }
+
+      const fragments = await storage.getFragments(validation.data);
+      res.json(fragments);
+    } catch (error) {
+      console.error("Error fetching fragments:", error);
+      res.status(500).json({ error: "Failed to fetch fragments" });
+    }
+  });
+
+  app.get("/api/fragments/:id", async (req, res) => {
+    try {
+      const fragment = await storage.getFragment(req.params.id);
+      if (!fragment) {
+        return res.status(404).json({ error: "Fragment not found" });
+      }
+      res.json(fragment);
+    } catch (error) {
+      console.error("Error fetching fragment:", error);
+      res.status(500).json({ error: "Failed to fetch fragment" });
+    }
+  });
+
+  app.post("/api/fragments", async (req, res) => {
+    try {
+      const validation = insertFragmentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid fragment data", details: validation.error });
+      }
+
+      // Provenance must hold: the text is that slice of the node it names
+      const floatAst = await storage.getFloatAST(validation.data.floatAstId);
+      if (!floatAst) {
+        return res.status(404).json({ error: "FloatAST not found" });
+      }
+      const { nodeId, start, end, text } = validation.data;
+      const node = (floatAst.data as FloatAST).nodes.find(n => n.id === nodeId);
+      if (!node || node.content.raw.slice(start, end) !== text) {
+        return res.status(400).json({ error: "Fragment text does not match the referenced node" });
+      }
+
+      const fragment = await storage.createFragment(validation.data);
+      res.status(201).json(fragment);
+    } catch (error) {
+      console.error("Error creating fragment:", error);
+      res.status(500).json({ error: "Failed to create fragment" });
+    }
+  });
+
+  // Curation edits only; the source passage is fixed once stored
+  app.put("/api/fragments/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = fragmentUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid update data", details: validation.error });
+      }
+
+      const updated = await storage.updateFragment(id, validation.data);
+      if (!updated) {
+        return res.status(404).json({ error: "Fragment not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating fragment:", error);
+      res.status(500).json({ error: "Failed to update fragment" });
+    }
+  });
+
+  app.delete("/api/fragments/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteFragment(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Fragment not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting fragment:", error);
+      res.status(500).json({ error: "Failed to delete fragment" });
+    }
+  });
+
+  // Thread routes
+  app.get("/api/threads", async (req, res) => {
+    try {
+      const floatAstId = req.query.floatAstId as string | undefined;
+      const userId = req.query.userId as string | undefined;
+      const threads = await storage.getThreads({ floatAstId, userId });
+      res.json(threads);
+    } catch (error) {
+      console.error("Error fetching threads:", error);
+      res.status(500).json({ error: "Failed to fetch threads" });
+    }
+  });
+
+  app.get("/api/threads/:id", async (req, res) => {
+    try {
+      const thread = await storage.getThread(req.params.id);
+      if (!thread) {
+        return res.status(404).json({ error: "Thread not found" });
+      }
+      res.json(thread);
+    } catch (error) {
+      console.error("Error fetching thread:", error);
+      res.status(500).json({ error: "Failed to fetch thread" });
+    }
+  });
+
+  app.post("/api/threads", async (req, res) => {
+    try {
+      const validation = insertThreadSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid thread data", details: validation.error });
+      }
+
+      const floatAst = await storage.getFloatAST(validation.data.floatAstId);
+      if (!floatAst) {
+        return res.status(404).json({ error: "FloatAST not found" });
+      }
+      const unknown = unknownNodeIds(floatAst, validation.data.nodeIds || []);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: "Unknown node ids for this FloatAST", details: unknown });
+      }
+
+      // New threads go after the FloatAST's existing ones
+      const position = validation.data.position ?? (await storage.getThreads({ floatAstId: floatAst.id })).length;
+      const thread = await storage.createThread({ ...validation.data, position });
+      res.status(201).json(thread);
+    } catch (error) {
+      console.error("Error creating thread:", error);
+      res.status(500).json({ error: "Failed to create thread" });
+    }
+  });
+
+  app.put("/api/threads/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = threadUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid update data", details: validation.error });
+      }
+
+      const existing = await storage.getThread(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Thread not found" });
+      }
+      if (validation.data.nodeIds) {
+        const floatAst = await storage.getFloatAST(existing.floatAstId);
+        const unknown = floatAst ? unknownNodeIds(floatAst, validation.data.nodeIds) : validation.data.nodeIds;
+        if (unknown.length > 0) {
+          return res.status(400).json({ error: "Unknown node ids for this FloatAST", details: unknown });
+        }
+      }
+
+      const updated = await storage.updateThread(id, validation.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating thread:", error);
+      res.status(500).json({ error: "Failed to update thread" });
+    }
+  });
+
+  app.delete("/api/threads/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteThread(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Thread not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting thread:", error);
+      res.status(500).json({ error: "Failed to delete thread" });
+    }
+  });
+
   // Zine routes
   app.get("/api/zines", async (req, res) => {
     try {
@@ -166,185 +513,501 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/zines/:id", async (req, res) => {
+    try {
+      const zine = await storage.getZine(req.params.id);
+      if (!zine) {
+        return res.status(404).json({ error: "Zine not found" });
+      }
+      res.json(withDocument(zine));
+    } catch (error) {
+      console.error("Error fetching zine:", error);
+      res.status(500).json({ error: "Failed to fetch zine" });
+    }
+  });
+
+  // Takes a structured document, or plain text content that becomes one
+  // section; the zine's title is also the document's
   app.post("/api/zines", async (req, res) => {
     try {
-      const validation = insertZineSchema.safeParse(req.body);
+      const validation = zineCreateSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ error: "Invalid zine data", details: validation.error });
       }
-      
-      const zine = await storage.createZine(validation.data);
-      res.status(201).json(zine);
+
+      const { document: given, content, ...zineData } = validation.data;
+      const document = given ?? emptyZineDocument(zineData.title);
+      if (!given && content?.trim()) document.sections.push(textSection(content.trim()));
+      document.frontMatter.title = zineData.title;
+
+      if (zineData.floatAstId) {
+        const floatAst = await storage.getFloatAST(zineData.floatAstId);
+        if (!floatAst) {
+          return res.status(404).json({ error: "FloatAST not found" });
+        }
+        const unknown = unknownNodeIds(floatAst, zineNodeIds(document));
+        if (unknown.length > 0) {
+          return res.status(400).json({ error: "Unknown node ids for this FloatAST", details: unknown });
+        }
+        document.frontMatter.floatAstId = zineData.floatAstId;
+      }
+
+      const zine = await storage.createZine({ ...zineData, content: serializeZineDocument(document) });
+      res.status(201).json(withDocument(zine));
     } catch (error) {
       console.error("Error creating zine:", error);
       res.status(500).json({ error: "Failed to create zine" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Replaces the document; the title follows its front matter
+  app.put("/api/zines/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = zineUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid zine data", details: validation.error });
+      }
 
-// Helper function to parse conversation text into FloatAST structure
-async function parseConversationToFloatAST(content: string, title: string): Promise<FloatAST> {
-  const lines = content.split('\n').filter(line => line.trim());
-  const nodes: FloatNode[] = [];
-  const concepts: Record<string, any> = {};
-  const edges: any[] = [];
-  
-  let currentIndex = 0;
-  
-  for (const line of lines) {
-    // Basic parsing - identify message patterns
-    const messageMatch = line.match(/^([^:]+):\s*(.+)$/);
-    if (messageMatch) {
-      const [, author, text] = messageMatch;
-      
-      const node: FloatNode = {
-        id: `node-${randomUUID()}`,
-        type: "message",
-        role: author.toLowerCase().includes('assistant') ? 'assistant' : 'human',
-        content: {
-          raw: text,
-          processed: text.trim(),
-        },
-        position: {
-          index: currentIndex++,
-          depth: 0,
+      const zine = await storage.getZine(id);
+      if (!zine) {
+        return res.status(404).json({ error: "Zine not found" });
+      }
+      // Published zines stay editable: readers see the edition, not this copy
+      if (zine.status === "archived") {
+        return res.status(409).json({ error: "Archived zines can't be edited" });
+      }
+
+      const { document } = validation.data;
+      if (zine.floatAstId) {
+        const floatAst = await storage.getFloatAST(zine.floatAstId);
+        const unknown = floatAst ? unknownNodeIds(floatAst, zineNodeIds(document)) : [];
+        if (unknown.length > 0) {
+          return res.status(400).json({ error: "Unknown node ids for this FloatAST", details: unknown });
         }
-      };
-      
-      nodes.push(node);
-    } else if (line.trim()) {
-      // Handle other content as general nodes
-      const node: FloatNode = {
-        id: `node-${randomUUID()}`,
-        type: "message",
-        content: {
-          raw: line,
-          processed: line.trim(),
-        },
-        position: {
-          index: currentIndex++,
-          depth: 0,
+      }
+      // A zine stays with the FloatAST it was made from
+      document.frontMatter.floatAstId = zine.floatAstId ?? undefined;
+
+      const updated = await storage.updateZine(id, {
+        title: document.frontMatter.title,
+        content: serializeZineDocument(document),
+      });
+      res.json(withDocument(updated!));
+    } catch (error) {
+      console.error("Error updating zine:", error);
+      res.status(500).json({ error: "Failed to update zine" });
+    }
+  });
+
+  // Publishing: publish, republish, unpublish or archive. Publishing takes an
+  // immutable snapshot of the content as the zine's next edition.
+  app.post("/api/zines/:id/:action", async (req, res) => {
+    const action = ZINE_ACTIONS.find(name => name === req.params.action);
+    if (!action) {
+      return res.status(404).json({ error: `Unknown zine action "${req.params.action}"` });
+    }
+
+    try {
+      const { id } = req.params;
+      const zine = await storage.getZine(id);
+      if (!zine) {
+        return res.status(404).json({ error: "Zine not found" });
+      }
+      if (!canApplyZineAction(action, zine.status)) {
+        return res.status(409).json({
+          error: `Can't ${action} a ${zine.status} zine`,
+          details: { status: zine.status, allowedFrom: ZINE_TRANSITIONS[action].from },
+        });
+      }
+
+      let publishedAt: Date | null = zine.publishedAt;
+      let edition: ZineEdition | undefined;
+      if (action === "publish" || action === "republish") {
+        const content = serializeZineDocument(parseZineContent(zine.content, zine.title));
+        // A concurrent publish can take the number we read; read again and retry
+        for (let attempt = 1; !edition; attempt++) {
+          const editions = await storage.getZineEditions(id);
+          const latest = editions[editions.length - 1];
+          if (latest?.content === content) {
+            if (action === "republish") {
+              return res.status(409).json({ error: `Nothing changed since edition ${latest.edition}` });
+            }
+            // Publishing unchanged content again brings back the same edition
+            edition = latest;
+          } else {
+            try {
+              edition = await storage.createZineEdition({
+                zineId: id,
+                edition: (latest?.edition ?? 0) + 1,
+                title: zine.title,
+                content,
+                userId: zine.userId,
+              });
+            } catch (error) {
+              if (!(error instanceof DuplicateEditionError) || attempt === PUBLISH_ATTEMPTS) {
+                throw error;
+              }
+            }
+          }
         }
-      };
-      
-      nodes.push(node);
+        publishedAt = new Date();
+      } else if (action === "unpublish") {
+        publishedAt = null;
+      }
+
+      const updated = await storage.updateZine(id, { status: ZINE_TRANSITIONS[action].to, publishedAt });
+      // /sites is public, so sites written while the zine was live go with it.
+      // Archiving keeps them, as it keeps the live edition readable.
+      if (action === "unpublish") removeMicrosites(id);
+      res.json({ zine: withDocument(updated!), ...(edition ? { edition: editionWithDocument(edition) } : {}) });
+    } catch (error) {
+      console.error(`Error applying ${action} to zine:`, error);
+      res.status(500).json({ error: `Failed to ${action} zine` });
+    }
+  });
+
+  app.get("/api/zines/:id/editions", async (req, res) => {
+    try {
+      const zine = await storage.getZine(req.params.id);
+      if (!zine) {
+        return res.status(404).json({ error: "Zine not found" });
+      }
+      res.json(await storage.getZineEditions(zine.id));
+    } catch (error) {
+      console.error("Error fetching zine editions:", error);
+      res.status(500).json({ error: "Failed to fetch zine editions" });
+    }
+  });
+
+  app.get("/api/zines/:id/editions/:edition", async (req, res) => {
+    try {
+      const edition = await storage.getZineEdition(req.params.id, Number(req.params.edition));
+      if (!edition) {
+        return res.status(404).json({ error: "Edition not found" });
+      }
+      res.json(editionWithDocument(edition));
+    } catch (error) {
+      console.error("Error fetching zine edition:", error);
+      res.status(500).json({ error: "Failed to fetch zine edition" });
+    }
+  });
+
+  // What readers see: the latest edition, while the zine is published or
+  // was archived while published
+  app.get("/api/zines/:id/published", async (req, res) => {
+    try {
+      const zine = await storage.getZine(req.params.id);
+      if (!zine) {
+        return res.status(404).json({ error: "Zine not found" });
+      }
+      const edition = await liveEdition(zine);
+      if (!edition) {
+        return res.status(404).json({ error: "Zine is not published" });
+      }
+      res.json(editionWithDocument(edition));
+    } catch (error) {
+      console.error("Error fetching published zine:", error);
+      res.status(500).json({ error: "Failed to fetch published zine" });
+    }
+  });
+
+  // Static site for an edition, downloaded as a zip: the live edition unless
+  // ?edition= names another; ?excerpts=true adds the quoted source turns
+  app.get("/api/zines/:id/export/microsite", async (req, res) => {
+    try {
+      const validation = micrositeQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid microsite export", details: validation.error });
+      }
+
+      const site = await exportMicrosite(req.params.id, validation.data);
+      if ("error" in site) {
+        return res.status(site.status).json({ error: site.error });
+      }
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${site.name}.zip"`);
+      res.send(createZip(site.entries.map(entry => ({ ...entry, path: `${site.name}/${entry.path}` }))));
+    } catch (error) {
+      console.error("Error exporting microsite:", error);
+      res.status(500).json({ error: "Failed to export microsite" });
+    }
+  });
+
+  // Writes the site to MICROSITE_DIR, where /sites serves it. Only a live
+  // zine is written, since unpublishing removes its sites again.
+  app.post("/api/zines/:id/export/microsite", async (req, res) => {
+    try {
+      const validation = micrositeRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid microsite export", details: validation.error });
+      }
+
+      const zine = await storage.getZine(req.params.id);
+      if (!zine) {
+        return res.status(404).json({ error: "Zine not found" });
+      }
+      if (!zine.publishedAt) {
+        return res.status(409).json({ error: "Zine is not published" });
+      }
+
+      const site = await exportMicrosite(req.params.id, validation.data);
+      if ("error" in site) {
+        return res.status(site.status).json({ error: site.error });
+      }
+
+      const relative = `${req.params.id}/edition-${site.edition}`;
+      const directory = path.join(micrositeRoot(), relative);
+      writeMicrosite(site.entries, directory);
+      res.status(201).json({
+        directory,
+        url: `/sites/${relative}/`,
+        files: site.entries.map(entry => entry.path),
+      });
+    } catch (error) {
+      console.error("Error exporting microsite:", error);
+      res.status(500).json({ error: "Failed to export microsite" });
     }
+  });
+
+  // Print-ready PDF of an edition, imposed as a one-sheet minizine or a
+  // saddle-stitched booklet
+  app.get("/api/zines/:id/export/pdf", async (req, res) => {
+    try {
+      const validation = printQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid PDF export", details: validation.error });
+      }
+
+      const { edition: editionNumber, ...options } = validation.data;
+      const found = await exportedEdition(req.params.id, editionNumber);
+      if ("error" in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+
+      const edition = editionWithDocument(found.edition);
+      const printed = printZine(edition, options);
+      if ("error" in printed) {
+        return res.status(400).json({ error: printed.error });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${printFileName(edition, options)}"`);
+      res.send(printed.pdf);
+    } catch (error) {
+      console.error("Error exporting PDF:", error);
+      res.status(500).json({ error: "Failed to export PDF" });
+    }
+  });
+
+  app.delete("/api/zines/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteZine(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Zine not found" });
+      }
+      removeMicrosites(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting zine:", error);
+      res.status(500).json({ error: "Failed to delete zine" });
+    }
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
+
+// Tries at numbering a new edition before a publish gives up
+const PUBLISH_ATTEMPTS = 3;
+
+const fragmentFiltersSchema = z.object({
+  floatAstId: z.string().optional(),
+  category: z.string().optional(),
+  keyword: z.string().optional(),
+  status: z.enum(FRAGMENT_STATUSES).optional(),
+  userId: z.string().optional(),
+});
+
+const fragmentUpdateSchema = insertFragmentSchema.pick({
+  relevance: true,
+  keywords: true,
+  category: true,
+  status: true,
+}).partial().strict();
+
+// A thread stays with the FloatAST it was created for
+const threadUpdateSchema = insertThreadSchema.pick({
+  title: true,
+  nodeIds: true,
+  weight: true,
+  position: true,
+}).partial().strict();
+
+// New zines always start as drafts; publishing goes through its actions
+const zineCreateSchema = insertZineSchema.omit({
+  status: true,
+  publishedAt: true,
+}).extend({
+  content: z.string().optional(),
+  document: zineDocumentSchema.optional(),
+});
+
+const zineUpdateSchema = z.object({
+  document: zineDocumentSchema,
+}).strict();
+
+function withDocument(zine: Zine): ZineWithDocument {
+  return { ...zine, document: parseZineContent(zine.content, zine.title) };
+}
+
+function editionWithDocument(edition: ZineEdition): ZineEditionWithDocument {
+  return { ...edition, document: parseZineContent(edition.content, edition.title) };
+}
+
+// The edition readers see: the latest, while publishedAt is set
+async function liveEdition(zine: Zine): Promise<ZineEdition | undefined> {
+  if (!zine.publishedAt) return undefined;
+  const editions = await storage.getZineEditions(zine.id);
+  return editions[editions.length - 1];
+}
+
+const micrositeQuerySchema = z.object({
+  edition: z.coerce.number().int().min(1).optional(),
+  excerpts: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+const micrositeRequestSchema = z.object({
+  edition: z.number().int().min(1).optional(),
+  excerpts: z.boolean().default(false),
+});
+
+const printQuerySchema = z.object({
+  edition: z.coerce.number().int().min(1).optional(),
+  layout: z.enum(PRINT_LAYOUTS).default("booklet"),
+  paper: z.enum(PAPER_SIZES).default("letter"),
+  cropMarks: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+type ExportedEdition =
+  | { zine: Zine; edition: ZineEdition }
+  | { status: number; error: string };
+
+// Exports are of editions: the live one unless a number is given
+async function exportedEdition(zineId: string, editionNumber?: number): Promise<ExportedEdition> {
+  const zine = await storage.getZine(zineId);
+  if (!zine) return { status: 404, error: "Zine not found" };
+
+  const edition = editionNumber
+    ? await storage.getZineEdition(zineId, editionNumber)
+    : await liveEdition(zine);
+  if (!edition) {
+    return { status: 404, error: editionNumber ? "Edition not found" : "Zine is not published" };
+  }
+  return { zine, edition };
+}
+
+type MicrositeExport =
+  | { edition: number; name: string; entries: ZipEntry[] }
+  | { status: number; error: string };
+
+async function exportMicrosite(zineId: string, options: { edition?: number; excerpts: boolean }): Promise<MicrositeExport> {
+  const found = await exportedEdition(zineId, options.edition);
+  if ("error" in found) return found;
+  const { zine, edition } = found;
+
+  let floatAst: FloatAST | undefined;
+  if (options.excerpts) {
+    const record = zine.floatAstId ? await storage.getFloatAST(zine.floatAstId) : undefined;
+    if (!record) return { status: 400, error: "This zine has no source conversation for excerpts" };
+    floatAst = record.data as FloatAST;
   }
-  
-  const floatAst: FloatAST = {
-    id: `ast-${randomUUID()}`,
-    version: "1.0",
-    type: "conversation",
-    temporal: {
-      created: new Date().toISOString(),
-      modified: new Date().toISOString(),
-    },
-    metadata: {
-      source: "local",
-      project: title,
-      tags: [],
-    },
-    nodes,
-    concepts,
-    patterns: {
-      ctx_markers: 0,
-      float_dispatches: 0,
-      ritual_invocations: 0,
-      bridge_creates: 0,
-      persona_switches: nodes.filter(n => n.role === 'assistant').length,
-    },
-    edges,
-    transforms: {
-      preferred_output: "zine",
-      depth_level: 2,
-    },
+
+  const withDoc = editionWithDocument(edition);
+  return {
+    edition: edition.edition,
+    name: micrositeFileName(withDoc),
+    entries: buildMicrosite(withDoc, { floatAst }),
   };
-  
-  return floatAst;
 }
 
-// AI-powered fragment extraction using OpenAI
-async function extractFragmentsWithAI(floatAst: FloatAST, query: string, maxFragments: number = 10) {
+function unknownNodeIds(record: FloatASTRecord, nodeIds: string[]): string[] {
+  const known = new Set((record.data as FloatAST).nodes.map(node => node.id));
+  return nodeIds.filter(nodeId => !known.has(nodeId));
+}
+
+const suggestRequestSchema = z.object({
+  depth: z.number().int().min(0).max(5).default(1),
+  maxThreads: z.number().int().min(1).max(20).default(8),
+  edgeTypes: z.array(z.enum(FLOAT_EDGE_TYPES)).min(1).optional(),
+});
+
+const renderRequestSchema = z.object({
+  // Each thread becomes one section, so a repeat would print it twice
+  threadIds: z.array(z.string()).min(1)
+    .refine(ids => new Set(ids).size === ids.length, "Thread ids must not repeat")
+    .optional(),
+  title: z.string().trim().min(1).optional(),
+  depthLevel: z.number().int().min(1).max(5)
+    .transform(level => level as FloatAST["transforms"]["depth_level"])
+    .optional(),
+  userId: z.string().optional(),
+});
+
+const bindRequestSchema = z.object({
+  fragmentIds: z.array(z.string()).min(1).optional(),
+});
+
+const siftRequestSchema = z.object({
+  query: z.string().trim().min(1),
+  maxFragments: z.number().int().min(1).max(20).default(10),
+});
+
+const aiSemanticSchema = z.array(z.object({
+  index: z.number().int(),
+  intent: z.enum(["question", "statement", "command", "reflection"]),
+  emotional_tone: z.string(),
+  certainty: z.number().min(0).max(1),
+}));
+
+// Optional second opinion on the heuristic node.semantic values. Any
+// failure keeps the local analysis.
+async function refineSemanticsWithAI(floatAst: FloatAST) {
+  const provider = llm();
+  if (!provider) return;
+  const nodes = floatAst.nodes.filter(node => node.semantic).slice(0, 50);
+  if (nodes.length === 0) return;
+
   try {
-    const conversationText = floatAst.nodes.map(node => node.content.raw).join('\n');
-    
-    const prompt = `
-Analyze this conversation and extract ${maxFragments} meaningful fragments related to: "${query}"
+    const messages = nodes
+      .map((node, index) => `[${index}] ${node.author || "Unknown"}: ${node.content.raw.slice(0, 500)}`)
+      .join('\n\n');
 
-Conversation:
-${conversationText}
+    const prompt = `
+Analyze each message for intent, tone, and certainty:
 
-For each fragment, provide:
-1. The exact text excerpt
-2. A brief explanation of its relevance to the query
-3. Keywords or concepts it contains
-4. A suggested thread category
+${messages}
 
-Format as JSON array with objects containing: text, relevance, keywords, category
+Respond with a JSON array, one object per message:
+[{ "index": 0, "intent": "question|statement|command|reflection", "emotional_tone": "one_word_description", "certainty": 0.0-1.0 }]
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert at analyzing conversations and extracting meaningful insights. Focus on finding the most relevant and interesting fragments that relate to the user's query."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 2000,
+    const content = await provider.complete({
+      operation: "semantic",
+      messages: [{ role: "user", content: prompt }],
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response from OpenAI");
+    const results = aiSemanticSchema.safeParse(JSON.parse(stripCodeFence(content)));
+    if (!results.success) {
+      console.warn("AI semantic analysis returned unexpected data, keeping heuristics");
+      return;
     }
 
-    try {
-      return JSON.parse(content);
-    } catch (parseError) {
-      // Fallback: extract fragments manually if AI response isn't valid JSON
-      console.warn("AI response wasn't valid JSON, falling back to manual extraction");
-      return extractFragmentsManually(floatAst, query, maxFragments);
+    for (const { index, ...semantic } of results.data) {
+      if (nodes[index]) nodes[index].semantic = semantic;
     }
   } catch (error) {
-    console.error("Error with OpenAI:", error);
-    // Fallback to manual extraction
-    return extractFragmentsManually(floatAst, query, maxFragments);
-  }
-}
-
-// Fallback manual fragment extraction
-function extractFragmentsManually(floatAst: FloatAST, query: string, maxFragments: number) {
-  const queryWords = query.toLowerCase().split(/\s+/);
-  const fragments: any[] = [];
-  
-  for (const node of floatAst.nodes) {
-    const text = node.content.raw.toLowerCase();
-    const relevanceScore = queryWords.reduce((score, word) => {
-      return text.includes(word) ? score + 1 : score;
-    }, 0);
-    
-    if (relevanceScore > 0) {
-      fragments.push({
-        text: node.content.raw,
-        relevance: `Contains ${relevanceScore} query terms`,
-        keywords: queryWords.filter(word => text.includes(word)),
-        category: "General",
-        score: relevanceScore,
-      });
-    }
+    console.warn("AI semantic analysis failed, keeping heuristics:", error);
   }
-  
-  return fragments
-    .sort((a, b) => b.score - a.score)
-    .slice(0, maxFragments)
-    .map(({ score, ...fragment }) => fragment);
 }
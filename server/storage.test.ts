@@ -0,0 +1,376 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as schema from "@shared/schema";
+import type { FloatAST, Thread } from "@shared/schema";
+import { DbStorage, DuplicateEditionError, FileStorage, MemStorage, createStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't load its CommonJS dependencies, so use its CJS entry
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+function floatAst(id: string): FloatAST {
+  return {
+    id,
+    version: "1.0",
+    type: "conversation",
+    temporal: { created: "2025-09-12T10:00:00.000Z" },
+    metadata: { source: "local" },
+    nodes: [],
+    concepts: {},
+    patterns: { float_dispatches: 0, ritual_invocations: 0, bridge_creates: 0, persona_switches: 0 },
+    edges: [],
+    transforms: { preferred_output: "thread_reader", depth_level: 1 },
+  };
+}
+
+// The checks every IStorage backend has to pass
+function describeStorage(name: string, create: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await create();
+    });
+
+    it("creates, finds and filters users' conversations", async () => {
+      const user = await storage.createUser({ username: "ana", password: "secret" });
+      expect(await storage.getUserByUsername("ana")).toEqual(user);
+      expect(await storage.getUser("missing")).toBeUndefined();
+
+      const mine = await storage.createConversation({ title: "Mine", content: "User: hi", userId: user.id });
+      await storage.createConversation({ title: "Theirs", content: "" });
+
+      expect(mine).toMatchObject({ title: "Mine", floatAstId: null, userId: user.id });
+      expect(mine.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getConversation(mine.id)).toEqual(mine);
+      expect((await storage.getConversations(user.id)).map(conversation => conversation.title)).toEqual(["Mine"]);
+      expect(await storage.getConversations()).toHaveLength(2);
+    });
+
+    it("finds the conversation a FloatAST was parsed from", async () => {
+      await storage.createFloatAST("ast-1", floatAst("ast-1"));
+      await storage.createConversation({ title: "Other", content: "" });
+      const parsed = await storage.createConversation({ title: "Parsed", content: "", floatAstId: "ast-1" });
+
+      expect(await storage.getConversationByFloatAST("ast-1")).toEqual(parsed);
+      expect(await storage.getConversationByFloatAST("missing")).toBeUndefined();
+    });
+
+    it("updates and deletes conversations", async () => {
+      const conversation = await storage.createConversation({ title: "Draft", content: "" });
+
+      expect(await storage.updateConversation(conversation.id, { title: "Final" })).toMatchObject({ title: "Final" });
+      expect(await storage.updateConversation(conversation.id, {})).toMatchObject({ title: "Final" });
+      expect(await storage.updateConversation("missing", { title: "x" })).toBeUndefined();
+
+      expect(await storage.deleteConversation(conversation.id)).toBe(true);
+      expect(await storage.deleteConversation(conversation.id)).toBe(false);
+      expect(await storage.getConversation(conversation.id)).toBeUndefined();
+    });
+
+    it("stores FloatASTs under the id they are given", async () => {
+      const record = await storage.createFloatAST("ast-1", floatAst("ast-1"));
+      expect(record).toMatchObject({ id: "ast-1", userId: null, data: floatAst("ast-1") });
+
+      const changed = { ...floatAst("ast-1"), metadata: { source: "claude" as const } };
+      expect((await storage.updateFloatAST("ast-1", changed))?.data).toEqual(changed);
+      expect(await storage.updateFloatAST("missing", changed)).toBeUndefined();
+      expect((await storage.getFloatASTs()).map(ast => ast.id)).toEqual(["ast-1"]);
+    });
+
+    it("creates zines as unpublished drafts", async () => {
+      const zine = await storage.createZine({ title: "Zine", content: "" });
+      expect(zine).toMatchObject({ status: "draft", publishedAt: null, floatAstId: null });
+
+      expect(await storage.updateZine(zine.id, { status: "published" })).toMatchObject({ status: "published" });
+      expect(await storage.deleteZine(zine.id)).toBe(true);
+      expect(await storage.getZines()).toEqual([]);
+    });
+
+    it("keeps zine editions in order and drops them with their zine", async () => {
+      const zine = await storage.createZine({ title: "Zine", content: "" });
+      const other = await storage.createZine({ title: "Other", content: "" });
+      await storage.createZineEdition({ zineId: zine.id, edition: 2, title: "Zine", content: "second" });
+      const first = await storage.createZineEdition({ zineId: zine.id, edition: 1, title: "Zine", content: "first" });
+      await storage.createZineEdition({ zineId: other.id, edition: 1, title: "Other", content: "other" });
+
+      expect(first).toMatchObject({ edition: 1, content: "first", userId: null });
+      expect(first.publishedAt).toBeInstanceOf(Date);
+      expect((await storage.getZineEditions(zine.id)).map(edition => edition.content)).toEqual(["first", "second"]);
+      expect(await storage.getZineEdition(zine.id, 1)).toEqual(first);
+      expect(await storage.getZineEdition(zine.id, 3)).toBeUndefined();
+
+      expect(await storage.deleteZine(zine.id)).toBe(true);
+      expect(await storage.getZineEditions(zine.id)).toEqual([]);
+      expect(await storage.getZineEditions(other.id)).toHaveLength(1);
+    });
+
+    it("refuses an edition number the zine already has", async () => {
+      const zine = await storage.createZine({ title: "Zine", content: "" });
+      await storage.createZineEdition({ zineId: zine.id, edition: 1, title: "Zine", content: "first" });
+
+      await expect(storage.createZineEdition({ zineId: zine.id, edition: 1, title: "Zine", content: "racing" }))
+        .rejects.toThrow(DuplicateEditionError);
+      expect((await storage.getZineEditions(zine.id)).map(edition => edition.content)).toEqual(["first"]);
+    });
+
+    it("creates, filters, curates and deletes fragments", async () => {
+      await storage.createFloatAST("ast-1", floatAst("ast-1"));
+      await storage.createFloatAST("ast-2", floatAst("ast-2"));
+      const fragment = await storage.createFragment({
+        floatAstId: "ast-1", nodeId: "n0", start: 0, end: 4, text: "Fold", keywords: ["Binding"], category: "Craft",
+      });
+      await storage.createFragment({ floatAstId: "ast-2", nodeId: "n0", start: 0, end: 5, text: "Print", status: "accepted" });
+
+      expect(fragment).toMatchObject({ relevance: "", query: null, extractedBy: null, status: "pending", userId: null });
+      expect(await storage.getFragment(fragment.id)).toEqual(fragment);
+      expect(await storage.getFragments()).toHaveLength(2);
+      expect((await storage.getFragments({ floatAstId: "ast-2" })).map(each => each.text)).toEqual(["Print"]);
+      expect((await storage.getFragments({ category: "craft", keyword: "binding" })).map(each => each.text)).toEqual(["Fold"]);
+      expect(await storage.getFragments({ keyword: "bind" })).toEqual([]);
+      expect((await storage.getFragments({ status: "accepted" })).map(each => each.text)).toEqual(["Print"]);
+
+      const starred = await storage.updateFragment(fragment.id, { status: "starred" });
+      expect(starred).toMatchObject({ status: "starred", text: "Fold" });
+      expect(starred!.modifiedAt!.getTime()).toBeGreaterThanOrEqual(fragment.modifiedAt!.getTime());
+      expect(await storage.updateFragment("missing", { status: "starred" })).toBeUndefined();
+
+      expect(await storage.deleteFragment(fragment.id)).toBe(true);
+      expect(await storage.deleteFragment(fragment.id)).toBe(false);
+      expect(await storage.getFragment(fragment.id)).toBeUndefined();
+    });
+
+    it("lists threads in position order and updates them", async () => {
+      await storage.createFloatAST("ast-1", floatAst("ast-1"));
+      await storage.createFloatAST("ast-2", floatAst("ast-2"));
+      const second = await storage.createThread({ floatAstId: "ast-1", title: "Second", position: 1 });
+      const first = await storage.createThread({ floatAstId: "ast-1", title: "First", nodeIds: ["n0", "n2"] });
+      await storage.createThread({ floatAstId: "ast-2", title: "Elsewhere" });
+
+      expect(second).toMatchObject({ nodeIds: [], weight: 0.5, position: 1, userId: null });
+      expect(await storage.getThread(first.id)).toEqual(first);
+      expect((await storage.getThreads({ floatAstId: "ast-1" })).map(thread => thread.title)).toEqual(["First", "Second"]);
+      expect(await storage.getThreads()).toHaveLength(3);
+
+      // Equal positions fall back to creation order
+      await storage.updateThread(second.id, { position: 0, weight: 0.9 });
+      expect((await storage.getThreads({ floatAstId: "ast-1" })).map(thread => [thread.title, thread.weight])).toEqual([["Second", 0.9], ["First", 0.5]]);
+      expect(await storage.updateThread("missing", { title: "x" })).toBeUndefined();
+
+      expect(await storage.deleteThread(first.id)).toBe(true);
+      expect(await storage.deleteThread(first.id)).toBe(false);
+      expect(await storage.getThread(first.id)).toBeUndefined();
+    });
+
+    it("unlinks conversations and zines from a deleted FloatAST", async () => {
+      await storage.createFloatAST("ast-1", floatAst("ast-1"));
+      const conversation = await storage.createConversation({ title: "Notes", content: "", floatAstId: "ast-1" });
+      const zine = await storage.createZine({ title: "Zine", content: "", floatAstId: "ast-1" });
+
+      expect(await storage.deleteFloatAST("ast-1")).toBe(true);
+      expect(await storage.deleteFloatAST("ast-1")).toBe(false);
+      expect(await storage.getFloatAST("ast-1")).toBeUndefined();
+      expect((await storage.getConversation(conversation.id))?.floatAstId).toBeNull();
+      expect((await storage.getZine(zine.id))?.floatAstId).toBeNull();
+    });
+
+    it("deletes a FloatAST's fragments and threads with it", async () => {
+      await storage.createFloatAST("ast-1", floatAst("ast-1"));
+      await storage.createFloatAST("ast-2", floatAst("ast-2"));
+      await storage.createFragment({ floatAstId: "ast-1", nodeId: "n0", start: 0, end: 4, text: "Fold" });
+      await storage.createThread({ floatAstId: "ast-1", title: "Folding" });
+      const kept = await storage.createFragment({ floatAstId: "ast-2", nodeId: "n0", start: 0, end: 5, text: "Print" });
+      const thread = await storage.createThread({ floatAstId: "ast-2", title: "Printing" });
+
+      expect(await storage.deleteFloatAST("ast-1")).toBe(true);
+      expect(await storage.getFragments()).toEqual([kept]);
+      expect(await storage.getThreads()).toEqual([thread]);
+    });
+  });
+}
+
+const dataDirs: string[] = [];
+
+function tempDataDir(): string {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "float-storage-"));
+  dataDirs.push(dataDir);
+  return dataDir;
+}
+
+afterAll(() => {
+  for (const dataDir of dataDirs) fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describeStorage("MemStorage", async () => new MemStorage());
+describeStorage("FileStorage", async () => new FileStorage(tempDataDir()));
+
+// One in-process Postgres for the suite, with the schema recreated per test
+const pglite = new PGlite();
+const migration: Promise<string[]> = generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+
+describeStorage("DbStorage", async () => {
+  await pglite.exec("DROP SCHEMA public CASCADE; CREATE SCHEMA public;");
+  for (const statement of await migration) await pglite.exec(statement);
+  return new DbStorage(drizzle(pglite, { schema }));
+});
+
+afterAll(() => pglite.close());
+
+describe("MemStorage thread order", () => {
+  // Records restored from older snapshots may lack a creation time
+  class SeededStorage extends MemStorage {
+    seed(thread: Thread) {
+      this.threads.set(thread.id, thread);
+    }
+  }
+
+  it("sorts threads without a creation time before dated ones at the same position", async () => {
+    const storage = new SeededStorage();
+    await storage.createThread({ floatAstId: "ast-1", title: "Dated" });
+    storage.seed({
+      id: "undated", floatAstId: "ast-1", title: "Undated", nodeIds: [], weight: 0.5, position: 0,
+      createdAt: null, modifiedAt: null, userId: null,
+    });
+
+    expect((await storage.getThreads()).map(thread => thread.title)).toEqual(["Undated", "Dated"]);
+  });
+});
+
+describe("FileStorage recovery", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = tempDataDir();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("replays the journal into a new instance", async () => {
+    const storage = new FileStorage(dataDir);
+    const conversation = await storage.createConversation({ title: "Notes", content: "User: hi" });
+    await storage.updateConversation(conversation.id, { title: "Renamed" });
+    const deleted = await storage.createConversation({ title: "Gone", content: "" });
+    await storage.deleteConversation(deleted.id);
+    const fragment = await storage.createFragment({ floatAstId: "ast-1", nodeId: "n0", start: 0, end: 2, text: "hi" });
+    await storage.updateFragment(fragment.id, { status: "accepted" });
+
+    const reopened = new FileStorage(dataDir);
+    expect(await reopened.getConversations()).toEqual([{ ...conversation, title: "Renamed" }]);
+    expect((await reopened.getConversation(conversation.id))?.createdAt).toBeInstanceOf(Date);
+    expect((await reopened.getFragment(fragment.id))?.status).toBe("accepted");
+  });
+
+  it("replays a zine's editions and their removal with the zine", async () => {
+    const storage = new FileStorage(dataDir);
+    const kept = await storage.createZine({ title: "Kept", content: "" });
+    const gone = await storage.createZine({ title: "Gone", content: "" });
+    await storage.createZineEdition({ zineId: kept.id, edition: 1, title: "Kept", content: "kept" });
+    await storage.createZineEdition({ zineId: gone.id, edition: 1, title: "Gone", content: "gone" });
+    await storage.deleteZine(gone.id);
+
+    const reopened = new FileStorage(dataDir);
+    expect((await reopened.getZineEditions(kept.id)).map(edition => edition.content)).toEqual(["kept"]);
+    expect((await reopened.getZineEdition(kept.id, 1))?.publishedAt).toBeInstanceOf(Date);
+    expect(await reopened.getZineEditions(gone.id)).toEqual([]);
+  });
+
+  it("replays a FloatAST's removal with its fragments and threads", async () => {
+    const storage = new FileStorage(dataDir);
+    await storage.createFloatAST("ast-1", floatAst("ast-1"));
+    const conversation = await storage.createConversation({ title: "Notes", content: "", floatAstId: "ast-1" });
+    await storage.createFragment({ floatAstId: "ast-1", nodeId: "n0", start: 0, end: 4, text: "Fold" });
+    await storage.createThread({ floatAstId: "ast-1", title: "Folding" });
+    await storage.deleteFloatAST("ast-1");
+
+    const reopened = new FileStorage(dataDir);
+    expect(await reopened.getFloatAST("ast-1")).toBeUndefined();
+    expect(await reopened.getFragments()).toEqual([]);
+    expect(await reopened.getThreads()).toEqual([]);
+    expect((await reopened.getConversation(conversation.id))?.floatAstId).toBeNull();
+  });
+
+  it("drops a torn final entry and keeps appending after it", async () => {
+    const storage = new FileStorage(dataDir);
+    await storage.createConversation({ title: "Kept", content: "" });
+    const journal = path.join(dataDir, "journal.jsonl");
+    const intact = fs.readFileSync(journal, "utf-8");
+    fs.appendFileSync(journal, '{"seq":2,"op":"put","table":"conv');
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const reopened = new FileStorage(dataDir);
+    expect(warn).toHaveBeenCalledOnce();
+    expect(fs.readFileSync(journal, "utf-8")).toBe(intact);
+    await reopened.createConversation({ title: "After", content: "" });
+
+    const titles = (await new FileStorage(dataDir).getConversations()).map(conversation => conversation.title);
+    expect(titles).toEqual(["Kept", "After"]);
+  });
+
+  it("compacts into a snapshot and replays only newer entries", async () => {
+    const storage = new FileStorage(dataDir, 3);
+    for (const title of ["one", "two", "three", "four"]) {
+      await storage.createConversation({ title, content: "" });
+    }
+
+    expect(fs.existsSync(path.join(dataDir, "snapshot.json"))).toBe(true);
+    expect(fs.readFileSync(path.join(dataDir, "journal.jsonl"), "utf-8").trim().split("\n")).toHaveLength(1);
+    const titles = (await new FileStorage(dataDir).getConversations()).map(conversation => conversation.title);
+    expect(titles).toEqual(["one", "two", "three", "four"]);
+  });
+
+  it("makes the snapshot's rename durable before truncating the journal", async () => {
+    const storage = new FileStorage(dataDir);
+    await storage.createConversation({ title: "one", content: "" });
+    const calls: string[] = [];
+    const openSync = fs.openSync;
+    let dirFd: number | undefined;
+    vi.spyOn(fs, "openSync").mockImplementation((file, flags) => {
+      const fd = openSync(file, flags);
+      if (file === dataDir) dirFd = fd;
+      return fd;
+    });
+    const renameSync = fs.renameSync;
+    vi.spyOn(fs, "renameSync").mockImplementation((from, to) => {
+      calls.push("rename");
+      renameSync(from, to);
+    });
+    const fsyncSync = fs.fsyncSync;
+    vi.spyOn(fs, "fsyncSync").mockImplementation(fd => {
+      if (fd === dirFd) calls.push("fsync directory");
+      fsyncSync(fd);
+    });
+    const ftruncateSync = fs.ftruncateSync;
+    vi.spyOn(fs, "ftruncateSync").mockImplementation((fd, length) => {
+      calls.push("truncate journal");
+      ftruncateSync(fd, length);
+    });
+
+    storage.snapshot();
+    expect(calls).toEqual(["rename", "fsync directory", "truncate journal"]);
+  });
+});
+
+describe("createStorage", () => {
+  it("uses memory unless a database is configured", () => {
+    expect(createStorage({})).toBeInstanceOf(MemStorage);
+    expect(createStorage({ STORAGE_DRIVER: "memory", DATABASE_URL: "postgres://localhost/float" })).toBeInstanceOf(MemStorage);
+    expect(createStorage({ DATABASE_URL: "postgres://localhost/float" })).toBeInstanceOf(DbStorage);
+    expect(createStorage({ STORAGE_DRIVER: "file", STORAGE_DIR: tempDataDir() })).toBeInstanceOf(FileStorage);
+    expect(createStorage({ STORAGE_DRIVER: "file", STORAGE_DIR: tempDataDir(), STORAGE_SNAPSHOT_EVERY: "50" })).toBeInstanceOf(FileStorage);
+  });
+
+  it("rejects bad configuration", () => {
+    expect(() => createStorage({ STORAGE_DRIVER: "redis" })).toThrow('Unknown STORAGE_DRIVER "redis"');
+    expect(() => createStorage({ STORAGE_DRIVER: "postgres" })).toThrow("requires DATABASE_URL");
+    for (const value of ["0", "ten", "2.5"]) {
+      expect(() => createStorage({ STORAGE_DRIVER: "file", STORAGE_DIR: tempDataDir(), STORAGE_SNAPSHOT_EVERY: value }))
+        .toThrow(`STORAGE_SNAPSHOT_EVERY must be a positive integer, got "${value}"`);
+    }
+  });
+});
@@ -1,9 +1,27 @@
-import { type User, type InsertUser, type Conversation, type InsertConversation, type FloatAST, type FloatASTRecord, type Zine, type InsertZine } from "@shared/schema";
+import { type User, type InsertUser, type Conversation, type InsertConversation, type FloatAST, type FloatASTRecord, type Zine, type InsertZine, type ZineEdition, type InsertZineEdition, type Fragment, type InsertFragment, type Thread, type InsertThread, users, conversations, floatAsts, zines, zineEditions, fragments, threads } from "@shared/schema";
 import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { and, asc, eq, sql, type SQL } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
 
+// Every filter is optional; category and keyword match case-insensitively
+export interface FragmentFilters {
+  floatAstId?: string;
+  category?: string;
+  keyword?: string;
+  status?: string;
+  userId?: string;
+}
+
+export interface ThreadFilters {
+  floatAstId?: string;
+  userId?: string;
+}
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -13,6 +31,8 @@ export interface IStorage {
   // Conversation operations
   getConversations(userId?: string): Promise<Conversation[]>;
   getConversation(id: string): Promise<Conversation | undefined>;
+  // The conversation a FloatAST was parsed from
+  getConversationByFloatAST(floatAstId: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined>;
   deleteConversation(id: string): Promise<boolean>;
@@ -30,19 +50,53 @@ export interface IStorage {
   createZine(zine: InsertZine): Promise<Zine>;
   updateZine(id: string, updates: Partial<InsertZine>): Promise<Zine | undefined>;
   deleteZine(id: string): Promise<boolean>;
+
+  // Zine editions are immutable: created, never updated. Lists come back in
+  // edition order and go away with their zine. Creating an edition number
+  // the zine already has throws DuplicateEditionError.
+  getZineEditions(zineId: string): Promise<ZineEdition[]>;
+  getZineEdition(zineId: string, edition: number): Promise<ZineEdition | undefined>;
+  createZineEdition(edition: InsertZineEdition): Promise<ZineEdition>;
+
+  // Fragment operations
+  getFragments(filters?: FragmentFilters): Promise<Fragment[]>;
+  getFragment(id: string): Promise<Fragment | undefined>;
+  createFragment(fragment: InsertFragment): Promise<Fragment>;
+  updateFragment(id: string, updates: Partial<InsertFragment>): Promise<Fragment | undefined>;
+  deleteFragment(id: string): Promise<boolean>;
+
+  // Thread operations; lists come back in position order
+  getThreads(filters?: ThreadFilters): Promise<Thread[]>;
+  getThread(id: string): Promise<Thread | undefined>;
+  createThread(thread: InsertThread): Promise<Thread>;
+  updateThread(id: string, updates: Partial<InsertThread>): Promise<Thread | undefined>;
+  deleteThread(id: string): Promise<boolean>;
+}
+
+export class DuplicateEditionError extends Error {
+  constructor(zineId: string, edition: number) {
+    super(`Zine ${zineId} already has edition ${edition}`);
+    this.name = "DuplicateEditionError";
+  }
 }
 
 export class MemStorage implements IStorage {
-  private users: Map<string, User>;
-  private conversations: Map<string, Conversation>;
-  private floatAsts: Map<string, FloatASTRecord>;
-  private zines: Map<string, Zine>;
+  protected users: Map<string, User>;
+  protected conversations: Map<string, Conversation>;
+  protected floatAsts: Map<string, FloatASTRecord>;
+  protected zines: Map<string, Zine>;
+  protected zineEditions: Map<string, ZineEdition>;
+  protected fragments: Map<string, Fragment>;
+  protected threads: Map<string, Thread>;
 
   constructor() {
     this.users = new Map();
     this.conversations = new Map();
     this.floatAsts = new Map();
     this.zines = new Map();
+    this.zineEditions = new Map();
+    this.fragments = new Map();
+    this.threads = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -72,13 +126,17 @@ export class MemStorage implements IStorage {
     return this.conversations.get(id);
   }
 
+  async getConversationByFloatAST(floatAstId: string): Promise<Conversation | undefined> {
+    return Array.from(this.conversations.values()).find(c => c.floatAstId === floatAstId);
+  }
+
   async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
     const id = randomUUID();
     const conversation: Conversation = {
       ...insertConversation,
       id,
       floatAstId: insertConversation.floatAstId || null,
-      createdAt: new Date(),
+      createdAt: insertConversation.createdAt || new Date(),
       userId: insertConversation.userId || null,
     };
     this.conversations.set(id, conversation);
@@ -133,7 +191,22 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  // Matches DbStorage's foreign keys: fragments and threads are deleted with
+  // the FloatAST, conversations and zines only lose their link to it
   async deleteFloatAST(id: string): Promise<boolean> {
+    if (!this.floatAsts.has(id)) return false;
+    for (const fragment of Array.from(this.fragments.values())) {
+      if (fragment.floatAstId === id) this.fragments.delete(fragment.id);
+    }
+    for (const thread of Array.from(this.threads.values())) {
+      if (thread.floatAstId === id) this.threads.delete(thread.id);
+    }
+    for (const conversation of Array.from(this.conversations.values())) {
+      if (conversation.floatAstId === id) this.conversations.set(conversation.id, { ...conversation, floatAstId: null });
+    }
+    for (const zine of Array.from(this.zines.values())) {
+      if (zine.floatAstId === id) this.zines.set(zine.id, { ...zine, floatAstId: null });
+    }
     return this.floatAsts.delete(id);
   }
 
@@ -172,8 +245,707 @@ export class MemStorage implements IStorage {
   }
 
   async deleteZine(id: string): Promise<boolean> {
+    for (const edition of Array.from(this.zineEditions.values())) {
+      if (edition.zineId === id) this.zineEditions.delete(edition.id);
+    }
     return this.zines.delete(id);
   }
+
+  // Zine edition operations
+  async getZineEditions(zineId: string): Promise<ZineEdition[]> {
+    return Array.from(this.zineEditions.values())
+      .filter(e => e.zineId === zineId)
+      .sort((a, b) => a.edition - b.edition);
+  }
+
+  async getZineEdition(zineId: string, edition: number): Promise<ZineEdition | undefined> {
+    return Array.from(this.zineEditions.values()).find(e => e.zineId === zineId && e.edition === edition);
+  }
+
+  async createZineEdition(insertEdition: InsertZineEdition): Promise<ZineEdition> {
+    if (await this.getZineEdition(insertEdition.zineId, insertEdition.edition)) {
+      throw new DuplicateEditionError(insertEdition.zineId, insertEdition.edition);
+    }
+    const id = randomUUID();
+    const edition: ZineEdition = {
+      ...insertEdition,
+      id,
+      publishedAt: new Date(),
+      userId: insertEdition.userId || null,
+    };
+    this.zineEditions.set(id, edition);
+    return edition;
+  }
+
+  // Fragment operations
+  async getFragments(filters: FragmentFilters = {}): Promise<Fragment[]> {
+    const category = filters.category?.toLowerCase();
+    const keyword = filters.keyword?.toLowerCase();
+    return Array.from(this.fragments.values()).filter(f =>
+      (!filters.floatAstId || f.floatAstId === filters.floatAstId) &&
+      (!category || f.category.toLowerCase() === category) &&
+      (!keyword || f.keywords.some(k => k.toLowerCase() === keyword)) &&
+      (!filters.status || f.status === filters.status) &&
+      (!filters.userId || f.userId === filters.userId)
+    );
+  }
+
+  async getFragment(id: string): Promise<Fragment | undefined> {
+    return this.fragments.get(id);
+  }
+
+  async createFragment(insertFragment: InsertFragment): Promise<Fragment> {
+    const id = randomUUID();
+    const fragment: Fragment = {
+      ...insertFragment,
+      id,
+      relevance: insertFragment.relevance || "",
+      keywords: insertFragment.keywords || [],
+      category: insertFragment.category || "General",
+      query: insertFragment.query || null,
+      extractedBy: insertFragment.extractedBy || null,
+      status: insertFragment.status || "pending",
+      createdAt: new Date(),
+      modifiedAt: new Date(),
+      userId: insertFragment.userId || null,
+    };
+    this.fragments.set(id, fragment);
+    return fragment;
+  }
+
+  async updateFragment(id: string, updates: Partial<InsertFragment>): Promise<Fragment | undefined> {
+    const existing = this.fragments.get(id);
+    if (!existing) return undefined;
+
+    const updated: Fragment = { ...existing, ...updates, modifiedAt: new Date() };
+    this.fragments.set(id, updated);
+    return updated;
+  }
+
+  async deleteFragment(id: string): Promise<boolean> {
+    return this.fragments.delete(id);
+  }
+
+  // Thread operations
+  async getThreads(filters: ThreadFilters = {}): Promise<Thread[]> {
+    return Array.from(this.threads.values())
+      .filter(t =>
+        (!filters.floatAstId || t.floatAstId === filters.floatAstId) &&
+        (!filters.userId || t.userId === filters.userId)
+      )
+      .sort((a, b) => a.position - b.position || (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async getThread(id: string): Promise<Thread | undefined> {
+    return this.threads.get(id);
+  }
+
+  async createThread(insertThread: InsertThread): Promise<Thread> {
+    const id = randomUUID();
+    const thread: Thread = {
+      ...insertThread,
+      id,
+      nodeIds: insertThread.nodeIds || [],
+      weight: insertThread.weight ?? 0.5,
+      position: insertThread.position ?? 0,
+      createdAt: new Date(),
+      modifiedAt: new Date(),
+      userId: insertThread.userId || null,
+    };
+    this.threads.set(id, thread);
+    return thread;
+  }
+
+  async updateThread(id: string, updates: Partial<InsertThread>): Promise<Thread | undefined> {
+    const existing = this.threads.get(id);
+    if (!existing) return undefined;
+
+    const updated: Thread = { ...existing, ...updates, modifiedAt: new Date() };
+    this.threads.set(id, updated);
+    return updated;
+  }
+
+  async deleteThread(id: string): Promise<boolean> {
+    return this.threads.delete(id);
+  }
+}
+
+// Row type of each journaled table, keyed like MemStorage's maps
+interface TableRows {
+  users: User;
+  conversations: Conversation;
+  floatAsts: FloatASTRecord;
+  zines: Zine;
+  zineEditions: ZineEdition;
+  fragments: Fragment;
+  threads: Thread;
+}
+
+type TableName = keyof TableRows;
+
+interface JournalEntry {
+  seq: number;
+  op: "put" | "delete";
+  table: TableName;
+  id: string;
+  record?: Record<string, unknown>;
+}
+
+interface Snapshot {
+  seq: number;
+  tables: Record<TableName, Record<string, unknown>[]>;
+}
+
+const TABLE_NAMES: TableName[] = ["users", "conversations", "floatAsts", "zines", "zineEditions", "fragments", "threads"];
+
+// JSON turns Dates into ISO strings; every timestamp column ends in "At"
+function reviveDates<T>(record: Record<string, unknown>): T {
+  const revived: Record<string, unknown> = { ...record };
+  for (const [key, value] of Object.entries(revived)) {
+    if (key.endsWith("At") && typeof value === "string") {
+      revived[key] = new Date(value);
+    }
+  }
+  return revived as T;
+}
+
+// Local-disk storage for single-user installs. State lives in memory (via
+// MemStorage); every mutation is appended to journal.jsonl and fsynced before
+// the call resolves. Once the journal grows past snapshotEvery entries the
+// full state is written to snapshot.json and the journal is truncated.
+export class FileStorage extends MemStorage {
+  private journalPath: string;
+  private snapshotPath: string;
+  private journalFd: number;
+  private seq = 0;
+  private journalLength = 0;
+
+  constructor(private dataDir: string, private snapshotEvery = 500) {
+    super();
+    fs.mkdirSync(dataDir, { recursive: true });
+    this.journalPath = path.join(dataDir, "journal.jsonl");
+    this.snapshotPath = path.join(dataDir, "snapshot.json");
+    this.recover();
+    this.journalFd = fs.openSync(this.journalPath, "a");
+  }
+
+  private table<N extends TableName>(name: N): Map<string, TableRows[N]> {
+    return this[name] as Map<string, TableRows[N]>;
+  }
+
+  // Load the last snapshot, then replay journal entries written after it. A
+  // torn final line (crash mid-append) is dropped and cut from the file.
+  private recover() {
+    if (fs.existsSync(this.snapshotPath)) {
+      const snapshot: Snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, "utf-8"));
+      for (const name of TABLE_NAMES) {
+        for (const record of snapshot.tables[name] || []) {
+          this.table(name).set(record.id as string, reviveDates(record));
+        }
+      }
+      this.seq = snapshot.seq;
+    }
+
+    if (!fs.existsSync(this.journalPath)) return;
+
+    const journal = fs.readFileSync(this.journalPath);
+    let validBytes = 0;
+
+    while (validBytes < journal.length) {
+      // Each entry is written with its newline in one call, so a missing
+      // newline means the final append never completed
+      const lineEnd = journal.indexOf(0x0a, validBytes);
+      if (lineEnd === -1) break;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(journal.toString("utf-8", validBytes, lineEnd));
+      } catch {
+        break;
+      }
+
+      // Entries at or below the snapshot seq were already compacted into it
+      if (entry.seq > this.seq) {
+        this.apply(entry);
+        this.seq = entry.seq;
+      }
+      this.journalLength++;
+      validBytes = lineEnd + 1;
+    }
+
+    if (validBytes < journal.length) {
+      console.warn(`Discarding torn journal tail in ${this.journalPath} at byte ${validBytes}`);
+      fs.truncateSync(this.journalPath, validBytes);
+    }
+  }
+
+  private apply(entry: JournalEntry) {
+    const table = this.table(entry.table);
+    if (entry.op === "put" && entry.record) {
+      table.set(entry.id, reviveDates(entry.record));
+    } else if (entry.op === "delete") {
+      table.delete(entry.id);
+    }
+  }
+
+  private append(op: JournalEntry["op"], table: TableName, id: string, record?: object) {
+    const entry: JournalEntry = { seq: ++this.seq, op, table, id, record: record as Record<string, unknown> };
+    fs.writeSync(this.journalFd, JSON.stringify(entry) + "\n");
+    fs.fsyncSync(this.journalFd);
+
+    if (++this.journalLength >= this.snapshotEvery) {
+      this.snapshot();
+    }
+  }
+
+  // Write the snapshot to a temp file and rename it over the old one so a
+  // crash leaves either the previous or the new snapshot, never a partial one.
+  // The rename is only durable once the directory is fsynced, so that happens
+  // before the journal entries it replaces are truncated.
+  snapshot() {
+    const snapshot: Snapshot = {
+      seq: this.seq,
+      tables: {
+        users: Array.from(this.users.values()),
+        conversations: Array.from(this.conversations.values()),
+        floatAsts: Array.from(this.floatAsts.values()),
+        zines: Array.from(this.zines.values()),
+        zineEditions: Array.from(this.zineEditions.values()),
+        fragments: Array.from(this.fragments.values()),
+        threads: Array.from(this.threads.values()),
+      },
+    };
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(tmpPath, "w");
+    fs.writeSync(fd, JSON.stringify(snapshot));
+    fs.fsyncSync(fd);
+    fs.closeSync(fd);
+    fs.renameSync(tmpPath, this.snapshotPath);
+    const dirFd = fs.openSync(this.dataDir, "r");
+    fs.fsyncSync(dirFd);
+    fs.closeSync(dirFd);
+
+    fs.ftruncateSync(this.journalFd, 0);
+    fs.fsyncSync(this.journalFd);
+    this.journalLength = 0;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user = await super.createUser(insertUser);
+    this.append("put", "users", user.id, user);
+    return user;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const conversation = await super.createConversation(insertConversation);
+    this.append("put", "conversations", conversation.id, conversation);
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const updated = await super.updateConversation(id, updates);
+    if (updated) this.append("put", "conversations", id, updated);
+    return updated;
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    const deleted = await super.deleteConversation(id);
+    if (deleted) this.append("delete", "conversations", id);
+    return deleted;
+  }
+
+  async createFloatAST(id: string, data: FloatAST, userId?: string): Promise<FloatASTRecord> {
+    const record = await super.createFloatAST(id, data, userId);
+    this.append("put", "floatAsts", id, record);
+    return record;
+  }
+
+  async updateFloatAST(id: string, data: FloatAST): Promise<FloatASTRecord | undefined> {
+    const updated = await super.updateFloatAST(id, data);
+    if (updated) this.append("put", "floatAsts", id, updated);
+    return updated;
+  }
+
+  async deleteFloatAST(id: string): Promise<boolean> {
+    const linked = <T extends { id: string; floatAstId: string | null }>(rows: Map<string, T>) =>
+      Array.from(rows.values()).filter(row => row.floatAstId === id).map(row => row.id);
+    const fragmentIds = linked(this.fragments);
+    const threadIds = linked(this.threads);
+    const conversationIds = linked(this.conversations);
+    const zineIds = linked(this.zines);
+
+    const deleted = await super.deleteFloatAST(id);
+    if (deleted) {
+      for (const fragmentId of fragmentIds) this.append("delete", "fragments", fragmentId);
+      for (const threadId of threadIds) this.append("delete", "threads", threadId);
+      for (const conversationId of conversationIds) {
+        this.append("put", "conversations", conversationId, this.conversations.get(conversationId));
+      }
+      for (const zineId of zineIds) this.append("put", "zines", zineId, this.zines.get(zineId));
+      this.append("delete", "floatAsts", id);
+    }
+    return deleted;
+  }
+
+  async createZine(insertZine: InsertZine): Promise<Zine> {
+    const zine = await super.createZine(insertZine);
+    this.append("put", "zines", zine.id, zine);
+    return zine;
+  }
+
+  async updateZine(id: string, updates: Partial<InsertZine>): Promise<Zine | undefined> {
+    const updated = await super.updateZine(id, updates);
+    if (updated) this.append("put", "zines", id, updated);
+    return updated;
+  }
+
+  async deleteZine(id: string): Promise<boolean> {
+    const editions = await super.getZineEditions(id);
+    const deleted = await super.deleteZine(id);
+    if (deleted) {
+      for (const edition of editions) this.append("delete", "zineEditions", edition.id);
+      this.append("delete", "zines", id);
+    }
+    return deleted;
+  }
+
+  async createZineEdition(insertEdition: InsertZineEdition): Promise<ZineEdition> {
+    const edition = await super.createZineEdition(insertEdition);
+    this.append("put", "zineEditions", edition.id, edition);
+    return edition;
+  }
+
+  async createFragment(insertFragment: InsertFragment): Promise<Fragment> {
+    const fragment = await super.createFragment(insertFragment);
+    this.append("put", "fragments", fragment.id, fragment);
+    return fragment;
+  }
+
+  async updateFragment(id: string, updates: Partial<InsertFragment>): Promise<Fragment | undefined> {
+    const updated = await super.updateFragment(id, updates);
+    if (updated) this.append("put", "fragments", id, updated);
+    return updated;
+  }
+
+  async deleteFragment(id: string): Promise<boolean> {
+    const deleted = await super.deleteFragment(id);
+    if (deleted) this.append("delete", "fragments", id);
+    return deleted;
+  }
+
+  async createThread(insertThread: InsertThread): Promise<Thread> {
+    const thread = await super.createThread(insertThread);
+    this.append("put", "threads", thread.id, thread);
+    return thread;
+  }
+
+  async updateThread(id: string, updates: Partial<InsertThread>): Promise<Thread | undefined> {
+    const updated = await super.updateThread(id, updates);
+    if (updated) this.append("put", "threads", id, updated);
+    return updated;
+  }
+
+  async deleteThread(id: string): Promise<boolean> {
+    const deleted = await super.deleteThread(id);
+    if (deleted) this.append("delete", "threads", id);
+    return deleted;
+  }
+}
+
+// Drizzle-backed storage using the pgTables declared in shared/schema.ts
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Conversation operations
+  async getConversations(userId?: string): Promise<Conversation[]> {
+    const query = this.db.select().from(conversations);
+    return userId
+      ? query.where(eq(conversations.userId, userId)).orderBy(asc(conversations.createdAt))
+      : query.orderBy(asc(conversations.createdAt));
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getConversationByFloatAST(floatAstId: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.floatAstId, floatAstId))
+      .orderBy(asc(conversations.createdAt))
+      .limit(1);
+    return conversation;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db.insert(conversations).values(insertConversation).returning();
+    return conversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    // Drizzle refuses an UPDATE without any SET columns
+    if (Object.keys(updates).length === 0) return this.getConversation(id);
+
+    const [updated] = await this.db
+      .update(conversations)
+      .set(updates)
+      .where(eq(conversations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(conversations)
+      .where(eq(conversations.id, id))
+      .returning({ id: conversations.id });
+    return deleted.length > 0;
+  }
+
+  // FloatAST operations
+  async getFloatASTs(userId?: string): Promise<FloatASTRecord[]> {
+    const query = this.db.select().from(floatAsts);
+    return userId
+      ? query.where(eq(floatAsts.userId, userId)).orderBy(asc(floatAsts.createdAt))
+      : query.orderBy(asc(floatAsts.createdAt));
+  }
+
+  async getFloatAST(id: string): Promise<FloatASTRecord | undefined> {
+    const [record] = await this.db.select().from(floatAsts).where(eq(floatAsts.id, id));
+    return record;
+  }
+
+  async createFloatAST(id: string, data: FloatAST, userId?: string): Promise<FloatASTRecord> {
+    const [record] = await this.db
+      .insert(floatAsts)
+      .values({ id, data, userId: userId || null })
+      .returning();
+    return record;
+  }
+
+  async updateFloatAST(id: string, data: FloatAST): Promise<FloatASTRecord | undefined> {
+    const [updated] = await this.db
+      .update(floatAsts)
+      .set({ data, modifiedAt: new Date() })
+      .where(eq(floatAsts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteFloatAST(id: string): Promise<boolean> {
+    // Unlink referencing rows first so the foreign keys don't block the delete
+    await this.db.update(conversations).set({ floatAstId: null }).where(eq(conversations.floatAstId, id));
+    await this.db.update(zines).set({ floatAstId: null }).where(eq(zines.floatAstId, id));
+
+    const deleted = await this.db
+      .delete(floatAsts)
+      .where(eq(floatAsts.id, id))
+      .returning({ id: floatAsts.id });
+    return deleted.length > 0;
+  }
+
+  // Zine operations
+  async getZines(userId?: string): Promise<Zine[]> {
+    const query = this.db.select().from(zines);
+    return userId
+      ? query.where(eq(zines.userId, userId)).orderBy(asc(zines.createdAt))
+      : query.orderBy(asc(zines.createdAt));
+  }
+
+  async getZine(id: string): Promise<Zine | undefined> {
+    const [zine] = await this.db.select().from(zines).where(eq(zines.id, id));
+    return zine;
+  }
+
+  async createZine(insertZine: InsertZine): Promise<Zine> {
+    const [zine] = await this.db.insert(zines).values(insertZine).returning();
+    return zine;
+  }
+
+  async updateZine(id: string, updates: Partial<InsertZine>): Promise<Zine | undefined> {
+    if (Object.keys(updates).length === 0) return this.getZine(id);
+
+    const [updated] = await this.db
+      .update(zines)
+      .set(updates)
+      .where(eq(zines.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteZine(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(zines)
+      .where(eq(zines.id, id))
+      .returning({ id: zines.id });
+    return deleted.length > 0;
+  }
+
+  // Zine edition operations
+  async getZineEditions(zineId: string): Promise<ZineEdition[]> {
+    return this.db
+      .select()
+      .from(zineEditions)
+      .where(eq(zineEditions.zineId, zineId))
+      .orderBy(asc(zineEditions.edition));
+  }
+
+  async getZineEdition(zineId: string, edition: number): Promise<ZineEdition | undefined> {
+    const [found] = await this.db
+      .select()
+      .from(zineEditions)
+      .where(and(eq(zineEditions.zineId, zineId), eq(zineEditions.edition, edition)));
+    return found;
+  }
+
+  async createZineEdition(insertEdition: InsertZineEdition): Promise<ZineEdition> {
+    try {
+      const [edition] = await this.db.insert(zineEditions).values(insertEdition).returning();
+      return edition;
+    } catch (error) {
+      // unique_violation on zine_editions_zine_id_edition_idx
+      if ((error as { code?: string }).code === "23505") {
+        throw new DuplicateEditionError(insertEdition.zineId, insertEdition.edition);
+      }
+      throw error;
+    }
+  }
+
+  // Fragment operations
+  async getFragments(filters: FragmentFilters = {}): Promise<Fragment[]> {
+    const conditions: SQL[] = [];
+    if (filters.floatAstId) conditions.push(eq(fragments.floatAstId, filters.floatAstId));
+    if (filters.category) conditions.push(sql`lower(${fragments.category}) = lower(${filters.category})`);
+    if (filters.keyword) {
+      conditions.push(sql`exists (select 1 from unnest(${fragments.keywords}) as k where lower(k) = lower(${filters.keyword}))`);
+    }
+    if (filters.status) conditions.push(eq(fragments.status, filters.status));
+    if (filters.userId) conditions.push(eq(fragments.userId, filters.userId));
+
+    return this.db
+      .select()
+      .from(fragments)
+      .where(and(...conditions))
+      .orderBy(asc(fragments.createdAt));
+  }
+
+  async getFragment(id: string): Promise<Fragment | undefined> {
+    const [fragment] = await this.db.select().from(fragments).where(eq(fragments.id, id));
+    return fragment;
+  }
+
+  async createFragment(insertFragment: InsertFragment): Promise<Fragment> {
+    const [fragment] = await this.db.insert(fragments).values(insertFragment).returning();
+    return fragment;
+  }
+
+  async updateFragment(id: string, updates: Partial<InsertFragment>): Promise<Fragment | undefined> {
+    const [updated] = await this.db
+      .update(fragments)
+      .set({ ...updates, modifiedAt: new Date() })
+      .where(eq(fragments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteFragment(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(fragments)
+      .where(eq(fragments.id, id))
+      .returning({ id: fragments.id });
+    return deleted.length > 0;
+  }
+
+  // Thread operations
+  async getThreads(filters: ThreadFilters = {}): Promise<Thread[]> {
+    const conditions: SQL[] = [];
+    if (filters.floatAstId) conditions.push(eq(threads.floatAstId, filters.floatAstId));
+    if (filters.userId) conditions.push(eq(threads.userId, filters.userId));
+
+    return this.db
+      .select()
+      .from(threads)
+      .where(and(...conditions))
+      .orderBy(asc(threads.position), asc(threads.createdAt));
+  }
+
+  async getThread(id: string): Promise<Thread | undefined> {
+    const [thread] = await this.db.select().from(threads).where(eq(threads.id, id));
+    return thread;
+  }
+
+  async createThread(insertThread: InsertThread): Promise<Thread> {
+    const [thread] = await this.db.insert(threads).values(insertThread).returning();
+    return thread;
+  }
+
+  async updateThread(id: string, updates: Partial<InsertThread>): Promise<Thread | undefined> {
+    const [updated] = await this.db
+      .update(threads)
+      .set({ ...updates, modifiedAt: new Date() })
+      .where(eq(threads.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteThread(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(threads)
+      .where(eq(threads.id, id))
+      .returning({ id: threads.id });
+    return deleted.length > 0;
+  }
+}
+
+// A typo here would otherwise never trigger a snapshot and the journal
+// would grow without bound
+function snapshotEvery(value?: string): number | undefined {
+  if (!value) return undefined;
+  if (!/^\d+$/.test(value.trim()) || parseInt(value, 10) < 1) {
+    throw new Error(`STORAGE_SNAPSHOT_EVERY must be a positive integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+// STORAGE_DRIVER picks the backend explicitly ("memory", "file" or
+// "postgres"); otherwise Postgres is used whenever DATABASE_URL is configured.
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  const driver = env.STORAGE_DRIVER || (env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "file":
+      return new FileStorage(
+        env.STORAGE_DIR || path.resolve(process.cwd(), "data"),
+        snapshotEvery(env.STORAGE_SNAPSHOT_EVERY),
+      );
+    case "postgres":
+      if (!env.DATABASE_URL) {
+        throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL to be set");
+      }
+      return new DbStorage(createDatabase(env.DATABASE_URL));
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { detectDialect, formatTranscript, parseConversation, splitLines } from "./parser";
+
+const NOW = "2025-09-12T00:00:00.000Z";
+
+function authors(content: string, options = {}) {
+  return parseConversation(content, { now: NOW, ...options }).nodes.map(node => node.author);
+}
+
+describe("splitLines", () => {
+  it("keeps character offsets across CRLF line endings", () => {
+    const lines = splitLines("one\r\ntwo\nthree");
+    expect(lines.map(line => line.text)).toEqual(["one", "two", "three"]);
+    expect(lines[1]).toEqual({ text: "two", start: 5, end: 8 });
+  });
+});
+
+describe("parseConversation", () => {
+  it("reads plain transcripts and resolves roles", () => {
+    const parsed = parseConversation("User: hello\n\nAssistant: hi there\nsecond line", { now: NOW });
+    expect(parsed.dialect).toBe("plain");
+    expect(parsed.nodes.map(node => [node.role, node.content.raw])).toEqual([
+      ["human", "hello"],
+      ["assistant", "hi there\nsecond line"],
+    ]);
+    expect(parsed.messages).toHaveLength(parsed.nodes.length);
+  });
+
+  it("keeps one-off and inline labels inside a message", () => {
+    const content = "User: plan?\n\nAssistant: Here it is.\nMain goal: ship\nNote: later\nStep 2: ship\n\nUser: thanks";
+    expect(authors(content)).toEqual(["User", "Assistant", "User"]);
+  });
+
+  it("splits on repeated labels that aren't known roles", () => {
+    expect(authors("Alice: hi\nBob: hey\nAlice: bye\nBob: see you")).toEqual(["Alice", "Bob", "Alice", "Bob"]);
+  });
+
+  it("only splits on the given speakers", () => {
+    const content = "Ana: hi\nTodo: nothing\nBen: hello";
+    expect(authors(content, { speakers: ["Ana", "Ben"] })).toEqual(["Ana", "Ben"]);
+  });
+
+  it("ignores labels inside code fences", () => {
+    const content = "User: run it\n\nAssistant:\n```\nUser: not a turn\n```\n\nUser: ok";
+    expect(authors(content)).toEqual(["User", "Assistant", "User"]);
+  });
+
+  it("reads Human/Assistant transcripts and expands H/A", () => {
+    const parsed = parseConversation("H: question\n\nA: answer\nStep 1: do it\n\nHuman: more\n\nAssistant: done", { now: NOW });
+    expect(parsed.dialect).toBe("human-assistant");
+    expect(parsed.nodes.map(node => node.author)).toEqual(["Human", "Assistant", "Human", "Assistant"]);
+    expect(parsed.nodes[1].content.raw).toBe("answer\nStep 1: do it");
+  });
+
+  it("reads markdown heading turns and keeps one-off headings in the message", () => {
+    const content = "### User\nhello\n\n### Assistant\n## Plan\nsteps\n\n### User\nthanks";
+    const parsed = parseConversation(content, { now: NOW });
+    expect(parsed.dialect).toBe("markdown");
+    expect(parsed.nodes.map(node => node.author)).toEqual(["User", "Assistant", "User"]);
+    expect(parsed.nodes[1].content.raw).toBe("## Plan\nsteps");
+  });
+
+  it("anchors time-only timestamps to the day of now", () => {
+    const parsed = parseConversation("10:02 PM - Bob: hi\n10:05 PM - Alice: hello", { now: NOW });
+    expect(parsed.dialect).toBe("timestamped");
+    expect(parsed.messages.map(message => message.createdAt)).toEqual([
+      "2025-09-12T22:02:00.000Z",
+      "2025-09-12T22:05:00.000Z",
+    ]);
+  });
+
+  it("records where each node came from", () => {
+    const content = "User: one\n\nAssistant: two\nthree";
+    const [, reply] = parseConversation(content, { now: NOW }).nodes;
+    expect(reply.source).toEqual({ line_start: 3, line_end: 4, char_start: 11, char_end: content.length });
+  });
+
+  it("uses the dialect it is given over the detected one", () => {
+    const parsed = parseConversation("### User\nhi\n\n### Assistant\nhello", { now: NOW, dialect: "plain" });
+    expect(parsed.dialect).toBe("plain");
+    expect(parsed.nodes.map(node => node.author)).toEqual([undefined]);
+  });
+
+  it("rejects an unknown dialect", () => {
+    expect(() => parseConversation("User: hi", { dialect: "irc" })).toThrow('Unknown conversation dialect "irc"');
+  });
+});
+
+describe("formatTranscript", () => {
+  it("round-trips through parseConversation with its speakers", () => {
+    const entries = [
+      { author: "Ana", text: "Summary: short\nrest of it" },
+      { author: "Ben", text: "```\nAna: quoted\n```" },
+      { author: "Ana", text: "ok" },
+    ];
+    const { content, spans, dialect, speakers } = formatTranscript(entries);
+    const parsed = parseConversation(content, { now: NOW, dialect, speakers });
+
+    expect(dialect).toBe("plain");
+    expect(speakers).toEqual(["Ana", "Ben"]);
+    expect(parsed.nodes.map(node => node.content.raw)).toEqual(entries.map(entry => entry.text));
+    expect(parsed.nodes.map(node => node.source)).toEqual(spans);
+  });
+
+  it("uses the timestamped dialect when every entry has a time", () => {
+    const { content, dialect, speakers } = formatTranscript([
+      { author: "Ana", text: "hi", timestamp: "2025-09-12T10:00:00Z" },
+      { author: "Ben", text: "hey", timestamp: "2025-09-12T10:01:00Z" },
+    ]);
+    expect(dialect).toBe("timestamped");
+    expect(detectDialect(content, { speakers }).name).toBe("timestamped");
+    const parsed = parseConversation(content, { now: NOW, speakers });
+    expect(parsed.messages.map(message => message.createdAt)).toEqual([
+      "2025-09-12T10:00:00.000Z",
+      "2025-09-12T10:01:00.000Z",
+    ]);
+  });
+});
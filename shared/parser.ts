@@ -0,0 +1,470 @@
+import type { FloatNode, Message, Persona } from "./schema";
+
+// Conversation parsing shared by the client reader and the server FloatAST
+// pipeline. A dialect recognises one transcript format and decides which
+// lines start a new message; grouping, roles and personas are common.
+
+export interface SourceLine {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSegment {
+  author?: string;
+  text: string;
+  timestamp?: string;
+  lineStart: number;
+  lineEnd: number;
+  charStart: number;
+  charEnd: number;
+}
+
+export interface ConversationDialect {
+  name: string;
+  // Confidence between 0 and 1 that the transcript uses this dialect
+  detect(lines: SourceLine[], options?: ParseOptions): number;
+  segment(lines: SourceLine[], options: ParseOptions): ParsedSegment[];
+}
+
+export interface ParseOptions {
+  dialect?: string;
+  convoId?: string;
+  // Fallback createdAt for messages without a timestamp, and the date used
+  // for time-only timestamps
+  now?: string;
+  createId?: (kind: "msg" | "node", index: number) => string;
+  // The only labels that start messages, when the speakers are known up
+  // front (transcripts written by formatTranscript)
+  speakers?: string[];
+}
+
+export interface ParsedConversation {
+  dialect: string;
+  messages: Message[];
+  nodes: FloatNode[];
+}
+
+// A line that starts a message: its speaker label and the text after it
+interface Boundary {
+  author: string;
+  text: string;
+  timestamp?: string;
+}
+
+const SPEAKER_LINE = /^([A-Za-z0-9][\w .'@-]{0,39}):(?:\s+(.*))?$/;
+const FENCE_LINE = /^\s*(```|~~~)/;
+const KNOWN_SPEAKERS = /^(human|user|me|you|assistant|ai|bot|model|system|claude|chatgpt|gpt-?[\w.]*|gemini)$/i;
+const ASSISTANT_SPEAKERS = /^(assistant|ai|bot|model|claude|chatgpt|gpt-?[\w.]*|gemini|copilot)\b/i;
+const SYSTEM_SPEAKERS = /^system$/i;
+
+export function splitLines(content: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  const linePattern = /([^\r\n]*)(\r?\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = linePattern.exec(content)) && match[0].length > 0) {
+    lines.push({ text: match[1], start: match.index, end: match.index + match[1].length });
+  }
+  return lines;
+}
+
+// Marks the lines inside ``` / ~~~ fences, fence lines included
+function fencedLines(lines: SourceLine[]): boolean[] {
+  let inFence = false;
+  return lines.map(line => {
+    if (FENCE_LINE.test(line.text)) {
+      inFence = !inFence;
+      return true;
+    }
+    return inFence;
+  });
+}
+
+// Group lines into messages: every boundary line starts one, everything up to
+// the next boundary (paragraphs, lists, code fences) belongs to it
+function groupSegments(lines: SourceLine[], boundaries: Map<number, Boundary>): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+  let current: { boundary?: Boundary; start: number; body: number[] } | null = null;
+
+  // The boundary line contributes only the text after its label
+  const lineText = (index: number) => boundaries.get(index)?.text ?? lines[index].text;
+
+  const flush = () => {
+    if (!current) return;
+    const body = current.body;
+    // Drop leading/trailing blank lines but keep the ones between paragraphs
+    while (body.length > 0 && !lineText(body[0]).trim()) body.shift();
+    while (body.length > 0 && !lineText(body[body.length - 1]).trim()) body.pop();
+    if (body.length > 0) {
+      // Speaker messages span from their boundary line, even when it's empty
+      const first = current.boundary ? current.start : body[0];
+      const last = body[body.length - 1];
+      segments.push({
+        author: current.boundary?.author,
+        text: body.map(lineText).join("\n"),
+        timestamp: current.boundary?.timestamp,
+        lineStart: first + 1,
+        lineEnd: last + 1,
+        charStart: lines[first].start,
+        charEnd: lines[last].end,
+      });
+    }
+    current = null;
+  };
+
+  lines.forEach((_line, index) => {
+    const boundary = boundaries.get(index);
+    if (boundary) {
+      flush();
+      current = { boundary, start: index, body: [index] };
+      return;
+    }
+    if (!current) current = { start: index, body: [] };
+    current.body.push(index);
+  });
+  flush();
+
+  return segments;
+}
+
+// Labels that introduce a line inside a message rather than a new speaker
+const INLINE_LABELS = /^(notes?|examples?|e\.g|i\.e|warning|tip|hint|important|caution|step( \d+)?|output|input|results?|error|summary|answer|question|update|edit|source|todo|p\.?s|nb|note to self)$/i;
+
+function isSpeakerLabel(label: string): boolean {
+  if (KNOWN_SPEAKERS.test(label)) return true;
+  return !INLINE_LABELS.test(label) && label.split(/\s+/).length <= 3;
+}
+
+function isKnownSpeaker(label: string, options?: ParseOptions): boolean {
+  return !options?.speakers || options.speakers.includes(label);
+}
+
+// "Name:" labels that start messages. Given speakers are taken as is;
+// otherwise only labels that repeat or are well-known roles count, so a
+// one-off "Main goal:" inside a reply doesn't split it. A transcript with no
+// such label falls back to all of them.
+function plainSpeakers(lines: SourceLine[], options?: ParseOptions): Set<string> {
+  const fenced = fencedLines(lines);
+  const labels = lines
+    .map((line, i) => (fenced[i] ? undefined : line.text.match(SPEAKER_LINE)?.[1].trim()))
+    .filter((label): label is string => !!label && isSpeakerLabel(label));
+  if (options?.speakers) return new Set(labels.filter(label => isKnownSpeaker(label, options)));
+
+  const counts = new Map<string, number>();
+  for (const label of labels) counts.set(label, (counts.get(label) || 0) + 1);
+  const confident = labels.filter(label => counts.get(label)! > 1 || KNOWN_SPEAKERS.test(label));
+  return new Set(confident.length > 0 ? confident : labels);
+}
+
+// Plain "Name: text" transcripts
+const plainDialect: ConversationDialect = {
+  name: "plain",
+  detect(lines, options) {
+    return plainSpeakers(lines, options).size > 0 ? 0.5 : 0.1;
+  },
+  segment(lines, options) {
+    const fenced = fencedLines(lines);
+    const speakers = plainSpeakers(lines, options);
+    const boundaries = new Map<number, Boundary>();
+    lines.forEach((line, i) => {
+      const match = fenced[i] ? null : line.text.match(SPEAKER_LINE);
+      const label = match?.[1].trim();
+      if (label && speakers.has(label)) {
+        boundaries.set(i, { author: label, text: match![2] || "" });
+      }
+    });
+    return groupSegments(lines, boundaries);
+  },
+};
+
+// Anthropic-style "Human:" / "Assistant:" transcripts. Only the fixed labels
+// start messages, so "Note:" or "Step 1:" lines always stay in the reply.
+const HUMAN_ASSISTANT_LINE = /^(Human|Assistant|H|A):(?:\s+(.*))?$/;
+
+const humanAssistantDialect: ConversationDialect = {
+  name: "human-assistant",
+  detect(lines, options) {
+    const fenced = fencedLines(lines);
+    const labels = lines
+      .filter((line, i) => !fenced[i])
+      .map(line => line.text.match(HUMAN_ASSISTANT_LINE)?.[1])
+      .filter((label): label is string => !!label && isKnownSpeaker(label, options));
+    return labels.includes("Human") && labels.includes("Assistant") ? 0.9 : 0;
+  },
+  segment(lines, options) {
+    const fenced = fencedLines(lines);
+    const boundaries = new Map<number, Boundary>();
+    lines.forEach((line, i) => {
+      const match = fenced[i] ? null : line.text.match(HUMAN_ASSISTANT_LINE);
+      if (match && isKnownSpeaker(match[1], options)) {
+        const author = match[1] === "H" ? "Human" : match[1] === "A" ? "Assistant" : match[1];
+        boundaries.set(i, { author, text: match[2] || "" });
+      }
+    });
+    return groupSegments(lines, boundaries);
+  },
+};
+
+// Markdown exports where each turn starts with a heading such as "### User"
+const HEADING_LINE = /^#{1,6}\s+([A-Za-z0-9][\w .'@-]{0,39}?)\s*:?\s*$/;
+
+// Only repeated or well-known headings are turns; one-off headings are
+// document structure inside a message
+function headingSpeakers(labels: string[], options?: ParseOptions): Set<string> {
+  if (options?.speakers) return new Set(labels.filter(label => isKnownSpeaker(label, options)));
+  const counts = new Map<string, number>();
+  for (const label of labels) counts.set(label, (counts.get(label) || 0) + 1);
+  return new Set(labels.filter(label => counts.get(label)! > 1 || KNOWN_SPEAKERS.test(label)));
+}
+
+const markdownDialect: ConversationDialect = {
+  name: "markdown",
+  detect(lines, options) {
+    const fenced = fencedLines(lines);
+    const open = lines.filter((_line, i) => !fenced[i]);
+    const labels = open
+      .map(line => line.text.match(HEADING_LINE)?.[1])
+      .filter((label): label is string => !!label);
+    const speakers = headingSpeakers(labels, options);
+    const turns = labels.filter(label => speakers.has(label)).length;
+    // A "User: ..." transcript whose replies use repeated headings stays plain
+    const plain = plainSpeakers(lines, options);
+    const speakerLines = open.filter(line => {
+      const label = line.text.match(SPEAKER_LINE)?.[1].trim();
+      return label && plain.has(label);
+    }).length;
+    return turns >= 2 && turns >= speakerLines ? 0.95 : 0;
+  },
+  segment(lines, options) {
+    const fenced = fencedLines(lines);
+    const candidates = lines.map((line, i) =>
+      fenced[i] ? undefined : line.text.match(HEADING_LINE)?.[1],
+    );
+    const speakers = headingSpeakers(candidates.filter((label): label is string => !!label), options);
+
+    const boundaries = new Map<number, Boundary>();
+    candidates.forEach((label, i) => {
+      if (label && speakers.has(label)) boundaries.set(i, { author: label, text: "" });
+    });
+    return groupSegments(lines, boundaries);
+  },
+};
+
+// Chat logs with a timestamp before the speaker, e.g.
+// "[2025-09-12 10:00] Alice: ..." or "10:02 PM - Bob: ..."
+const TIMESTAMPED_LINE = /^\[?(\d{4}-\d{2}-\d{2}[ T]\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?|\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AaPp][Mm])?)\]?\s*[-–]?\s*([^:\s][^:]{0,39}):(?:\s+(.*))?$/;
+
+function resolveTimestamp(raw: string, now: string): string | undefined {
+  if (/^\d{4}-/.test(raw)) {
+    const date = new Date(raw.replace(" ", "T"));
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  // Time only: anchor it to the day of `now`
+  const match = raw.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s?([AaPp][Mm])?$/);
+  if (!match) return undefined;
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  const date = new Date(now);
+  date.setUTCHours(hours, parseInt(match[2], 10), parseInt(match[3] || "0", 10), 0);
+  return date.toISOString();
+}
+
+const timestampedDialect: ConversationDialect = {
+  name: "timestamped",
+  detect(lines, options) {
+    const fenced = fencedLines(lines);
+    const matches = lines.filter((line, i) => {
+      const match = fenced[i] ? null : line.text.match(TIMESTAMPED_LINE);
+      return match && isKnownSpeaker(match[2].trim(), options);
+    }).length;
+    return matches >= 2 ? 0.95 : 0;
+  },
+  segment(lines, options) {
+    const now = options.now || new Date().toISOString();
+    const fenced = fencedLines(lines);
+    const boundaries = new Map<number, Boundary>();
+    lines.forEach((line, i) => {
+      const match = fenced[i] ? null : line.text.match(TIMESTAMPED_LINE);
+      if (match && isKnownSpeaker(match[2].trim(), options)) {
+        boundaries.set(i, {
+          author: match[2].trim(),
+          text: match[3] || "",
+          timestamp: resolveTimestamp(match[1], now),
+        });
+      }
+    });
+    return groupSegments(lines, boundaries);
+  },
+};
+
+// Registration order breaks detection ties, so the generic dialect goes last
+const dialects: ConversationDialect[] = [
+  timestampedDialect,
+  markdownDialect,
+  humanAssistantDialect,
+  plainDialect,
+];
+
+export function registerDialect(dialect: ConversationDialect) {
+  const existing = dialects.findIndex(d => d.name === dialect.name);
+  if (existing >= 0) {
+    dialects[existing] = dialect;
+  } else {
+    dialects.splice(dialects.length - 1, 0, dialect);
+  }
+}
+
+export function getDialects(): ConversationDialect[] {
+  return [...dialects];
+}
+
+export function detectDialect(content: string, options?: ParseOptions): ConversationDialect {
+  const lines = splitLines(content);
+  let best = dialects[dialects.length - 1];
+  let bestScore = -1;
+  for (const dialect of dialects) {
+    const score = dialect.detect(lines, options);
+    if (score > bestScore) {
+      best = dialect;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function resolveRole(author?: string): FloatNode["role"] {
+  if (!author) return undefined;
+  const label = author.trim();
+  if (SYSTEM_SPEAKERS.test(label)) return "system";
+  return ASSISTANT_SPEAKERS.test(label) ? "assistant" : "human";
+}
+
+const SYSTEM_PERSONA: Persona = {
+  id: "system",
+  name: "System",
+  role: "sysop",
+  colorToken: "text-gray-400",
+};
+
+export function personaFor(author?: string): Persona {
+  if (!author) return SYSTEM_PERSONA;
+  const role = resolveRole(author);
+  if (role === "system") return { ...SYSTEM_PERSONA, id: `persona-${author}`, name: author };
+  const isAssistant = role === "assistant";
+  return {
+    id: `persona-${author}`,
+    name: author,
+    role: isAssistant ? "researcher" : "author",
+    colorToken: isAssistant ? "text-purple-400" : "text-blue-400",
+  };
+}
+
+// Parse a transcript into reader messages and FloatNodes in one pass. The
+// i-th message and the i-th node always describe the same segment.
+export function parseConversation(content: string, options: ParseOptions = {}): ParsedConversation {
+  const lines = splitLines(content);
+  const dialect = options.dialect
+    ? dialects.find(d => d.name === options.dialect)
+    : detectDialect(content, options);
+  if (!dialect) {
+    throw new Error(`Unknown conversation dialect "${options.dialect}"`);
+  }
+
+  const now = options.now || new Date().toISOString();
+  const createId = options.createId || ((kind, index) => `${kind}-${index}`);
+  const segments = dialect.segment(lines, { ...options, now });
+
+  const personas = new Map<string, Persona>();
+  const messages: Message[] = [];
+  const nodes: FloatNode[] = [];
+
+  segments.forEach((segment, index) => {
+    const key = segment.author ?? "";
+    if (!personas.has(key)) personas.set(key, personaFor(segment.author));
+
+    const source = {
+      line_start: segment.lineStart,
+      line_end: segment.lineEnd,
+      char_start: segment.charStart,
+      char_end: segment.charEnd,
+    };
+
+    messages.push({
+      id: createId("msg", index),
+      convoId: options.convoId || "parsed",
+      author: personas.get(key)!,
+      createdAt: segment.timestamp || now,
+      text: segment.text,
+      meta: { source, timestamped: !!segment.timestamp },
+    });
+
+    nodes.push({
+      id: createId("node", index),
+      type: "message",
+      role: resolveRole(segment.author),
+      author: segment.author,
+      content: {
+        raw: segment.text,
+        processed: segment.text.trim(),
+      },
+      position: {
+        index,
+        depth: 0,
+      },
+      source,
+      ...(segment.timestamp ? { meta: { timestamp: segment.timestamp } } : {}),
+    });
+  });
+
+  return { dialect: dialect.name, messages, nodes };
+}
+
+export interface TranscriptEntry {
+  author: string;
+  text: string;
+  timestamp?: string;
+}
+
+export type NodeSource = NonNullable<FloatNode["source"]>;
+
+// Render messages as a transcript that parseConversation reads back: the
+// timestamped dialect when every entry has a time, plain otherwise. Returns
+// each entry's span so imported nodes can point into the stored content, and
+// the dialect and authors to parse it with so a "Label:" line in a message
+// stays text.
+export function formatTranscript(entries: TranscriptEntry[]): { content: string; spans: NodeSource[]; dialect: string; speakers: string[] } {
+  const timestamped = entries.length > 0 && entries.every(entry => entry.timestamp);
+  const spans: NodeSource[] = [];
+  let content = "";
+  let line = 1;
+
+  entries.forEach((entry, index) => {
+    if (index > 0) {
+      content += "\n\n";
+      line += 2;
+    }
+    const label = timestamped ? `[${entry.timestamp}] ${entry.author}:` : `${entry.author}:`;
+    // A fence can't open on the label line or the reader loses track of it
+    const separator = FENCE_LINE.test(entry.text.split("\n")[0]) ? "\n" : " ";
+    const block = `${label}${separator}${entry.text}`;
+    const lineCount = block.split("\n").length;
+    spans.push({
+      line_start: line,
+      line_end: line + lineCount - 1,
+      char_start: content.length,
+      char_end: content.length + block.length,
+    });
+    content += block;
+    line += lineCount - 1;
+  });
+
+  return {
+    content,
+    spans,
+    dialect: timestamped ? "timestamped" : "plain",
+    speakers: Array.from(new Set(entries.map(entry => entry.author))),
+  };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, timestamp, integer, real, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -27,10 +27,13 @@ export interface Message {
   meta?: Record<string, unknown>;
 }
 
+export const FLOAT_MARKER_KINDS = ["dispatch", "bridge", "highlight", "eureka", "decision"] as const;
+
 export interface FloatNode {
   id: string;
   type: "message" | "artifact" | "annotation" | "dispatch" | "ritual";
   role?: "human" | "assistant" | "system";
+  author?: string;
   content: {
     raw: string;
     processed?: string;
@@ -41,24 +44,31 @@ export interface FloatNode {
     emotional_tone?: string;
     certainty?: number;
   };
-  float_markers?: {
-    dispatch?: string;
-    bridge?: string;
-    highlight?: string;
-    eureka?: string;
-    decision?: string;
-  };
+  float_markers?: Partial<Record<typeof FLOAT_MARKER_KINDS[number], string>>;
   children?: FloatNode[];
   position: {
     index: number;
     depth: number;
     parent?: string;
   };
+  // Span of the message in the original transcript: 1-based inclusive lines,
+  // 0-based end-exclusive character offsets
+  source?: {
+    line_start: number;
+    line_end: number;
+    char_start: number;
+    char_end: number;
+  };
+  meta?: Record<string, unknown>;
 }
 
+export const FLOAT_EDGE_TYPES = [
+  "responds_to", "references", "contradicts", "elaborates", "summarizes", "questions", "implements", "bridges",
+] as const;
+
 export interface FloatEdge {
   id: string;
-  type: "responds_to" | "references" | "contradicts" | "elaborates" | "summarizes" | "questions" | "implements" | "bridges";
+  type: typeof FLOAT_EDGE_TYPES[number];
   source: string;
   target: string;
   weight?: number;
@@ -78,6 +88,8 @@ export interface NodeReference {
   chunk?: string;
   context?: string;
   strength?: number;
+  // Key of the related concept, on Concept.references entries
+  concept?: string;
 }
 
 export interface PatternStats {
@@ -100,13 +112,21 @@ export interface FloatAST {
     continuity_id?: string;
   };
   metadata: {
-    source: "claude" | "chatgpt" | "gemini" | "local" | "composite";
+    source: "claude" | "chatgpt" | "gemini" | "slack" | "discord" | "whatsapp" | "local" | "composite";
     mode?: string;
     project?: string;
     personas?: string[];
     sigils?: string[];
     tags?: string[];
     domain?: "concept" | "framework" | "metaphor";
+    // sha256 of the imported messages, used to skip re-imports
+    content_hash?: string;
+    // Authors of a transcript written by formatTranscript; re-parsing the
+    // conversation only takes these labels as speakers
+    transcript_speakers?: string[];
+    // Dialect the transcript was parsed or written in, so readers parse the
+    // stored content the same way
+    dialect?: string;
   };
   nodes: FloatNode[];
   concepts: Record<string, Concept>;
@@ -137,6 +157,9 @@ export const floatAsts = pgTable("float_asts", {
   userId: varchar("user_id").references(() => users.id),
 });
 
+export const ZINE_STATUSES = ["draft", "published", "archived"] as const;
+
+// publishedAt is set while readers can see the zine's latest edition
 export const zines = pgTable("zines", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
@@ -148,6 +171,58 @@ export const zines = pgTable("zines", {
   userId: varchar("user_id").references(() => users.id),
 });
 
+// Published snapshots of a zine. Rows are only ever inserted: publishing
+// changed content adds the next edition, so an edition never changes once
+// readers have seen it.
+export const zineEditions = pgTable("zine_editions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  zineId: varchar("zine_id").notNull().references(() => zines.id, { onDelete: "cascade" }),
+  edition: integer("edition").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  publishedAt: timestamp("published_at").defaultNow(),
+  userId: varchar("user_id").references(() => users.id),
+}, (table) => [
+  // Two publishes racing for the same number: one of them has to retry
+  uniqueIndex("zine_editions_zine_id_edition_idx").on(table.zineId, table.edition),
+]);
+
+export const FRAGMENT_STATUSES = ["pending", "accepted", "rejected", "starred"] as const;
+
+// Excerpts pulled out by /sift. The text is content.raw.slice(start, end)
+// of node nodeId in the FloatAST; query and extractedBy record how it was found.
+export const fragments = pgTable("fragments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  floatAstId: varchar("float_ast_id").notNull().references(() => floatAsts.id, { onDelete: "cascade" }),
+  nodeId: text("node_id").notNull(),
+  start: integer("start_offset").notNull(),
+  end: integer("end_offset").notNull(),
+  text: text("text").notNull(),
+  relevance: text("relevance").notNull().default(""),
+  keywords: text("keywords").array().notNull().default(sql`'{}'::text[]`),
+  category: text("category").notNull().default("General"),
+  query: text("query"),
+  extractedBy: text("extracted_by"), // model name, or "keyword" for the local fallback
+  status: text("status").notNull().default("pending"), // pending, accepted, rejected, starred
+  createdAt: timestamp("created_at").defaultNow(),
+  modifiedAt: timestamp("modified_at").defaultNow(),
+  userId: varchar("user_id").references(() => users.id),
+});
+
+// An ordered run of FloatAST nodes told as one story. position orders the
+// threads of a FloatAST.
+export const threads = pgTable("threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  floatAstId: varchar("float_ast_id").notNull().references(() => floatAsts.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  nodeIds: text("node_ids").array().notNull().default(sql`'{}'::text[]`),
+  weight: real("weight").notNull().default(0.5),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  modifiedAt: timestamp("modified_at").defaultNow(),
+  userId: varchar("user_id").references(() => users.id),
+});
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -159,6 +234,7 @@ export const insertConversationSchema = createInsertSchema(conversations).pick({
   content: true,
   userId: true,
   floatAstId: true,
+  createdAt: true,
 });
 
 export const insertZineSchema = createInsertSchema(zines).pick({
@@ -166,7 +242,89 @@ export const insertZineSchema = createInsertSchema(zines).pick({
   content: true,
   floatAstId: true,
   status: true,
+  publishedAt: true,
+  userId: true,
+}).extend({
+  status: z.enum(ZINE_STATUSES).optional(),
+});
+
+export const insertZineEditionSchema = createInsertSchema(zineEditions).pick({
+  zineId: true,
+  edition: true,
+  title: true,
+  content: true,
+  userId: true,
+});
+
+// Structured zine content, stored as JSON in zines.content. version is the
+// document format; shared/zine.ts reads older plain-text content as text.
+// Every block links back to the FloatAST nodes it was drawn from.
+export const ZINE_DOCUMENT_VERSION = 1;
+
+const zineBlockFields = {
+  text: z.string(),
+  nodeIds: z.array(z.string()).default([]),
+};
+
+export const zineBlockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("quote"), ...zineBlockFields, author: z.string().optional(), fragmentId: z.string().optional() }),
+  z.object({ type: z.literal("callout"), marker: z.enum(FLOAT_MARKER_KINDS), ...zineBlockFields }),
+  z.object({ type: z.literal("commentary"), ...zineBlockFields }),
+]);
+
+export const zineSectionSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  threadId: z.string().optional(),
+  nodeIds: z.array(z.string()).default([]),
+  blocks: z.array(zineBlockSchema).default([]),
+});
+
+export const zineFrontMatterSchema = z.object({
+  title: z.string().trim().min(1),
+  subtitle: z.string().optional(),
+  authors: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+  summary: z.string().optional(),
+  floatAstId: z.string().optional(),
+  depthLevel: z.number().int().min(1).max(5).optional(),
+});
+
+export const zineDocumentSchema = z.object({
+  version: z.literal(ZINE_DOCUMENT_VERSION),
+  frontMatter: zineFrontMatterSchema,
+  sections: z.array(zineSectionSchema),
+});
+
+export const insertFragmentSchema = createInsertSchema(fragments).pick({
+  floatAstId: true,
+  nodeId: true,
+  start: true,
+  end: true,
+  text: true,
+  relevance: true,
+  keywords: true,
+  category: true,
+  query: true,
+  extractedBy: true,
+  status: true,
+  userId: true,
+}).extend({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+  status: z.enum(FRAGMENT_STATUSES).optional(),
+});
+
+export const insertThreadSchema = createInsertSchema(threads).pick({
+  floatAstId: true,
+  title: true,
+  nodeIds: true,
+  weight: true,
+  position: true,
   userId: true,
+}).extend({
+  weight: z.number().min(0).max(1).optional(),
+  position: z.number().int().nonnegative().optional(),
 });
 
 // Types
@@ -176,4 +334,19 @@ export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertZine = z.infer<typeof insertZineSchema>;
 export type Zine = typeof zines.$inferSelect;
-export type FloatASTRecord = typeof floatAsts.$inferSelect;
\ No newline at end of file
+export type ZineBlock = z.infer<typeof zineBlockSchema>;
+export type ZineSection = z.infer<typeof zineSectionSchema>;
+export type ZineFrontMatter = z.infer<typeof zineFrontMatterSchema>;
+export type ZineDocument = z.infer<typeof zineDocumentSchema>;
+export type ZineStatus = typeof ZINE_STATUSES[number];
+// A zine as the single-zine endpoints return it, with content parsed
+export type ZineWithDocument = Zine & { document: ZineDocument };
+export type InsertZineEdition = z.infer<typeof insertZineEditionSchema>;
+export type ZineEdition = typeof zineEditions.$inferSelect;
+export type ZineEditionWithDocument = ZineEdition & { document: ZineDocument };
+export type FloatASTRecord = typeof floatAsts.$inferSelect;
+export type InsertFragment = z.infer<typeof insertFragmentSchema>;
+export type Fragment = typeof fragments.$inferSelect;
+export type FragmentStatus = typeof FRAGMENT_STATUSES[number];
+export type InsertThread = z.infer<typeof insertThreadSchema>;
+export type Thread = typeof threads.$inferSelect;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { ZINE_ACTIONS, canApplyZineAction, parseZineContent, serializeZineDocument, zineNodeIds } from "./zine";
+import type { ZineDocument } from "./schema";
+
+const document: ZineDocument = {
+  version: 1,
+  frontMatter: { title: "Binding", authors: ["Ana"], tags: ["craft"], floatAstId: "ast-1" },
+  sections: [{
+    id: "t1",
+    title: "Stitching",
+    nodeIds: ["n0", "n1"],
+    blocks: [
+      { type: "quote", text: "Staple it", nodeIds: ["n1"], author: "Ana" },
+      { type: "commentary", text: "Then fold.", nodeIds: ["n2"] },
+    ],
+  }],
+};
+
+describe("parseZineContent", () => {
+  it("reads a stored document as it is", () => {
+    expect(parseZineContent(serializeZineDocument(document), "Ignored")).toEqual(document);
+  });
+
+  it("turns plain text into one commentary section under the zine's title", () => {
+    expect(parseZineContent("  Notes on folding  ", "Folding")).toEqual({
+      version: 1,
+      frontMatter: { title: "Folding", authors: [], tags: [] },
+      sections: [{ id: "section-1", title: "", nodeIds: [], blocks: [{ type: "commentary", text: "Notes on folding", nodeIds: [] }] }],
+    });
+    expect(parseZineContent("", "Empty").sections).toEqual([]);
+  });
+
+  it("keeps JSON that isn't a document as text", () => {
+    const content = JSON.stringify({ version: 1, sections: "nope" });
+    expect(parseZineContent(content, "Zine").sections[0].blocks[0].text).toBe(content);
+    expect(parseZineContent("[1, 2]", "Zine").sections[0].blocks[0].text).toBe("[1, 2]");
+
+    // Unversioned JSON isn't upgraded into a document
+    const unversioned = JSON.stringify({ title: "Old", sections: [{ id: "t1", title: "S", blocks: [] }] });
+    expect(parseZineContent(unversioned, "Zine")).toMatchObject({
+      frontMatter: { title: "Zine" },
+      sections: [{ blocks: [{ type: "commentary", text: unversioned }] }],
+    });
+  });
+});
+
+describe("zineNodeIds", () => {
+  it("collects the nodes of sections and blocks once each", () => {
+    expect(zineNodeIds(document)).toEqual(["n0", "n1", "n2"]);
+  });
+});
+
+describe("canApplyZineAction", () => {
+  it("follows the publishing transitions", () => {
+    expect(canApplyZineAction("publish", "draft")).toBe(true);
+    expect(canApplyZineAction("publish", "published")).toBe(false);
+    expect(canApplyZineAction("republish", "published")).toBe(true);
+    expect(canApplyZineAction("unpublish", "draft")).toBe(false);
+    expect(canApplyZineAction("archive", "published")).toBe(true);
+    expect(ZINE_ACTIONS.some(action => canApplyZineAction(action, "archived"))).toBe(false);
+  });
+});
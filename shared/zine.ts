@@ -0,0 +1,65 @@
+import { ZINE_DOCUMENT_VERSION, zineDocumentSchema, type ZineDocument, type ZineSection, type ZineStatus } from "./schema";
+
+// Zine content and publishing rules shared by the server routes and the
+// editor. Plain-text content written before the document format existed is
+// read as one section with a single commentary block, so no stored zine
+// needs migrating.
+
+export function emptyZineDocument(title: string, floatAstId?: string): ZineDocument {
+  return {
+    version: ZINE_DOCUMENT_VERSION,
+    frontMatter: { title, authors: [], tags: [], ...(floatAstId ? { floatAstId } : {}) },
+    sections: [],
+  };
+}
+
+export function textSection(text: string, id = "section-1"): ZineSection {
+  return { id, title: "", nodeIds: [], blocks: [{ type: "commentary", text, nodeIds: [] }] };
+}
+
+// Content that doesn't parse as a document is kept as text under the zine's
+// title rather than dropped.
+export function parseZineContent(content: string, title: string): ZineDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    data = undefined;
+  }
+
+  const parsed = zineDocumentSchema.safeParse(data);
+  if (parsed.success) return parsed.data;
+
+  const document = emptyZineDocument(title);
+  if (content.trim()) document.sections.push(textSection(content.trim()));
+  return document;
+}
+
+export function serializeZineDocument(document: ZineDocument): string {
+  return JSON.stringify(document);
+}
+
+// Every node a document links to, from sections and blocks
+export function zineNodeIds(document: ZineDocument): string[] {
+  return Array.from(new Set(document.sections.flatMap(section => [
+    ...section.nodeIds,
+    ...section.blocks.flatMap(block => block.nodeIds),
+  ])));
+}
+
+export const ZINE_ACTIONS = ["publish", "republish", "unpublish", "archive"] as const;
+export type ZineAction = typeof ZINE_ACTIONS[number];
+
+// The statuses each publishing action starts from and the one it leads to.
+// publish and republish snapshot the content as an edition; republish needs
+// changes since the last one. Archived is final.
+export const ZINE_TRANSITIONS: Record<ZineAction, { from: ZineStatus[]; to: ZineStatus }> = {
+  publish: { from: ["draft"], to: "published" },
+  republish: { from: ["published"], to: "published" },
+  unpublish: { from: ["published"], to: "draft" },
+  archive: { from: ["draft", "published"], to: "archived" },
+};
+
+export function canApplyZineAction(action: ZineAction, status: string): boolean {
+  return ZINE_TRANSITIONS[action].from.some(from => from === status);
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Separate from vite.config.ts, whose root is the client
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["shared/**/*.test.ts", "server/**/*.test.ts"],
+    environment: "node",
+    // The storage singleton and marker rules load on import; keep storage in
+    // memory, the default marker rules and the AI paths on their local fallbacks
+    env: { STORAGE_DRIVER: "memory", LLM_PROVIDER: "none", MARKER_RULES_FILE: "" },
+  },
+});